@@ -0,0 +1,132 @@
+import {
+  analyzeWorkflow,
+  calculateMatrixSize,
+  getMatrixProviders,
+  parseWorkflow,
+  validateWorkflows,
+  WorkflowFile
+} from '../index';
+
+describe('Library API', () => {
+  const dynamicWorkflow = `
+name: Dynamic Matrix
+on: push
+jobs:
+  define-matrix:
+    runs-on: ubuntu-latest
+    outputs:
+      targets: \${{ steps.targets.outputs.targets }}
+    steps:
+      - id: targets
+        run: echo 'targets=["a", "b", "c", "d"]' >> "$GITHUB_OUTPUT"
+  build:
+    runs-on: ubuntu-latest
+    needs: define-matrix
+    strategy:
+      matrix:
+        target: \${{ fromJSON(needs.define-matrix.outputs.targets) }}
+    steps:
+      - run: echo "build"
+`;
+
+  let consoleSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    consoleSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    consoleSpy.mockRestore();
+  });
+
+  test('analyzes a workflow from a YAML string without side effects', () => {
+    const result = analyzeWorkflow(dynamicWorkflow, '.github/workflows/dynamic.yml', { maxConcurrency: 3 });
+
+    expect(result).toEqual(expect.objectContaining({
+      file: '.github/workflows/dynamic.yml',
+      concurrencyCount: 4,
+      peakJobs: ['build'],
+      passed: false
+    }));
+    expect(consoleSpy).not.toHaveBeenCalled();
+  });
+
+  test('analyzes an already-parsed workflow', () => {
+    const workflow: WorkflowFile = {
+      jobs: {
+        lint: { 'runs-on': 'ubuntu-latest' },
+        test: { 'runs-on': 'ubuntu-latest', strategy: { matrix: { node: [18, 20] } } }
+      }
+    };
+
+    const result = analyzeWorkflow(workflow, 'ci.yml');
+
+    expect(result.concurrencyCount).toBe(3);
+    expect(result.passed).toBe(true);
+    expect(result.details).toEqual([
+      expect.objectContaining({ jobs: ['lint', 'test'], count: 3, matrixSizes: { lint: 1, test: 2 } })
+    ]);
+  });
+
+  test('resolves reusable workflows through a custom loader', () => {
+    const loadWorkflow = jest.fn((file: string) => file === '.github/workflows/build.yml'
+      ? 'on: workflow_call\njobs:\n  a: { runs-on: ubuntu-latest }\n  b: { runs-on: ubuntu-latest }\n'
+      : undefined);
+
+    const result = analyzeWorkflow(
+      'jobs:\n  build:\n    uses: ./.github/workflows/build.yml\n  missing:\n    uses: ./.github/workflows/missing.yml\n',
+      '.github/workflows/caller.yml',
+      { loadWorkflow }
+    );
+
+    expect(loadWorkflow).toHaveBeenCalledWith('.github/workflows/build.yml');
+    expect(result.concurrencyCount).toBe(3);
+    expect(result.warnings).toEqual([
+      "Reusable workflow ./.github/workflows/missing.yml called by job 'missing' was not found"
+    ]);
+  });
+
+  test('leaves a parsed workflow calling reusable workflows unchanged', () => {
+    const workflow = parseWorkflow('jobs:\n  build:\n    uses: ./.github/workflows/build.yml\n' +
+      '  test:\n    needs: build\n    runs-on: ubuntu-latest\n');
+    const before = JSON.parse(JSON.stringify(workflow));
+    const loadWorkflow = (): string => 'on: workflow_call\njobs:\n  compile: { runs-on: ubuntu-latest }\n';
+
+    const result = analyzeWorkflow(workflow, '.github/workflows/caller.yml', { loadWorkflow });
+
+    expect(result.dependencies['test']).toEqual(['build/compile']);
+    expect(workflow).toEqual(before);
+  });
+
+  test('exposes matrix providers and matrix sizes', () => {
+    const workflow = parseWorkflow(dynamicWorkflow);
+    const providers = getMatrixProviders(workflow);
+
+    expect(providers.get('define-matrix.targets')).toEqual(expect.objectContaining({
+      size: 4,
+      consumers: new Set(['build'])
+    }));
+    expect(calculateMatrixSize(workflow.jobs?.build || {}, providers)).toBe(4);
+  });
+
+  test('returns a typed report for a set of workflows', () => {
+    const report = validateWorkflows([
+      { file: 'a.yml', content: dynamicWorkflow },
+      { file: 'b.yml', content: 'on: push\njobs:\n  test: { runs-on: ubuntu-latest }\n' },
+      { file: 'broken.yml', content: 'jobs: [' }
+    ], { maxConcurrency: 4, maxTotalConcurrency: 4 });
+
+    expect(report.passed).toBe(false);
+    expect(report.workflows.map(result => result.file)).toEqual(['a.yml', 'b.yml']);
+    expect(report.totalConcurrency).toBe(5);
+    expect(report.issues).toEqual([
+      expect.objectContaining({ type: 'parse-error', file: 'broken.yml' }),
+      {
+        type: 'total-concurrency-limit',
+        subject: 'push',
+        message: 'Total concurrency for push (5) exceeds maximum allowed (4)',
+        locations: [{ file: 'a.yml' }, { file: 'b.yml' }]
+      }
+    ]);
+  });
+});
@@ -0,0 +1,113 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { runCli } from '../cli';
+import { compareWithBaseline, createBaseline, loadGitBaseline, parseBaseline, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+describe('Baseline comparison', () => {
+  test('only fails on new violations and increases', () => {
+    const options = { maxConcurrency: 4 };
+    const before = validateWorkflows([
+      { file: 'legacy.yml', content: matrixWorkflow({ size: 6 }) },
+      { file: 'ci.yml', content: matrixWorkflow({ size: 3 }) }
+    ], options);
+    const after = validateWorkflows([
+      { file: 'legacy.yml', content: matrixWorkflow({ size: 5 }) },
+      { file: 'ci.yml', content: matrixWorkflow({ size: 6 }) },
+      { file: 'new.yml', content: matrixWorkflow({ size: 5 }) }
+    ], options);
+
+    const report = compareWithBaseline(after, createBaseline(before), 'origin/main');
+
+    expect(report.passed).toBe(false);
+    expect(report.issues.map(issue => issue.file)).toEqual(['ci.yml', 'new.yml']);
+    expect(report.baseline).toEqual({
+      source: 'origin/main',
+      workflows: [
+        { file: 'legacy.yml', before: 6, after: 5, jobs: [{ job: 'test', before: 6, after: 5 }] },
+        { file: 'ci.yml', before: 3, after: 6, jobs: [{ job: 'test', before: 3, after: 6 }] },
+        { file: 'new.yml', before: undefined, after: 5, jobs: [{ job: 'test', before: undefined, after: 5 }] }
+      ],
+      accepted: [expect.objectContaining({ file: 'legacy.yml', type: 'concurrency-limit' })]
+    });
+  });
+
+  test('accepts scheduled starts that already overlapped', () => {
+    const scheduled = (cron: string, size: number): string => matrixWorkflow({ size, on: { schedule: [{ cron }] } });
+    const options = { maxScheduledConcurrency: 8 };
+    const before = validateWorkflows([
+      { file: 'hourly.yml', content: scheduled('0 * * * *', 4) },
+      { file: 'nightly.yml', content: scheduled('0 3 * * *', 6) }
+    ], options);
+    const baseline = createBaseline(before);
+    expect(baseline.schedule['Sun 03:00']).toBe(10);
+
+    const unchanged = compareWithBaseline(before, baseline, 'origin/main');
+    expect(unchanged.passed).toBe(true);
+    expect(unchanged.baseline?.accepted).toEqual([
+      expect.objectContaining({ type: 'schedule-limit', subject: 'Sun 03:00' })
+    ]);
+
+    const grown = compareWithBaseline(validateWorkflows([
+      { file: 'hourly.yml', content: scheduled('0 * * * *', 5) },
+      { file: 'nightly.yml', content: scheduled('0 3 * * *', 6) }
+    ], options), baseline, 'origin/main');
+    expect(grown.passed).toBe(false);
+    expect(grown.issues).toEqual([expect.objectContaining({ type: 'schedule-limit', subject: 'Sun 03:00' })]);
+  });
+
+  test('analyzes the workflows at a git ref', () => {
+    const repo = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-baseline-'));
+    const git = (...args: string[]): void => {
+      execFileSync('git', ['-c', 'user.name=test', '-c', 'user.email=test@example.com', ...args],
+        { cwd: repo, stdio: 'ignore' });
+    };
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      fs.mkdirSync(path.join(repo, '.github', 'workflows'), { recursive: true });
+      fs.writeFileSync(path.join(repo, '.github', 'workflows', 'legacy.yml'), matrixWorkflow({ size: 6 }));
+      git('init', '-q');
+      git('add', '-A');
+      git('commit', '-q', '-m', 'Base');
+      git('tag', 'base');
+
+      expect(loadGitBaseline(repo, 'base', ['.github/workflows/legacy.yml', '.github/workflows/new.yml'], {}))
+        .toEqual({
+          workflows: { '.github/workflows/legacy.yml': { concurrencyCount: 6, jobs: { test: 6 }, runners: { 'ubuntu-latest': 6 } } },
+          triggers: { push: 6 },
+          schedule: {}
+        });
+      expect(() => loadGitBaseline(repo, 'missing', [], {})).toThrow('Baseline ref missing not found');
+
+      // The legacy workflow is over the limit but didn't get worse
+      expect(runCli(['--max', '4', '--baseline-ref', 'base'], repo)).toBe(0);
+      expect(logSpy.mock.calls.join('\n')).toContain('No concurrency changes against base.');
+
+      fs.writeFileSync(path.join(repo, '.github', 'workflows', 'legacy.yml'), matrixWorkflow({ size: 7 }));
+      expect(runCli(['--max', '4', '--baseline-ref', 'base'], repo)).toBe(1);
+      expect(logSpy.mock.calls.join('\n')).toContain('.github/workflows/legacy.yml: 6 → 7 (+1)');
+
+      // A committed baseline file can be used instead of a ref
+      expect(runCli(['--max', '4', '--write-baseline', 'baseline.json'], repo)).toBe(1);
+      expect(runCli(['--max', '4', '--baseline', 'baseline.json'], repo)).toBe(0);
+    } finally {
+      jest.restoreAllMocks();
+      fs.rmSync(repo, { recursive: true, force: true });
+    }
+  });
+
+  test('rejects malformed baseline files', () => {
+    expect(() => parseBaseline('{', 'baseline.json')).toThrow('Invalid baseline file baseline.json');
+    expect(() => parseBaseline('{"workflows": {"ci.yml": {"concurrencyCount": "many"}}}', 'baseline.json'))
+      .toThrow('expected workflows with their concurrencyCount, jobs and runners');
+    expect(parseBaseline('{"workflows": {"ci.yml": {"concurrencyCount": 3}}}', 'baseline.json')).toEqual({
+      workflows: { 'ci.yml': { concurrencyCount: 3, jobs: {}, runners: {} } },
+      triggers: {},
+      schedule: {}
+    });
+  });
+});
@@ -0,0 +1,126 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { runCli } from '../cli';
+
+describe('Command line interface', () => {
+  const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-cli-test-'));
+  const workflowDir = path.join(tmpDir, '.github', 'workflows');
+  let logSpy: jest.SpyInstance;
+  let errorSpy: jest.SpyInstance;
+
+  const parallelWorkflow = `
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [18, 20, 22]
+    steps:
+      - run: echo "test"
+`;
+
+  beforeAll(() => {
+    fs.mkdirSync(workflowDir, { recursive: true });
+  });
+
+  afterAll(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    fs.readdirSync(workflowDir).forEach(file => fs.unlinkSync(path.join(workflowDir, file)));
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    errorSpy.mockRestore();
+  });
+
+  function output(): string {
+    return logSpy.mock.calls.map(call => call.join(' ')).join('\n');
+  }
+
+  test('passes with human-readable output and no workflow commands', () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), parallelWorkflow);
+
+    expect(runCli([], tmpDir)).toBe(0);
+    expect(output()).toContain('✅ .github/workflows/ci.yml: 3 parallel jobs (test)');
+    expect(output()).not.toContain('::');
+  });
+
+  test('exits with 1 when a limit is exceeded', () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), parallelWorkflow);
+
+    expect(runCli(['--max', '2', '.github/workflows/*.yml'], tmpDir)).toBe(1);
+    expect(output()).toContain('.github/workflows/ci.yml: Workflow has too many parallel jobs (3 > 2)');
+  });
+
+  test('prints only issues in quiet mode', () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), parallelWorkflow);
+
+    expect(runCli(['--quiet', '--max=2'], tmpDir)).toBe(1);
+    expect(output()).not.toContain('✅');
+    expect(output()).toContain('1 issue(s) found:');
+
+    logSpy.mockClear();
+    expect(runCli(['--quiet'], tmpDir)).toBe(0);
+    expect(logSpy).not.toHaveBeenCalled();
+  });
+
+  test('prints the report as JSON', () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), parallelWorkflow);
+
+    expect(runCli(['--format', 'json', path.join(workflowDir, 'ci.yml')], tmpDir)).toBe(0);
+    const report = JSON.parse(output());
+    expect(report.passed).toBe(true);
+    expect(report.workflows[0]).toEqual(expect.objectContaining({
+      file: '.github/workflows/ci.yml',
+      concurrencyCount: 3
+    }));
+  });
+
+  test('leaves out the jobs skipped for an event', () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), `${parallelWorkflow}
+  release:
+    if: startsWith(github.ref, 'refs/tags/')
+    runs-on: ubuntu-latest
+`);
+    fs.writeFileSync(path.join(tmpDir, 'push.yml'), 'github:\n  ref: refs/heads/main\n');
+
+    expect(runCli(['--max', '3'], tmpDir)).toBe(1);
+    logSpy.mockClear();
+    expect(runCli(['--max', '3', '--event', 'push', '--event-context', 'push.yml'], tmpDir)).toBe(0);
+    expect(output()).toContain("⏭️ job release skipped: `if: startsWith(github.ref, 'refs/tags/')` is false");
+    expect(runCli(['--event-context', 'missing.yml'], tmpDir)).toBe(2);
+    expect(errorSpy).toHaveBeenCalledWith('Error: Event context file missing.yml not found');
+  });
+
+  test('prints the pipelines of workflows that start each other in a loop', () => {
+    const job = '\njobs:\n  build:\n    runs-on: ubuntu-latest\n    steps:\n      - run: echo "build"\n';
+    fs.writeFileSync(path.join(workflowDir, 'a.yml'), `name: A\non:\n  push:\n  workflow_run:\n    workflows: [B]${job}`);
+    fs.writeFileSync(path.join(workflowDir, 'b.yml'), `name: B\non:\n  workflow_run:\n    workflows: [A]${job}`);
+
+    expect(runCli([], tmpDir)).toBe(1);
+    expect(output()).toContain('Workflows start each other in a loop: ' +
+      '.github/workflows/a.yml → .github/workflows/b.yml → .github/workflows/a.yml');
+    expect(output()).toContain('Workflow pipelines:\n' +
+      '  .github/workflows/a.yml: 2 parallel jobs across 2 workflows\n' +
+      '    .github/workflows/a.yml → .github/workflows/b.yml (workflow_run)');
+  });
+
+  test('exits with 2 on parse and configuration errors', () => {
+    fs.writeFileSync(path.join(workflowDir, 'broken.yml'), 'jobs: [');
+
+    expect(runCli([], tmpDir)).toBe(2);
+    expect(output()).toContain('.github/workflows/broken.yml: YAML syntax error');
+
+    expect(runCli(['--max', 'many'], tmpDir)).toBe(2);
+    expect(runCli(['--format', 'xml'], tmpDir)).toBe(2);
+    expect(runCli(['missing/*.yml'], tmpDir)).toBe(2);
+    expect(errorSpy).toHaveBeenCalledWith('Error: No workflow files found for missing/*.yml');
+  });
+});
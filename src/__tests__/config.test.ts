@@ -0,0 +1,146 @@
+import fs from 'fs';
+import path from 'path';
+import os from 'os';
+import { analyzeWorkflow, loadConfig, parseConfig, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+describe('Repository config', () => {
+  test('applies defaults, per-workflow overrides and ignored paths', () => {
+    const config = parseConfig(`
+defaults:
+  max-concurrency: 8
+workflows:
+  - path: .github/workflows/nightly-*.yml
+    max-concurrency: 40
+ignore:
+  - .github/workflows/experimental/**
+`);
+
+    const report = validateWorkflows([
+      { file: '.github/workflows/pr.yml', content: matrixWorkflow({ size: 10 }) },
+      { file: '.github/workflows/nightly-e2e.yml', content: matrixWorkflow({ size: 30 }) },
+      { file: '.github/workflows/experimental/huge.yml', content: matrixWorkflow({ size: 100 }) }
+    ], { config });
+
+    expect(report.workflows.map(result => [result.file, result.maxConcurrency, result.passed])).toEqual([
+      ['.github/workflows/pr.yml', 8, false],
+      ['.github/workflows/nightly-e2e.yml', 40, true]
+    ]);
+    expect(report.ignored).toEqual(['.github/workflows/experimental/huge.yml']);
+    expect(report.issues).toEqual([expect.objectContaining({
+      type: 'concurrency-limit',
+      file: '.github/workflows/pr.yml',
+      message: 'Workflow has too many parallel jobs (10 > 8)'
+    })]);
+  });
+
+  test('prefers per-workflow overrides to options, and options to defaults', () => {
+    const config = parseConfig(`
+defaults:
+  max-concurrency: 8
+  runner-limits:
+    macos-*: 2
+workflows:
+  - path: '**/nightly.yml'
+    max-concurrency: 40
+`);
+
+    expect(analyzeWorkflow(matrixWorkflow({ size: 1 }), 'ci.yml', { config, maxConcurrency: 12 }).maxConcurrency).toBe(12);
+    expect(analyzeWorkflow(matrixWorkflow({ size: 1 }), '.github/workflows/nightly.yml', { config, maxConcurrency: 12 })
+      .maxConcurrency).toBe(40);
+    expect(analyzeWorkflow(matrixWorkflow({ size: 1 }), 'ci.yml', { config }).maxConcurrency).toBe(8);
+  });
+
+  test('limits and ignores individual jobs', () => {
+    const workflow = `
+on: push
+jobs:
+  setup:
+    runs-on: ubuntu-latest
+  flaky-e2e:
+    runs-on: ubuntu-latest
+    needs: setup
+    strategy:
+      matrix:
+        shard: [1, 2, 3, 4, 5, 6]
+  integration:
+    runs-on: ubuntu-latest
+    needs: flaky-e2e
+    strategy:
+      matrix:
+        shard: [1, 2, 3, 4]
+  lint:
+    runs-on: ubuntu-latest
+    needs: setup
+`;
+    const config = parseConfig(`
+workflows:
+  - path: ci.yml
+    jobs:
+      flaky-*:
+        ignore: true
+      integration:
+        max-concurrency: 3
+`);
+
+    const report = validateWorkflows([{ file: 'ci.yml', content: workflow }], { config });
+    const [result] = report.workflows;
+
+    // integration still waits for flaky-e2e, so it can't overlap setup
+    expect(result.concurrencyCount).toBe(5);
+    expect(result.peakJobs).toEqual(['lint', 'integration']);
+    expect(result.jobs).toEqual([
+      { job: 'setup', count: 1, runsOn: ['ubuntu-latest'], confidence: 'exact' },
+      { job: 'flaky-e2e', count: 6, runsOn: ['ubuntu-latest'], confidence: 'exact', ignored: true },
+      { job: 'lint', count: 1, runsOn: ['ubuntu-latest'], confidence: 'exact' },
+      { job: 'integration', count: 4, limit: 3, runsOn: ['ubuntu-latest'], confidence: 'exact' }
+    ]);
+    expect(report.issues).toEqual([expect.objectContaining({
+      type: 'job-limit',
+      file: 'ci.yml',
+      message: "Job 'integration' has too many parallel executions (4 > 3)"
+    })]);
+  });
+
+  test('reports every schema error with its location', () => {
+    expect(() => parseConfig(`
+defaults:
+  max-concurrency: -1
+  runner-limit:
+    macos: 2
+workflows:
+  - max-concurrency: 40
+  - path: nightly.yml
+    jobs:
+      build:
+        ignore: yes please
+ignore: .github/workflows/old.yml
+`, '.github/concurrency-validator.yml')).toThrow([
+      'Invalid config file .github/concurrency-validator.yml:',
+      '  - defaults.runner-limit: unknown key (expected one of max-concurrency, max-total-concurrency, max-scheduled-concurrency, max-cost, runner-limits, cost-multipliers, plan, plan-limits)',
+      '  - defaults.max-concurrency: must be a positive integer, got -1',
+      '  - workflows[0].path: is required and must be a path pattern',
+      '  - workflows[1].jobs.build.ignore: must be true or false',
+      '  - ignore: must be a list of path patterns'
+    ].join('\n'));
+
+    expect(() => parseConfig('defaults: [', 'custom.yml')).toThrow(/^Invalid config file custom.yml: /);
+  });
+
+  test('loads the config from the default or a given path', () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-config-test-'));
+    try {
+      expect(loadConfig(tmpDir)).toBeUndefined();
+      expect(() => loadConfig(tmpDir, 'limits.yml')).toThrow('Config file limits.yml not found');
+
+      fs.mkdirSync(path.join(tmpDir, '.github'));
+      fs.writeFileSync(path.join(tmpDir, '.github', 'concurrency-validator.yml'), 'defaults:\n  max-concurrency: 8\n');
+      fs.writeFileSync(path.join(tmpDir, 'limits.yml'), 'ignore: ["**/old.yml"]\n');
+
+      expect(loadConfig(tmpDir)?.defaults.maxConcurrency).toBe(8);
+      expect(loadConfig(tmpDir, 'limits.yml')).toEqual({ defaults: {}, workflows: [], ignore: ['**/old.yml'] });
+    } finally {
+      fs.rmSync(tmpDir, { recursive: true, force: true });
+    }
+  });
+});
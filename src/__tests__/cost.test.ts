@@ -0,0 +1,96 @@
+import {
+  analyzeWorkflow,
+  compareWithBaseline,
+  createBaseline,
+  createStepSummary,
+  getRunnerMultiplier,
+  parseConfig,
+  parseCostMultipliers,
+  validateWorkflows
+} from '../index';
+
+describe('Worst-case cost', () => {
+  const workflow = `
+on: push
+jobs:
+  test:
+    runs-on: \${{ matrix.os }}
+    timeout-minutes: 30
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest, macos-latest]
+        shard: [1, 2]
+  build:
+    runs-on: ubuntu-latest
+  deploy:
+    needs: [test, build]
+    runs-on: [self-hosted, linux]
+    timeout-minutes: 10
+`;
+
+  test('weights every execution by its runner and timeout', () => {
+    const result = analyzeWorkflow(workflow, '.github/workflows/ci.yml', { cost: true });
+
+    // Each shard runs 30 minutes on Linux (1×), Windows (2×) and macOS (10×); build defaults to 360 minutes
+    expect(result.cost).toEqual({
+      minutes: 1140,
+      jobs: [
+        { job: 'test', executions: 6, minutes: 30, cost: 780 },
+        { job: 'build', executions: 1, minutes: 360, cost: 360 },
+        { job: 'deploy', executions: 1, minutes: 10, cost: 0 }
+      ]
+    });
+    expect(analyzeWorkflow(workflow, '.github/workflows/ci.yml').cost).toBeUndefined();
+  });
+
+  test('prefers configured multipliers over GitHub-hosted ones', () => {
+    const config = parseConfig('defaults:\n  cost-multipliers:\n    macos-*: 12\n    ubuntu-latest-*-cores: 8\n');
+
+    expect(getRunnerMultiplier(['macos-latest'], config.defaults.costMultipliers)).toBe(12);
+    expect(getRunnerMultiplier(['ubuntu-latest-16-cores'], config.defaults.costMultipliers)).toBe(8);
+    expect(getRunnerMultiplier(['windows-latest'])).toBe(2);
+    expect(getRunnerMultiplier(['\${{ inputs.runner }}'])).toBe(1);
+
+    const result = analyzeWorkflow(workflow, '.github/workflows/ci.yml', {
+      cost: true,
+      config,
+      costMultipliers: parseCostMultipliers('self-hosted: 0.5')
+    });
+    expect(result.cost?.minutes).toBe(2 * (30 + 60 + 360) + 360 + 5);
+    expect(() => parseCostMultipliers('macos-*: -1')).toThrow("cost-multipliers value for 'macos-*' must be a non-negative number");
+    expect(() => parseConfig('defaults:\n  cost-multipliers:\n    macos-*: ten\n'))
+      .toThrow('defaults.cost-multipliers.macos-*: must be a non-negative number, got "ten"');
+  });
+
+  test('fails workflows over their budget', () => {
+    const config = parseConfig(`
+defaults:
+  max-cost: 1000
+workflows:
+  - path: .github/workflows/nightly.yml
+    max-cost: 5000
+`);
+    const workflows = [
+      { file: '.github/workflows/ci.yml', content: workflow },
+      { file: '.github/workflows/nightly.yml', content: workflow }
+    ];
+    const report = validateWorkflows(workflows, { config });
+
+    expect(report.issues).toEqual([{
+      type: 'cost-limit',
+      file: '.github/workflows/ci.yml',
+      message: 'Workflow can bill too many minutes per run (1140 > 1000)',
+      locations: [
+        { file: '.github/workflows/ci.yml', job: 'test', position: { line: 4, column: 3 } },
+        { file: '.github/workflows/ci.yml', job: 'build', position: { line: 11, column: 3 } }
+      ]
+    }]);
+    expect(report.workflows.map(result => [result.cost?.limit, result.passed])).toEqual([[1000, false], [5000, true]]);
+    expect(createStepSummary(report)).toContain('| `.github/workflows/ci.yml` | 1140 | 1000 | `test` (6 × 30 min) | ❌ Fail |');
+
+    // A cost that hasn't grown since the baseline is accepted
+    const baseline = createBaseline(report);
+    expect(baseline.workflows['.github/workflows/ci.yml'].cost).toBe(1140);
+    expect(compareWithBaseline(report, baseline, 'origin/main').passed).toBe(true);
+  });
+});
@@ -0,0 +1,69 @@
+import { createStepSummary, getWeeklyStarts, parseCron, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+describe('Scheduled workflow overlap', () => {
+  const scheduled = (cron: string, size: number): string => matrixWorkflow({ size, on: { schedule: [{ cron }] } });
+
+  test('parses cron expressions', () => {
+    expect(parseCron('*/15 9-17 * * MON-FRI')).toEqual({
+      minutes: [0, 15, 30, 45],
+      hours: [9, 10, 11, 12, 13, 14, 15, 16, 17],
+      daysOfMonth: Array.from({ length: 31 }, (_, index) => index + 1),
+      months: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12],
+      daysOfWeek: [1, 2, 3, 4, 5]
+    });
+    expect(parseCron('5/20 0 1 jan,jul 7').minutes).toEqual([5, 25, 45]);
+    expect(parseCron('0 0 * * 7').daysOfWeek).toEqual([0]);
+    expect(() => parseCron('0 24 * * *')).toThrow("invalid hour '24'");
+    expect(() => parseCron('0 * * *')).toThrow('expected 5 fields, got 4');
+  });
+
+  test('places schedules on a weekly timeline', () => {
+    expect(getWeeklyStarts(parseCron('30 6 * * 1'))).toEqual([(24 + 6) * 60 + 30]);
+    // A day of the month can fall on any day of the week
+    expect(getWeeklyStarts(parseCron('0 0 1 * *'))).toHaveLength(7);
+  });
+
+  test('reports workflows starting together and fails over the scheduled limit', () => {
+    const report = validateWorkflows([
+      { file: 'hourly.yml', content: scheduled('0 * * * *', 4) },
+      { file: 'quarterly.yml', content: scheduled('*/15 * * * *', 2) },
+      { file: 'nightly.yml', content: scheduled('0 3 * * 1-5', 8) },
+      { file: 'broken.yml', content: scheduled('0 25 * * *', 1) }
+    ], { maxScheduledConcurrency: 10 });
+
+    expect(report.schedule.peak).toEqual({
+      at: 'Mon 03:00',
+      minute: (24 + 3) * 60,
+      occurrences: 5,
+      workflows: ['hourly.yml', 'nightly.yml', 'quarterly.yml'],
+      count: 14
+    });
+    expect(report.schedule.starts.map(start => [start.at, start.occurrences, start.workflows.length])).toEqual([
+      ['Sun 00:00', 163, 2],
+      ['Sun 00:15', 504, 1],
+      ['Mon 03:00', 5, 3]
+    ]);
+    expect(report.issues).toEqual([{
+      type: 'schedule-limit',
+      subject: 'Mon 03:00',
+      message: 'Scheduled workflows starting at Mon 03:00 UTC have too many parallel jobs (14 > 10)',
+      locations: [{ file: 'hourly.yml' }, { file: 'nightly.yml' }, { file: 'quarterly.yml' }]
+    }]);
+    expect(report.workflows.find(result => result.file === 'broken.yml')?.warnings)
+      .toEqual(["Can't read the schedule '0 25 * * *': invalid hour '25'"]);
+  });
+
+  test('suggests staggered minutes for lighter workflows', () => {
+    const report = validateWorkflows([
+      { file: 'hourly.yml', content: scheduled('0 * * * *', 4) },
+      { file: 'nightly.yml', content: scheduled('0 3 * * *', 8) },
+      { file: 'cleanup.yml', content: scheduled('1 3 * * *', 1) }
+    ]);
+
+    expect(report.schedule.suggestions).toEqual([
+      { file: 'hourly.yml', cron: '0 * * * *', suggested: '59 * * * *' }
+    ]);
+    expect(createStepSummary(report)).toContain('- `hourly.yml`: `0 * * * *` → `59 * * * *`');
+  });
+});
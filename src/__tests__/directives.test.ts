@@ -0,0 +1,99 @@
+import { analyzeWorkflow, validateWorkflows } from '../index';
+
+describe('Inline comment directives', () => {
+  test('overrides guessed matrix sizes', () => {
+    const workflow = `
+on: push
+jobs:
+  plan:
+    runs-on: ubuntu-latest
+    outputs:
+      shards: \${{ steps.plan.outputs.shards }}
+      targets: \${{ steps.plan.outputs.targets }}
+    steps:
+      - id: plan
+        run: ./plan.sh >> "$GITHUB_OUTPUT"
+  test:
+    runs-on: ubuntu-latest
+    needs: plan
+    strategy:
+      matrix:
+        os: [ubuntu-latest, windows-latest]
+        shard: \${{ fromJSON(needs.plan.outputs.shards) }} # concurrency-validator: matrix-size=5
+  deploy:
+    runs-on: ubuntu-latest
+    needs: plan
+    strategy:
+      # concurrency-validator: matrix-size=4
+      matrix: \${{ fromJSON(needs.plan.outputs.targets) }}
+`;
+
+    const result = analyzeWorkflow(workflow, 'ci.yml', { maxConcurrency: 20 });
+
+    expect(result.details[1].matrixSizes).toEqual({ test: 10, deploy: 4 });
+    expect(result.concurrencyCount).toBe(14);
+    expect(result.suppressions).toEqual([]);
+  });
+
+  test('reports suppressed jobs with their reason', () => {
+    const workflow = `
+on: push
+jobs:
+  # concurrency-validator: ignore -- runs on the self-hosted pool
+  soak:
+    runs-on: self-hosted
+    strategy:
+      matrix:
+        run: [1, 2, 3, 4, 5, 6, 7, 8]
+  e2e:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix: # concurrency-validator: max=20
+        shard: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12]
+  lint:
+    runs-on: ubuntu-latest
+`;
+
+    const report = validateWorkflows([{ file: 'ci.yml', content: workflow }], { maxConcurrency: 13 });
+    const [result] = report.workflows;
+
+    expect(result.concurrencyCount).toBe(13);
+    expect(result.passed).toBe(true);
+    expect(result.suppressions).toEqual([
+      expect.objectContaining({
+        job: 'soak', directive: 'ignore', source: 'comment', line: 5, reason: 'runs on the self-hosted pool'
+      }),
+      expect.objectContaining({ job: 'e2e', directive: 'max=20', source: 'comment', line: 13 })
+    ]);
+    expect(result.jobs).toContainEqual({ job: 'e2e', count: 12, limit: 20, runsOn: ['ubuntu-latest'], confidence: 'exact' });
+
+    // The job is held to the limit given in its comment, and counts as at most that many executions
+    const exceeded = validateWorkflows([{ file: 'ci.yml', content: workflow.replace('max=20', 'max=10') }], {
+      maxConcurrency: 13
+    });
+    expect(exceeded.issues).toEqual([expect.objectContaining({
+      type: 'job-limit',
+      file: 'ci.yml',
+      message: "Job 'e2e' has too many parallel executions (12 > 10)"
+    })]);
+    expect(exceeded.workflows[0].concurrencyCount).toBe(11);
+    expect(exceeded.workflows[0].details[0].caps)
+      .toEqual([{ jobs: ['e2e'], uncapped: 12, capped: 10, reason: 'limited to 10 by a max comment' }]);
+  });
+
+  test('warns about malformed or misplaced directives', () => {
+    const workflow = `
+on: push # concurrency-validator: ignore
+jobs:
+  build: # concurrency-validator: max=lots
+    runs-on: ubuntu-latest
+    steps:
+      - run: 'echo "# concurrency-validator: ignore"'
+`;
+
+    expect(analyzeWorkflow(workflow, 'ci.yml').warnings).toEqual([
+      'concurrency-validator comment on line 2 must be on a job or matrix key',
+      "Invalid concurrency-validator directive 'max=lots' on line 4"
+    ]);
+  });
+});
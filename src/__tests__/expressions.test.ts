@@ -0,0 +1,132 @@
+import {
+  analyzeWorkflow,
+  calculateMatrixSize,
+  evaluateCondition,
+  evaluateExpression,
+  evaluateTemplate,
+  parseEventContext,
+  UNKNOWN
+} from '../index';
+
+describe('Expression evaluation', () => {
+  const context = {
+    github: { event_name: 'pull_request', ref: 'refs/heads/main', event: { pull_request: { draft: false } } },
+    inputs: { environment: 'staging', shards: 4 },
+    vars: { PLATFORMS: '["linux", "windows"]' }
+  };
+
+  test('evaluates operators with loose, case-insensitive comparisons', () => {
+    expect(evaluateExpression("github.event_name == 'PULL_REQUEST'", context)).toBe(true);
+    expect(evaluateExpression("inputs.shards > 3 && inputs.shards != '4'", context)).toBe(false);
+    expect(evaluateExpression("!github.event.pull_request.draft && 'yes' || 'no'", context)).toBe('yes');
+    expect(evaluateExpression("github['ref'] == format('refs/heads/{0}', 'main')", context)).toBe(true);
+    expect(evaluateExpression('0x10 == 16 && null == false && 1.5e1 >= 15', context)).toBe(true);
+    expect(evaluateExpression("'it''s'", context)).toBe("it's");
+  });
+
+  test('evaluates functions', () => {
+    expect(evaluateExpression("contains(fromJSON(vars.PLATFORMS), 'Linux')", context)).toBe(true);
+    expect(evaluateExpression("startsWith(github.ref, 'refs/heads/') && endsWith(github.ref, 'MAIN')", context))
+      .toBe(true);
+    expect(evaluateExpression("join(fromJSON('[1, 2]'), '-')", context)).toBe('1-2');
+    expect(evaluateExpression("fromJSON(toJSON(fromJSON('{\"a\": [1]}'))).a[0]", context)).toBe(1);
+    expect(evaluateExpression("fromJSON('[{\"os\": \"linux\"}, {\"os\": \"mac\"}]').*.os", context))
+      .toEqual(['linux', 'mac']);
+    expect(() => evaluateExpression("fromJSON('not json')", context)).toThrow('fromJSON got invalid JSON');
+    expect(() => evaluateExpression('secret.TOKEN', context)).toThrow("Unrecognized named-value 'secret'");
+  });
+
+  test('treats values missing from the context as unknown', () => {
+    expect(evaluateExpression('needs.setup.outputs.matrix', context)).toBe(UNKNOWN);
+    expect(evaluateExpression('github.head_ref', context)).toBe(UNKNOWN);
+    expect(evaluateExpression("github.head_ref == 'main'", context)).toBe(UNKNOWN);
+    // A known operand can still decide && and ||
+    expect(evaluateExpression("github.head_ref == 'main' && github.event_name == 'push'", context)).toBe(false);
+    expect(evaluateExpression("github.head_ref == 'main' || github.event_name == 'pull_request'", context)).toBe(true);
+    expect(evaluateExpression('failure() || cancelled()', context)).toBe(UNKNOWN);
+  });
+
+  test('evaluates templates and conditions', () => {
+    expect(evaluateTemplate("${{ fromJSON('[\"a\", \"b\"]') }}")).toEqual(['a', 'b']);
+    expect(evaluateTemplate('deploy-${{ inputs.environment }}', context)).toBe('deploy-staging');
+    expect(evaluateTemplate('deploy-${{ inputs.region }}', context)).toBe(UNKNOWN);
+
+    expect(evaluateCondition(undefined, context)).toBe(true);
+    expect(evaluateCondition("github.event_name == 'push'", context)).toBe(false);
+    expect(evaluateCondition("${{ github.event_name == 'push' }}", context)).toBe(false);
+    // Text around an expression makes the condition a non-empty string
+    expect(evaluateCondition("${{ github.event_name == 'push' }} && true", context)).toBe(true);
+    expect(evaluateCondition("github.event_name == 'push'", {})).toBeUndefined();
+  });
+});
+
+describe('Event-aware analysis', () => {
+  const workflow = `
+on: [push, pull_request]
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        os: \${{ fromJSON(vars.PLATFORMS) }}
+        node: [18, 20]
+  deploy:
+    if: github.event_name == 'push' && github.ref == 'refs/heads/main'
+    needs: test
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        region: [eu, us, ap]
+  smoke:
+    needs: deploy
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        region: [eu, us, ap]
+  report:
+    needs: deploy
+    if: always()
+    runs-on: ubuntu-latest
+  labels:
+    if: \${{ contains(github.event.pull_request.labels.*.name, 'slow') }}
+    runs-on: ubuntu-latest
+`;
+
+  test('leaves out jobs that are statically skipped for the event', () => {
+    const event = parseEventContext('vars:\n  PLATFORMS: \'["linux", "windows", "macos"]\'', 'pull_request');
+    const result = analyzeWorkflow(workflow, '.github/workflows/ci.yml', { event });
+
+    expect(result.skippedJobs).toEqual([
+      { job: 'deploy', reason: "`if: github.event_name == 'push' && github.ref == 'refs/heads/main'` is false" },
+      { job: 'smoke', reason: "needs skipped job 'deploy'" }
+    ]);
+    expect(result.jobs.map(job => job.job)).toEqual(['test', 'report', 'labels']);
+    expect(result.jobs.find(job => job.job === 'test')?.count).toBe(6);
+    expect(result.unresolvedMatrices).toEqual([]);
+    // The labels aren't known, so the job is counted
+    expect(result.concurrencyCount).toBe(8);
+  });
+
+  test('counts every job when the condition depends on an unknown value', () => {
+    const result = analyzeWorkflow(workflow, '.github/workflows/ci.yml', { event: parseEventContext(undefined, 'push') });
+
+    expect(result.skippedJobs).toEqual([]);
+    expect(result.unresolvedMatrices).toEqual(['test']);
+  });
+
+  test('rejects contexts that are only known at runtime', () => {
+    expect(() => parseEventContext('secrets:\n  TOKEN: x')).toThrow("event-context can't contain 'secrets'");
+    expect(parseEventContext(undefined)).toBeUndefined();
+  });
+
+  test('sizes matrices built from literal JSON', () => {
+    expect(calculateMatrixSize({
+      needs: 'setup',
+      strategy: { matrix: { target: "${{ fromJSON('[\"x86\", \"arm\"]') }}" } }
+    }, new Map([['setup.matrix', { jobKey: 'setup', outputKey: 'matrix', size: 3, confidence: 'guessed', consumers: new Set() }]])))
+      .toBe(2);
+    expect(calculateMatrixSize({
+      strategy: { matrix: "${{ fromJSON('{\"os\": [\"linux\", \"macos\"], \"node\": [18, 20, 22]}') }}" as any }
+    }, new Map())).toBe(6);
+  });
+});
@@ -0,0 +1,118 @@
+import { analyzeWorkflow, getWorkflowFindings, validateWorkflows } from '../index';
+
+describe('Structural findings', () => {
+  const workflow = `
+on: push
+jobs:
+  build:
+    needs: [setup, biuld]
+    runs-on: ubuntu-latest
+  setup:
+    runs-on: ubuntu-latest
+  lint:
+    needs: lint
+    runs-on: ubuntu-latest
+  a:
+    needs: c
+    runs-on: ubuntu-latest
+  b:
+    needs: a
+    runs-on: ubuntu-latest
+  c:
+    needs: b
+    runs-on: ubuntu-latest
+  report:
+    needs: [b, setup]
+    runs-on: ubuntu-latest
+  build.linux:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        shard: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16, 17, 18, 19, 20]
+        node: [16, 18, 20, 22]
+        os: [ubuntu-latest, windows-latest, macos-latest, ubuntu-arm]
+`;
+
+  test('reports unknown needs, cycles, oversized matrices and invalid job IDs as errors', () => {
+    const result = analyzeWorkflow(workflow, '.github/workflows/ci.yml');
+    const findings = getWorkflowFindings(result);
+
+    expect(findings.map(finding => [finding.type, finding.severity, finding.message])).toEqual([
+      ['unknown-needs', 'error', "Job 'build' needs 'biuld', which isn't a job of the workflow"],
+      ['self-needs', 'error', "Job 'lint' needs itself, so it can't start"],
+      ['cyclic-needs', 'error', "Jobs can't start because of circular needs: a → c → b → a; 'report' can't start either"],
+      ['matrix-limit', 'error',
+        "The matrix of job 'build.linux' has 320 combinations, more than GitHub's limit of 256"],
+      ['invalid-job-id', 'error', "Job ID 'build.linux' is invalid: it must start with a letter or '_' and contain " +
+        "only alphanumeric characters, '-' and '_'"]
+    ]);
+    // Each cycle points at the needs entries that close it
+    expect(findings[2].locations.map(location => location.position?.line)).toEqual([13, 19, 16]);
+    expect(findings[0].locations).toEqual([
+      { file: '.github/workflows/ci.yml', job: 'build', position: { line: 5, column: 20 } }
+    ]);
+    expect(result.passed).toBe(false);
+  });
+
+  test('fails validation on structural errors', () => {
+    const report = validateWorkflows([{ file: 'ci.yml', content: workflow }], { maxConcurrency: 1000 });
+
+    expect(report.passed).toBe(false);
+    expect(report.issues.map(issue => [issue.type, issue.subject])).toEqual([
+      ['invalid-workflow', 'unknown-needs'],
+      ['invalid-workflow', 'self-needs'],
+      ['invalid-workflow', 'cyclic-needs'],
+      ['invalid-workflow', 'matrix-limit'],
+      ['invalid-workflow', 'invalid-job-id']
+    ]);
+  });
+
+  test('reports the needs of a caller once for the jobs it inlines', () => {
+    const files: Record<string, string> = {
+      '.github/workflows/deploy.yml': `
+on: workflow_call
+jobs:
+  upload:
+    runs-on: ubuntu-latest
+  smoke:
+    runs-on: ubuntu-latest
+  verify:
+    needs: [upload, smok]
+    runs-on: ubuntu-latest
+`
+    };
+    const result = analyzeWorkflow(`
+on: push
+jobs:
+  deploy:
+    needs: buld
+    uses: ./.github/workflows/deploy.yml
+`, '.github/workflows/ci.yml', { loadWorkflow: file => files[file] });
+
+    expect(getWorkflowFindings(result).map(finding => finding.message)).toEqual([
+      "Job 'deploy' needs 'buld', which isn't a job of the workflow",
+      "Job 'deploy/verify' needs 'deploy/smok', which isn't a job of the workflow"
+    ]);
+  });
+
+  test('only warns about guessed matrix sizes', () => {
+    const result = analyzeWorkflow(`
+on: push
+jobs:
+  plan:
+    runs-on: ubuntu-latest
+  test:
+    needs: plan
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        shard: \${{ fromJSON(needs.plan.outputs.shards) }}
+`, '.github/workflows/ci.yml');
+
+    expect(getWorkflowFindings(result)).toEqual([expect.objectContaining({
+      type: 'unresolved-dynamic-matrix',
+      severity: 'warning'
+    })]);
+    expect(result.passed).toBe(true);
+  });
+});
@@ -0,0 +1,48 @@
+import { analyzeWorkflow, renderDotGraph, renderMermaidGraph } from '../index';
+
+describe('Job graph export', () => {
+  const result = analyzeWorkflow(`
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+  test:
+    runs-on: \${{ matrix.os }}
+    strategy:
+      max-parallel: 2
+      matrix:
+        os: [ubuntu-latest, "windows-latest"]
+        node: [18, 20]
+  deploy:
+    needs: [lint, test]
+    runs-on: self-hosted
+`, 'ci.yml', { maxConcurrency: 2 });
+
+  test('renders a Mermaid flowchart with the peak highlighted', () => {
+    expect(renderMermaidGraph(result)).toBe([
+      'flowchart LR',
+      '  job1["lint<br/>runs-on: ubuntu-latest"]',
+      '  job2["test<br/>matrix: 4<br/>runs-on: ubuntu-latest, windows-latest<br/>strategy.max-parallel is 2 (4 → 2)"]',
+      '  job3["deploy<br/>runs-on: self-hosted"]',
+      '  job1 --> job3',
+      '  job2 --> job3',
+      '  classDef peak fill:#ffebe9,stroke:#cf222e,stroke-width:2px',
+      '  class job1,job2 peak'
+    ].join('\n'));
+  });
+
+  test('renders a DOT digraph with the peak highlighted', () => {
+    expect(renderDotGraph(result)).toBe([
+      'digraph "ci.yml" {',
+      '  rankdir=LR;',
+      '  node [shape=box];',
+      '  job1 [label="lint\\nruns-on: ubuntu-latest", style=filled, fillcolor="#ffebe9", color="#cf222e", penwidth=2];',
+      '  job2 [label="test\\nmatrix: 4\\nruns-on: ubuntu-latest, windows-latest\\nstrategy.max-parallel is 2 (4 → 2)", ' +
+        'style=filled, fillcolor="#ffebe9", color="#cf222e", penwidth=2];',
+      '  job3 [label="deploy\\nruns-on: self-hosted"];',
+      '  job1 -> job3;',
+      '  job2 -> job3;',
+      '}'
+    ].join('\n'));
+  });
+});
@@ -0,0 +1,22 @@
+/**
+ * Build a workflow with a single `test` job running a matrix of shards
+ * @param options The job's runner, the number of shards and the events that start the workflow
+ * @returns The YAML content of the workflow
+ */
+export function matrixWorkflow({ runsOn = 'ubuntu-latest', size, on = 'push' }: {
+  runsOn?: string;
+  size: number;
+  on?: string | Record<string, unknown>;
+}): string {
+  return `
+on: ${JSON.stringify(on)}
+jobs:
+  test:
+    runs-on: ${runsOn}
+    strategy:
+      matrix:
+        shard: [${Array.from({ length: size }, (_, index) => index + 1).join(', ')}]
+    steps:
+      - run: echo "test"
+`;
+}
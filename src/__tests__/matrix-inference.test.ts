@@ -0,0 +1,117 @@
+import { analyzeWorkflow, getMatrixProviders, parseWorkflow } from '../index';
+
+describe('Dynamic matrix inference', () => {
+  const files: Record<string, string> = {
+    'ci/targets.json': JSON.stringify({ targets: [{ os: 'linux' }, { os: 'macos' }, { os: 'windows' }] })
+  };
+  const loadWorkflow = (file: string) => files[file];
+
+  const consumer = (name: string, output: string) => `
+  ${name}:
+    needs: plan
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        value: \${{ fromJSON(needs.plan.outputs.${output}) }}`;
+
+  const workflow = (outputs: string[], script: string, consumers: string) => `
+on: push
+jobs:
+  plan:
+    runs-on: ubuntu-latest
+    outputs:
+${outputs.map(output => `      ${output}: \${{ steps.plan.outputs.${output} }}`).join('\n')}
+    steps:
+      - id: plan
+        run: |
+${script.trim().split('\n').map(line => `          ${line}`).join('\n')}
+${consumers}
+`;
+
+  const counts = (content: string) => Object.fromEntries(
+    analyzeWorkflow(content, '.github/workflows/ci.yml', { loadWorkflow }).jobs
+      .map(job => [job.job, `${job.count} ${job.confidence}`])
+  );
+
+  test('reads outputs written with heredocs, printf and variables', () => {
+    const content = workflow(['regions', 'shards', 'browsers'], `
+cat >> "$GITHUB_OUTPUT" <<EOF
+regions=["eu", "us"]
+EOF
+printf 'shards=%s\\n' '[1, 2, 3, 4, 5]' >> $GITHUB_OUTPUT
+BROWSERS='["chrome", "firefox", "safari"]'
+{
+  echo "browsers<<END"
+  echo "$BROWSERS"
+  echo "END"
+} >> "$GITHUB_OUTPUT"
+`, consumer('deploy', 'regions') + consumer('test', 'shards') + consumer('e2e', 'browsers'));
+
+    expect(counts(content)).toEqual({
+      plan: '1 exact',
+      deploy: '2 exact',
+      test: '5 exact',
+      e2e: '3 exact'
+    });
+  });
+
+  test('runs jq over JSON files committed in the repository', () => {
+    const content = workflow(['targets', 'count'], `
+echo "targets=$(jq -c '[.targets[].os]' ci/targets.json)" >> "$GITHUB_OUTPUT"
+echo "count=$(cat ci/targets.json | jq -c '.targets | map(.os)')" >> "$GITHUB_OUTPUT"
+`, consumer('build', 'targets') + consumer('package', 'count'));
+
+    expect(counts(content)).toEqual(expect.objectContaining({ build: '3 inferred', package: '3 inferred' }));
+  });
+
+  test('marks outputs listing files at runtime as guessed', () => {
+    const content = workflow(['packages', 'changed'], `
+echo "packages=$(ls packages | jq -R -s -c 'split("\\n")')" >> "$GITHUB_OUTPUT"
+echo "changed=$(find . -name package.json | jq -R -s -c 'split("\\n")')" >> "$GITHUB_OUTPUT"
+`, consumer('test', 'packages') + consumer('lint', 'changed'));
+    const result = analyzeWorkflow(content, '.github/workflows/ci.yml', { loadWorkflow });
+
+    expect(result.jobs.find(job => job.job === 'test')).toEqual(expect.objectContaining({ count: 3, confidence: 'guessed' }));
+    expect(result.unresolvedMatrices).toEqual(['test', 'lint']);
+  });
+
+  test('caps outputs written under a condition at inferred', () => {
+    const content = workflow(['suites'], `
+if [ "$FULL" = "true" ]; then
+  echo 'suites=["unit", "e2e"]' >> "$GITHUB_OUTPUT"
+fi
+`, consumer('test', 'suites'));
+
+    expect(counts(content)).toEqual(expect.objectContaining({ test: '2 inferred' }));
+  });
+
+  test('sizes whole matrices given as an object with include', () => {
+    const content = `
+on: push
+jobs:
+  plan:
+    runs-on: ubuntu-latest
+    outputs:
+      matrix: \${{ steps.plan.outputs.matrix }}
+    steps:
+      - id: plan
+        run: echo 'matrix={"os":["linux","macos"],"node":[18,20],"include":[{"os":"windows","node":20}]}' >> $GITHUB_OUTPUT
+  test:
+    needs: plan
+    runs-on: ubuntu-latest
+    strategy:
+      matrix: \${{ fromJSON(needs.plan.outputs.matrix) }}
+`;
+    const providers = getMatrixProviders(parseWorkflow(content));
+
+    expect(providers.get('plan.matrix')).toEqual(expect.objectContaining({ size: 5, confidence: 'exact' }));
+    expect(counts(content)).toEqual(expect.objectContaining({ test: '5 exact' }));
+  });
+
+  test('guesses outputs of steps it can not interpret', () => {
+    const content = workflow(['targets'], './scripts/plan.sh', consumer('build', 'targets'));
+    const providers = getMatrixProviders(parseWorkflow(content));
+
+    expect(providers.get('plan.targets')).toEqual(expect.objectContaining({ size: 3, confidence: 'guessed' }));
+  });
+});
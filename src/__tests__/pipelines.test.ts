@@ -0,0 +1,109 @@
+import { createStepSummary, formatPipelineChains, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+describe('Workflow pipelines', () => {
+  const jobs = (count: number, steps = '') => Array.from({ length: count }, (_, index) => `
+  job${index + 1}:
+    runs-on: ubuntu-latest${index === 0 && steps ? `
+    steps:${steps}` : ''}`).join('');
+
+  const pipeline = [
+    {
+      file: 'ci.yml',
+      content: `
+name: CI
+on: push
+jobs:${jobs(4, `
+      - run: |
+          curl -X POST https://api.github.com/repos/\${{ github.repository }}/dispatches \\
+            -d '{"event_type": "notify"}'
+      - run: gh workflow run smoke.yml -R octo/other`)}
+`
+    },
+    {
+      file: 'deploy.yml',
+      content: `
+on:
+  workflow_run:
+    workflows: [CI]
+    types: [completed]
+jobs:${jobs(3, `
+      - run: gh workflow run --ref main smoke.yml`)}
+`
+    },
+    { file: 'smoke.yml', content: matrixWorkflow({ on: 'workflow_dispatch', size: 2 }) },
+    { file: 'notify.yml', content: matrixWorkflow({ on: { repository_dispatch: { types: ['notify'] } }, size: 1 }) }
+  ];
+
+  test('follows workflow_run and dispatches across files', () => {
+    const report = validateWorkflows(pipeline, { maxConcurrency: 10 });
+
+    expect(report.pipelines.edges).toEqual([
+      { from: 'ci.yml', to: 'deploy.yml', via: 'workflow_run', overlaps: false },
+      { from: 'ci.yml', to: 'notify.yml', via: 'repository_dispatch', job: 'job1', overlaps: true },
+      { from: 'deploy.yml', to: 'smoke.yml', via: 'workflow_dispatch', job: 'job1', overlaps: true }
+    ]);
+    expect(report.pipelines.cycles).toEqual([]);
+    expect(report.passed).toBe(true);
+  });
+
+  test('combines the peaks of the runs that can overlap', () => {
+    const [ci] = validateWorkflows(pipeline).pipelines.pipelines;
+
+    // deploy starts once ci is done, but smoke and notify can still be running together
+    expect(ci.count).toBe(6);
+    expect(ci.workflows).toEqual(['ci.yml', 'deploy.yml', 'smoke.yml', 'notify.yml']);
+    expect(formatPipelineChains(ci)).toEqual([
+      'ci.yml → deploy.yml (workflow_run) → smoke.yml (workflow_dispatch)',
+      'ci.yml → notify.yml (repository_dispatch)'
+    ]);
+  });
+
+  test('stops after the levels of workflow_run GitHub allows', () => {
+    const chain = ['w0', 'w1', 'w2', 'w3', 'w4'].map((name, index) => ({
+      file: `${name}.yml`,
+      content: `
+name: ${name}
+on:${index === 0 ? ' push' : `
+  workflow_run:
+    workflows: [w${index - 1}]
+    types: [completed]`}
+jobs:${jobs(1)}
+`
+    }));
+
+    expect(validateWorkflows(chain).pipelines.pipelines[0].workflows).toEqual(['w0.yml', 'w1.yml', 'w2.yml', 'w3.yml']);
+  });
+
+  test('fails on workflows that start each other in a loop', () => {
+    const report = validateWorkflows([
+      { file: 'a.yml', content: `name: A\non:\n  push:\n  workflow_run:\n    workflows: [B]\njobs:${jobs(1)}\n` },
+      { file: 'b.yml', content: `name: B\non:\n  workflow_run:\n    workflows: [A]\njobs:${jobs(1)}\n` },
+      {
+        file: 'retry.yml',
+        content: `on: workflow_dispatch\njobs:${jobs(1, `\n      - uses: benc-uk/workflow-dispatch@v1\n        with:\n          workflow: retry.yml`)}\n`
+      }
+    ]);
+
+    expect(report.pipelines.cycles).toEqual([['a.yml', 'b.yml', 'a.yml'], ['retry.yml', 'retry.yml']]);
+    expect(report.pipelines.pipelines.map(pipeline => [pipeline.root, formatPipelineChains(pipeline)])).toEqual([
+      ['a.yml', ['a.yml → b.yml (workflow_run)']]
+    ]);
+    expect(report.issues).toEqual([
+      {
+        type: 'pipeline-cycle',
+        subject: 'a.yml → b.yml → a.yml',
+        message: 'Workflows start each other in a loop: a.yml → b.yml → a.yml',
+        locations: [{ file: 'b.yml' }, { file: 'a.yml' }]
+      },
+      {
+        type: 'pipeline-cycle',
+        subject: 'retry.yml → retry.yml',
+        message: 'Workflows start each other in a loop: retry.yml → retry.yml',
+        locations: [{ file: 'retry.yml', job: 'job1', position: { line: 3, column: 3 } }]
+      }
+    ]);
+    expect(report.passed).toBe(false);
+    expect(createStepSummary(report)).toContain('- `a.yml` → `b.yml` → `a.yml`');
+  });
+});
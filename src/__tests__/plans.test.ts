@@ -0,0 +1,110 @@
+import { createStepSummary, parseConfig, parsePlan, resolvePlanLimits, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+describe('Plan presets', () => {
+  const workflows = [
+    { file: 'ci.yml', content: matrixWorkflow({ size: 16 }) },
+    { file: 'mac.yml', content: matrixWorkflow({ runsOn: 'macos-latest', size: 6 }) }
+  ];
+
+  test('checks workflows and triggers against the limits of the plan', () => {
+    const report = validateWorkflows(workflows, { plan: 'free' });
+
+    expect(report.workflows.map(result => [result.file, result.maxConcurrency, result.passed])).toEqual([
+      ['ci.yml', 20, true],
+      ['mac.yml', 20, false]
+    ]);
+    expect(report.issues.map(issue => [issue.type, issue.message])).toEqual([
+      ['runner-limit', "Workflow has too many parallel jobs on 'macos-*' runners (6 > 5)"],
+      ['total-concurrency-limit', 'Total concurrency for push (22) exceeds maximum allowed (20)']
+    ]);
+    expect(report.plan).toEqual({
+      limits: { plan: 'free', total: 20, macos: 5, gpuLabel: '*gpu*' },
+      workflows: [
+        { subject: 'ci.yml', count: 16, percent: 80 },
+        { subject: 'mac.yml', count: 6, percent: 30 }
+      ],
+      triggers: [{ subject: 'push', count: 22, percent: 110 }],
+      gpu: []
+    });
+    expect(createStepSummary(report)).toContain('| `push` | 22 | 110% |');
+    expect(validateWorkflows(workflows).plan).toBeUndefined();
+  });
+
+  test('lets the config and explicit limits override the preset', () => {
+    const config = parseConfig(`
+defaults:
+  plan: team
+  plan-limits:
+    total: 1000
+  runner-limits:
+    macos-*: 10
+`);
+
+    expect(resolvePlanLimits({ config })).toEqual({ plan: 'team', total: 1000, macos: 5, gpu: 100, gpuLabel: '*gpu*' });
+    expect(resolvePlanLimits({ config, plan: 'enterprise' })).toEqual({
+      plan: 'enterprise', total: 1000, macos: 50, gpu: 100, gpuLabel: '*gpu*'
+    });
+
+    const report = validateWorkflows(workflows, { config, maxConcurrency: 12 });
+    expect(report.workflows.map(result => [result.file, result.maxConcurrency, result.passed])).toEqual([
+      ['ci.yml', 12, false],
+      ['mac.yml', 12, true]
+    ]);
+    expect(report.workflows[1].runners.find(runner => runner.label === 'macos-*')?.limit).toBe(10);
+    expect(report.plan?.triggers).toEqual([{ subject: 'push', count: 22, percent: 2.2 }]);
+  });
+
+  test('checks GPU larger runners against the plan and orders usage deterministically', () => {
+    const config = parseConfig(`
+defaults:
+  plan: team
+  plan-limits:
+    gpu: 4
+    gpu-label: linux-gpu-*
+`);
+    const report = validateWorkflows([
+      { file: 'train.yml', content: matrixWorkflow({ runsOn: 'linux-gpu-a100', size: 6, on: 'pull_request' }) },
+      { file: 'infer.yml', content: matrixWorkflow({ runsOn: 'linux-gpu-t4', size: 2, on: 'push' }) },
+      { file: 'ci.yml', content: matrixWorkflow({ size: 6, on: 'push' }) }
+    ], { config });
+
+    expect(report.issues.map(issue => [issue.file, issue.message])).toEqual([
+      ['train.yml', "Workflow has too many parallel jobs on 'linux-gpu-*' runners (6 > 4)"]
+    ]);
+    expect(report.plan?.gpu).toEqual([
+      { subject: 'train.yml', count: 6, percent: 150 },
+      { subject: 'infer.yml', count: 2, percent: 50 }
+    ]);
+    expect(report.plan?.workflows.map(usage => usage.subject)).toEqual(['ci.yml', 'train.yml', 'infer.yml']);
+    expect(report.plan?.triggers.map(usage => [usage.subject, usage.count])).toEqual([
+      ['push', 8],
+      ['pull_request', 6]
+    ]);
+    expect(createStepSummary(report)).toContain('| `train.yml` | 6 | 150% |');
+    expect(() => parseConfig('defaults:\n  plan-limits:\n    gpu-label: 3\n'))
+      .toThrow('defaults.plan-limits.gpu-label: must be a runner label or pattern, got 3');
+  });
+
+  test('rejects unknown plans', () => {
+    expect(parsePlan(' Team ')).toBe('team');
+    expect(parsePlan('')).toBeUndefined();
+    expect(() => parsePlan('business'))
+      .toThrow("plan must be one of free, pro, team, enterprise, ghes, got 'business'");
+    expect(() => parseConfig('defaults:\n  plan: business\n  plan-limits:\n    linux: 5\n')).toThrow(
+      'Invalid config file .github/concurrency-validator.yml:\n' +
+      '  - defaults.plan: must be one of free, pro, team, enterprise, ghes, got "business"\n' +
+      '  - defaults.plan-limits.linux: unknown key (expected one of total, macos, gpu, gpu-label)'
+    );
+  });
+
+  test('needs explicit limits for GitHub Enterprise Server', () => {
+    expect(() => validateWorkflows(workflows, { plan: 'ghes' }))
+      .toThrow('The ghes plan has no built-in limits: set defaults.plan-limits.total in the config');
+
+    const config = parseConfig('defaults:\n  plan: ghes\n  plan-limits:\n    total: 30\n');
+    expect(resolvePlanLimits({ config })).toEqual({ plan: 'ghes', total: 30, gpuLabel: '*gpu*' });
+    expect(validateWorkflows(workflows, { config }).workflows[1].runners
+      .find(runner => runner.label === 'macos-*')).toBeUndefined();
+  });
+});
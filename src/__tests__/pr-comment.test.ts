@@ -0,0 +1,152 @@
+import fs from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { AddressInfo } from 'net';
+import { run } from '../action';
+import { COMMENT_MARKER, PullRequestContext, updatePullRequestComment, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+/**
+ * Local stub of the issue comment endpoints of the GitHub REST API
+ */
+class GitHubStub {
+  comments: { id: number; body: string; user: { type: string } }[] = [];
+  requests: string[] = [];
+  private server = http.createServer((req, res) => {
+    let text = '';
+    req.on('data', chunk => text += chunk);
+    req.on('end', () => {
+      this.requests.push(`${req.method} ${req.url}`);
+      const body = text ? JSON.parse(text).body : undefined;
+      const update = req.url?.match(/^\/repos\/octo\/repo\/issues\/comments\/(\d+)$/);
+
+      res.setHeader('Content-Type', 'application/json');
+      if (req.method === 'GET' && req.url?.startsWith('/repos/octo/repo/issues/7/comments')) {
+        const page = parseInt(new URL(req.url, 'http://stub').searchParams.get('page') || '1');
+        res.end(JSON.stringify(this.comments.slice((page - 1) * 100, page * 100)));
+      } else if (req.method === 'POST' && req.url === '/repos/octo/repo/issues/7/comments') {
+        const comment = { id: this.comments.length + 1, body, user: { type: 'Bot' } };
+        this.comments.push(comment);
+        res.statusCode = 201;
+        res.end(JSON.stringify(comment));
+      } else if (req.method === 'PATCH' && update) {
+        const comment = this.comments.find(entry => entry.id === parseInt(update[1]));
+        if (comment) {
+          comment.body = body;
+        }
+        res.statusCode = comment ? 200 : 404;
+        res.end(JSON.stringify(comment || { message: 'Not Found' }));
+      } else {
+        res.statusCode = 404;
+        res.end(JSON.stringify({ message: 'Not Found' }));
+      }
+    });
+  });
+
+  start(): Promise<string> {
+    return new Promise(resolve => this.server.listen(0, '127.0.0.1', () => {
+      resolve(`http://127.0.0.1:${(this.server.address() as AddressInfo).port}`);
+    }));
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server.close(() => resolve()));
+  }
+}
+
+describe('Pull request comment', () => {
+  const workflow = (nodes: string): string => `
+on: pull_request
+jobs:
+  test:
+    name: "Test on Node's \\"LTS\\""
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [${nodes}]
+`;
+
+  let stub: GitHubStub;
+  let context: PullRequestContext;
+
+  beforeEach(async () => {
+    stub = new GitHubStub();
+    context = { apiUrl: await stub.start(), repository: 'octo/repo', number: 7, token: 'secret' };
+  });
+
+  afterEach(async () => {
+    await stub.stop();
+  });
+
+  test('keeps a single comment up to date', async () => {
+    const failing = validateWorkflows([{ file: "ci's.yml", content: workflow('16, 18, 20') }], { maxConcurrency: 2 });
+    const passing = validateWorkflows([{ file: "ci's.yml", content: workflow('18, 20') }], { maxConcurrency: 2 });
+
+    // Nothing to say while validation passes
+    expect(await updatePullRequestComment(context, passing)).toBe('skipped');
+    expect(stub.comments).toEqual([]);
+
+    stub.comments.push({ id: 1, body: 'Looks good to me', user: { type: 'User' } });
+    expect(await updatePullRequestComment(context, failing)).toBe('created');
+    expect(await updatePullRequestComment(context, failing)).toBe('skipped');
+    expect(stub.comments).toHaveLength(2);
+    expect(stub.comments[1].body).toContain(COMMENT_MARKER);
+    expect(stub.comments[1].body).toContain("- `ci's.yml`: Workflow has too many parallel jobs (3 > 2)");
+    expect(stub.comments[1].body).toContain('| `ci\'s.yml` | 3 | 2 | -1 | ❌ Fail |');
+
+    expect(await updatePullRequestComment(context, passing)).toBe('updated');
+    expect(stub.comments).toHaveLength(2);
+    expect(stub.comments[1].body).toContain('Workflow concurrency validation is now passing');
+    expect(stub.requests).toContain('PATCH /repos/octo/repo/issues/comments/2');
+  });
+
+  test('leaves comments quoting the marker to their authors', async () => {
+    const failing = validateWorkflows([{ file: 'ci.yml', content: matrixWorkflow({ on: 'pull_request', size: 3 }) }],
+      { maxConcurrency: 2 });
+    const quote = `> ${COMMENT_MARKER}\n> Workflow concurrency validation failed\n\nWhy does this fail?`;
+    stub.comments.push({ id: 1, body: quote, user: { type: 'User' } });
+
+    expect(await updatePullRequestComment(context, failing)).toBe('created');
+    expect(stub.comments[0].body).toBe(quote);
+    expect(stub.comments[1]).toEqual({ id: 2, body: expect.stringContaining(COMMENT_MARKER), user: { type: 'Bot' } });
+  });
+
+  test('comments from the action on pull request events', async () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-comment-'));
+    const env = { ...process.env };
+    try {
+      fs.mkdirSync(path.join(workspace, '.github', 'workflows'), { recursive: true });
+      fs.writeFileSync(path.join(workspace, '.github', 'workflows', 'ci.yml'),
+        matrixWorkflow({ on: 'pull_request', size: 3 }));
+      fs.writeFileSync(path.join(workspace, 'event.json'), JSON.stringify({ pull_request: { number: 7 } }));
+
+      Object.assign(process.env, {
+        GITHUB_WORKSPACE: workspace,
+        GITHUB_OUTPUT: path.join(workspace, 'output'),
+        GITHUB_EVENT_NAME: 'pull_request',
+        GITHUB_EVENT_PATH: path.join(workspace, 'event.json'),
+        GITHUB_REPOSITORY: 'octo/repo',
+        GITHUB_API_URL: context.apiUrl,
+        GITHUB_TOKEN: 'secret',
+        INPUT_MAX_CONCURRENCY: '2'
+      });
+      delete process.env.GITHUB_STEP_SUMMARY;
+      jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+      expect(await run()).toBe(1);
+      expect(stub.comments).toEqual([
+        { id: 1, body: expect.stringContaining('.github/workflows/ci.yml'), user: { type: 'Bot' } }
+      ]);
+
+      // The comment is an extra, so API errors only warn
+      process.env.GITHUB_REPOSITORY = 'octo/missing';
+      expect(await run()).toBe(1);
+      expect(console.log).toHaveBeenCalledWith(expect.stringMatching(/^::warning::Could not comment on pull request #7: /));
+    } finally {
+      jest.restoreAllMocks();
+      process.env = env;
+      fs.rmSync(workspace, { recursive: true, force: true });
+    }
+  });
+});
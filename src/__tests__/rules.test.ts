@@ -0,0 +1,176 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createSarifLog, createStepSummary, parseConfig, validateWorkflows } from '../index';
+import { matrixWorkflow } from './helpers/workflows';
+
+describe('Policy rules', () => {
+  const pullRequestWorkflow = `
+on: pull_request
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        shard: [${Array.from({ length: 20 }, (_, i) => i + 1).join(', ')}]
+  deploy-preview:
+    needs: test
+    runs-on: ubuntu-latest
+    environment: preview
+`;
+  const compliantWorkflow = `
+on: pull_request
+concurrency:
+  group: pr-\${{ github.ref }}
+  cancel-in-progress: true
+jobs:
+  release:
+    runs-on: ubuntu-latest
+    environment: production
+    concurrency: production
+`;
+
+  test('checks the built-in rules the config enables, at their configured severity', () => {
+    const config = parseConfig(`
+rules:
+  pull-request-concurrency: error
+  max-matrix-size:
+    severity: warning
+    max: 16
+  deploy-concurrency:
+    jobs: [release]
+`);
+    const report = validateWorkflows([
+      { file: 'pr.yml', content: pullRequestWorkflow },
+      { file: 'compliant.yml', content: compliantWorkflow }
+    ], { config, maxConcurrency: 30 });
+
+    expect(report.issues).toEqual([
+      {
+        type: 'rule-violation',
+        file: 'pr.yml',
+        subject: 'pull-request-concurrency',
+        message: 'Workflow runs on pull_request without cancelling superseded runs: ' +
+          'set `concurrency` with `cancel-in-progress: true`',
+        locations: [{ file: 'pr.yml' }]
+      },
+      {
+        type: 'rule-violation',
+        file: 'pr.yml',
+        subject: 'deploy-concurrency',
+        message: "Deploy job 'deploy-preview' doesn't set a concurrency group, so its deployments can overlap",
+        locations: [{ file: 'pr.yml', job: 'deploy-preview', position: { line: 9, column: 3 } }]
+      }
+    ]);
+    expect(report.workflows[0].violations?.map(violation => [violation.rule, violation.severity])).toEqual([
+      ['pull-request-concurrency', 'error'],
+      ['max-matrix-size', 'warning'],
+      ['deploy-concurrency', 'error']
+    ]);
+    expect(report.workflows.map(result => result.passed)).toEqual([false, true]);
+    expect(report.passed).toBe(false);
+    expect(createStepSummary(report)).toContain("| `max-matrix-size` | ⚠️ warning | `pr.yml` | " +
+      "The matrix of job 'test' has 20 combinations, more than the 16 allowed by policy |");
+
+    const sarif = createSarifLog(report).runs[0];
+    expect(sarif.tool.driver.rules.slice(-3).map(rule => [rule.id, rule.defaultConfiguration.level])).toEqual([
+      ['policy/pull-request-concurrency', 'error'],
+      ['policy/max-matrix-size', 'warning'],
+      ['policy/deploy-concurrency', 'error']
+    ]);
+    expect(sarif.results.map(result => [result.ruleId, result.level])).toEqual([
+      ['policy/pull-request-concurrency', 'error'],
+      ['policy/max-matrix-size', 'warning'],
+      ['policy/deploy-concurrency', 'error']
+    ]);
+
+    expect(validateWorkflows([{ file: 'pr.yml', content: pullRequestWorkflow }], { maxConcurrency: 30 }).rules)
+      .toBeUndefined();
+  });
+
+  test('loads rules from local JavaScript and TypeScript modules', () => {
+    const workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'rules-'));
+    fs.mkdirSync(path.join(workspace, '.github'));
+    fs.writeFileSync(path.join(workspace, '.github/no-macos.js'), `
+module.exports = {
+  id: 'no-macos',
+  description: 'Jobs run on Linux',
+  check: ({ result }) => result.runners
+    .filter(runner => runner.label.startsWith('macos'))
+    .flatMap(runner => runner.jobs.map(job => ({ message: \`Job '\${job}' runs on \${runner.label}\`, job })))
+};
+`);
+    fs.writeFileSync(path.join(workspace, '.github/peak.ts'), `
+import type { RuleContext, WorkflowRule } from 'workflow-concurrency-validator';
+
+const rules: WorkflowRule[] = [{
+  id: 'max-peak',
+  description: 'Workflows run at most \\'max\\' jobs at once',
+  severity: 'warning',
+  check: ({ result, options }: RuleContext) => result.concurrencyCount > (options.max as number)
+    ? [{ message: \`Peak of \${result.concurrencyCount} jobs\` }]
+    : []
+}];
+export default rules;
+`);
+    const config = parseConfig(`
+rule-modules:
+  - .github/no-macos.js
+  - .github/peak.ts
+rules:
+  no-macos: warning
+  max-peak:
+    max: 2
+`);
+    const report = validateWorkflows([{
+      file: 'ci.yml',
+      content: 'on: push\njobs:\n  build:\n    runs-on: macos-latest\n' +
+        '  test:\n    runs-on: ubuntu-latest\n  lint:\n    runs-on: ubuntu-latest\n'
+    }], { config, workspace });
+
+    expect(report.workflows[0].violations).toEqual([
+      {
+        rule: 'no-macos',
+        severity: 'warning',
+        file: 'ci.yml',
+        message: "Job 'build' runs on macos-latest",
+        locations: [{ file: 'ci.yml', job: 'build', position: { line: 3, column: 3 } }]
+      },
+      {
+        rule: 'max-peak',
+        severity: 'warning',
+        file: 'ci.yml',
+        message: 'Peak of 3 jobs',
+        locations: [{ file: 'ci.yml' }]
+      }
+    ]);
+    expect(report.rules).toEqual([
+      { id: 'no-macos', description: 'Jobs run on Linux', severity: 'warning' },
+      { id: 'max-peak', description: "Workflows run at most 'max' jobs at once", severity: 'warning' }
+    ]);
+    expect(report.passed).toBe(true);
+
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('reports misconfigured and failing rules', () => {
+    const workflows = [{ file: 'pr.yml', content: matrixWorkflow({ on: 'pull_request', size: 20 }) }];
+
+    expect(() => validateWorkflows(workflows, { config: parseConfig('rules:\n  no-windows: error\n') }))
+      .toThrow("Unknown rule 'no-windows' in the config (expected one of pull-request-concurrency, max-matrix-size, " +
+        'deploy-concurrency)');
+    expect(() => validateWorkflows(workflows, { config: parseConfig('rule-modules: [missing.js]\n') }))
+      .toThrow('Rule module missing.js not found');
+    expect(() => parseConfig('rules:\n  max-matrix-size: fatal\n'))
+      .toThrow('rules.max-matrix-size: must be error, warning or off, got "fatal"');
+
+    const report = validateWorkflows(workflows, {
+      config: parseConfig('rules:\n  max-matrix-size:\n    max: lots\n  deploy-concurrency: off\n'),
+      maxConcurrency: 30
+    });
+    expect(report.workflows[0].warnings)
+      .toEqual(['Rule \'max-matrix-size\' failed: max must be a positive integer, got "lots"']);
+    expect(report.rules?.map(rule => rule.id)).toEqual(['max-matrix-size']);
+    expect(report.passed).toBe(true);
+  });
+});
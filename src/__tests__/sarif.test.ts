@@ -0,0 +1,97 @@
+import { createSarifLog, validateWorkflows } from '../index';
+
+describe('SARIF report', () => {
+  const report = validateWorkflows([
+    {
+      file: '.github/workflows/ci.yml',
+      content: `
+on: push
+jobs:
+  plan:
+    runs-on: ubuntu-latest
+    outputs:
+      shards: \${{ steps.plan.outputs.shards }}
+    steps:
+      - id: plan
+        run: ./plan.sh
+  test:
+    needs: plan
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        shard: \${{ fromJSON(needs.plan.outputs.shards) }}
+        node: [18, 20]
+  a:
+    needs: b
+    runs-on: ubuntu-latest
+  b:
+    needs: a
+    runs-on: ubuntu-latest
+`
+    },
+    { file: '.github/workflows/broken.yml', content: 'on: push\njobs:\n  build: [\n' }
+  ], { maxConcurrency: 4 });
+
+  const log = createSarifLog(report);
+  const [run] = log.runs;
+
+  test('describes every rule with a stable ID', () => {
+    expect(log.version).toBe('2.1.0');
+    expect(run.tool.driver.rules.map(rule => rule.id)).toEqual([
+      'limit-exceeded',
+      'unresolved-dynamic-matrix',
+      'cyclic-needs',
+      'parse-error',
+      'unknown-needs',
+      'self-needs',
+      'matrix-limit',
+      'invalid-job-id',
+      'pipeline-cycle'
+    ]);
+  });
+
+  test('points findings at the offending job', () => {
+    const location = (line: number, column: number): unknown => ({
+      physicalLocation: {
+        artifactLocation: { uri: '.github/workflows/ci.yml', uriBaseId: '%SRCROOT%' },
+        region: { startLine: line, startColumn: column }
+      }
+    });
+
+    expect(run.results).toEqual([
+      {
+        ruleId: 'limit-exceeded',
+        ruleIndex: 0,
+        level: 'error',
+        message: { text: 'Workflow has too many parallel jobs (6 > 4)' },
+        locations: [location(11, 3)]
+      },
+      {
+        ruleId: 'parse-error',
+        ruleIndex: 3,
+        level: 'error',
+        message: { text: expect.stringContaining('YAML syntax error') },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: '.github/workflows/broken.yml', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 4, startColumn: 1 }
+          }
+        }]
+      },
+      {
+        ruleId: 'unresolved-dynamic-matrix',
+        ruleIndex: 1,
+        level: 'warning',
+        message: { text: "The matrix size of job 'test' is only known at runtime and was guessed" },
+        locations: [location(15, 7)]
+      },
+      {
+        ruleId: 'cyclic-needs',
+        ruleIndex: 2,
+        level: 'error',
+        message: { text: "Jobs can't start because of circular needs: a → b → a" },
+        locations: [location(19, 12), location(22, 12)]
+      }
+    ]);
+  });
+});
@@ -0,0 +1,71 @@
+import { analyzeWorkflow, parseDurations, validateWorkflows } from '../index';
+
+describe('Schedule simulation', () => {
+  const workflow = `
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        linter: [eslint, prettier, tsc, markdown]
+  build:
+    runs-on: ubuntu-latest
+  test:
+    needs: build
+    runs-on: ubuntu-latest
+    timeout-minutes: 40
+    strategy:
+      max-parallel: 4
+      matrix:
+        shard: [1, 2, 3, 4, 5, 6]
+`;
+  const durations = parseDurations(JSON.stringify({
+    default: 15,
+    workflows: { '.github/workflows/*.yml': { lint: 2, build: 5 } }
+  }), 'durations.json');
+
+  test('simulates the schedule with typical runtimes', () => {
+    const result = analyzeWorkflow(workflow, '.github/workflows/ci.yml', { durations });
+
+    // Without runtimes, lint could still be running when test starts
+    expect(result.concurrencyCount).toBe(8);
+    expect(result.simulation).toEqual({
+      peak: 5,
+      peakJobs: ['lint', 'build'],
+      peakMinute: 0,
+      totalMinutes: 85,
+      profile: [
+        { minute: 0, count: 5 },
+        { minute: 2, count: 1 },
+        { minute: 5, count: 4 },
+        { minute: 45, count: 2 },
+        { minute: 85, count: 0 }
+      ],
+      worstCase: { count: 8, jobs: ['lint', 'test'] }
+    });
+  });
+
+  test('validates against the simulated peak when asked to', () => {
+    const files = [{ file: '.github/workflows/ci.yml', content: workflow }];
+
+    expect(validateWorkflows(files, { maxConcurrency: 6, durations }).passed).toBe(false);
+    const report = validateWorkflows(files, { maxConcurrency: 6, durations, peak: 'simulated' });
+    expect(report.passed).toBe(true);
+    expect(report.workflows[0]).toEqual(expect.objectContaining({ concurrencyCount: 5, peakJobs: ['lint', 'build'] }));
+
+    // Jobs without a runtime or timeout-minutes fall back to the default
+    const fallback = analyzeWorkflow(workflow, 'other.yml', { peak: 'simulated' });
+    expect(fallback.simulation?.totalMinutes).toBe(90);
+  });
+
+  test('rejects invalid runtimes', () => {
+    expect(() => parseDurations('{"default": 0, "workflows": {"ci.yml": {"lint": "2m"}, "cd.yml": 3}}', 'durations.json'))
+      .toThrow([
+        'Invalid durations file durations.json:',
+        '  - default: must be a positive number of minutes',
+        '  - workflows.ci.yml.lint: must be a positive number of minutes',
+        '  - workflows.cd.yml: must map job keys to runtimes'
+      ].join('\n'));
+  });
+});
@@ -0,0 +1,47 @@
+import { createStepSummary, validateWorkflows } from '../index';
+
+describe('Step summary', () => {
+  test('renders the execution groups and the workflows by headroom', () => {
+    const report = validateWorkflows([
+      {
+        file: '.github/workflows/ci.yml',
+        content: `
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [16, 18, 20]
+  deploy:
+    needs: [lint, test]
+    runs-on: ubuntu-latest
+`
+      },
+      {
+        file: '.github/workflows/docs.yml',
+        content: 'on: push\njobs:\n  build:\n    runs-on: ubuntu-latest\n'
+      }
+    ], { maxConcurrency: 3 });
+
+    const summary = createStepSummary(report);
+
+    expect(summary).toContain([
+      '| Workflow | Peak | Limit | Headroom | Result |',
+      '| --- | --- | --- | --- | --- |',
+      '| `.github/workflows/ci.yml` | 4 | 3 | -1 | ❌ Fail |',
+      '| `.github/workflows/docs.yml` | 1 | 3 | 2 | ✅ Pass |'
+    ].join('\n'));
+    expect(summary).toContain([
+      '### ❌ .github/workflows/ci.yml',
+      '',
+      '| Group | Jobs | Matrix sizes | Group total | Result |',
+      '| --- | --- | --- | --- | --- |',
+      '| 1 | `lint`<br>`test` | 1<br>3 | 4 | ❌ Fail |',
+      '| 2 | `deploy` | 1 | 1 | ✅ Pass |'
+    ].join('\n'));
+    expect(summary).toContain('- `.github/workflows/ci.yml`: Workflow has too many parallel jobs (4 > 3)');
+  });
+});
@@ -1,12 +1,12 @@
 import fs from 'fs';
 import path from 'path';
 import os from 'os';
+import { run } from '../action';
 
 describe('Workflow Concurrency Validator', () => {
   const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'workflow-test-'));
   const workflowDir = path.join(tmpDir, '.github', 'workflows');
   const outputFile = path.join(tmpDir, 'github-output');
-  const validatorPath = require.resolve('../validate-concurrency');
 
   beforeAll(() => {
     fs.mkdirSync(workflowDir, { recursive: true });
@@ -20,8 +20,21 @@ describe('Workflow Concurrency Validator', () => {
     // Reset environment variables
     process.env.GITHUB_WORKSPACE = tmpDir;
     process.env.GITHUB_OUTPUT = outputFile;
+    delete process.env.GITHUB_STEP_SUMMARY;
+    delete process.env.GITHUB_EVENT_NAME;
     delete process.env.INPUT_MAX_CONCURRENCY;
+    delete process.env.INPUT_MAX_TOTAL_CONCURRENCY;
+    delete process.env.INPUT_RUNNER_LIMITS;
     delete process.env.INPUT_WORKFLOW_PATH;
+    delete process.env.INPUT_CONFIG_PATH;
+    delete process.env.INPUT_SARIF_FILE;
+    delete process.env.INPUT_BASELINE_REF;
+    delete process.env.INPUT_DOT_FILE;
+    delete process.env.INPUT_DURATIONS_FILE;
+    delete process.env.INPUT_PEAK;
+    delete process.env.INPUT_EVENT;
+    delete process.env.INPUT_EVENT_CONTEXT;
+    delete process.env.INPUT_BASELINE_FILE;
     delete process.env.INPUT_FAIL_ON_ERROR;
     delete process.env.INPUT_COMMENT_ON_PR;
 
@@ -32,22 +45,15 @@ describe('Workflow Concurrency Validator', () => {
 
     // Reset output file
     fs.writeFileSync(outputFile, '', { mode: 0o666 });
-
-    // Clear require cache
-    jest.resetModules();
   });
 
   function getGitHubOutput(): string {
     return fs.readFileSync(outputFile, 'utf8');
   }
 
-  // Helper to run validator in isolation
-  async function runValidator() {
-    jest.isolateModules(() => {
-      require('../validate-concurrency');
-    });
-    // Give file system a moment to write
-    await new Promise(resolve => setTimeout(resolve, 100));
+  // Helper to run the action against the temporary workspace
+  function runValidator(): Promise<number> {
+    return run();
   }
 
   test('validates workflow with parallel jobs', async () => {
@@ -77,7 +83,7 @@ jobs:
       })
     );
     expect(output).toMatch(/validation_passed<<.*\ntrue\n/);
-    expect(output).toMatch(/total_concurrency<<.*\n0\n/);
+    expect(output).toMatch(/total_concurrency<<.*\n2\n/);
   });
 
   test('validates implicit concurrency from parallel jobs', async () => {
@@ -112,7 +118,7 @@ jobs:
       })
     );
     expect(output).toMatch(/validation_passed<<.*\ntrue\n/);
-    expect(output).toMatch(/total_concurrency<<.*\n0\n/);
+    expect(output).toMatch(/total_concurrency<<.*\n2\n/);
   });
 
   test('fails when a single workflow exceeds max concurrency', async () => {
@@ -133,9 +139,7 @@ jobs:
 `;
     fs.writeFileSync(path.join(workflowDir, 'test3.yml'), workflow);
     
-    const mockExit = jest.spyOn(process, 'exit').mockImplementation(() => undefined as never);
-    
-    await runValidator();
+    const exitCode = await runValidator();
     
     const output = getGitHubOutput();
     expect(JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0]).toEqual(
@@ -146,10 +150,8 @@ jobs:
       })
     );
     expect(output).toMatch(/validation_passed<<.*\nfalse\n/);
-    expect(output).toMatch(/total_concurrency<<.*\n0\n/);
-    expect(mockExit).toHaveBeenCalledWith(1);
-    
-    mockExit.mockRestore();
+    expect(output).toMatch(/total_concurrency<<.*\n2\n/);
+    expect(exitCode).toBe(1);
   });
 
   test('validates multiple workflows independently', async () => {
@@ -200,7 +202,7 @@ jobs:
       ])
     );
     expect(output).toMatch(/validation_passed<<.*\ntrue\n/);
-    expect(output).toMatch(/total_concurrency<<.*\n0\n/);
+    expect(output).toMatch(/total_concurrency<<.*\n3\n/);
   });
 
   test('validates matrix jobs correctly', async () => {
@@ -230,6 +232,517 @@ jobs:
       })
     );
     expect(output).toMatch(/validation_passed<<.*\ntrue\n/);
-    expect(output).toMatch(/total_concurrency<<.*\n0\n/);
+    expect(output).toMatch(/total_concurrency<<.*\n4\n/);
+  });
+
+  test('applies matrix include and exclude entries', async () => {
+    const workflow = `
+name: Matrix Include Exclude Workflow
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        os: [ubuntu, windows]
+        node: [14, 16]
+        exclude:
+          - os: windows
+            node: 14
+        include:
+          - os: ubuntu
+            experimental: true
+          - os: macos
+            node: 16
+    steps:
+      - run: echo "test"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'matrix-include.yml'), workflow);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    const result = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0];
+    // 4 combinations - 1 excluded + 1 extra include (the first include is merged)
+    expect(result).toEqual(
+      expect.objectContaining({
+        file: '.github/workflows/matrix-include.yml',
+        concurrencyCount: 4,
+        passed: true
+      })
+    );
+    expect(result.details[0]).toEqual(expect.objectContaining({ jobs: ['test'], count: 4 }));
+  });
+
+  test('counts include-only matrices by their entries', async () => {
+    const workflow = `
+name: Include Only Workflow
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        include:
+          - os: ubuntu
+          - os: windows
+          - os: macos
+    steps:
+      - run: echo "test"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'include-only.yml'), workflow);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    expect(JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0]).toEqual(
+      expect.objectContaining({
+        file: '.github/workflows/include-only.yml',
+        concurrencyCount: 3,
+        passed: true
+      })
+    );
+  });
+
+  test('caps matrix jobs at max-parallel', async () => {
+    process.env.INPUT_MAX_CONCURRENCY = '5';
+
+    const workflow = `
+name: Max Parallel Workflow
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      max-parallel: 4
+      matrix:
+        shard: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10]
+        node: [18, 20, 22]
+    steps:
+      - run: echo "test"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'max-parallel.yml'), workflow);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    const result = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0];
+    expect(result).toEqual(
+      expect.objectContaining({
+        file: '.github/workflows/max-parallel.yml',
+        concurrencyCount: 4,
+        passed: true
+      })
+    );
+    expect(result.details[0].caps).toEqual([
+      expect.objectContaining({ jobs: ['test'], uncapped: 30, capped: 4 })
+    ]);
+    expect(output).toMatch(/validation_passed<<.*\ntrue\n/);
+  });
+
+  test('serializes jobs sharing a concurrency group', async () => {
+    const workflow = `
+name: Concurrency Group Workflow
+on: push
+jobs:
+  deploy-eu:
+    runs-on: ubuntu-latest
+    concurrency: deploy
+    steps:
+      - run: echo "deploy"
+  deploy-us:
+    runs-on: ubuntu-latest
+    concurrency:
+      group: deploy
+      cancel-in-progress: false
+    steps:
+      - run: echo "deploy"
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "lint"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'concurrency-group.yml'), workflow);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    const result = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0];
+    expect(result.concurrencyCount).toBe(2);
+    expect(result.details[0].caps).toEqual([
+      expect.objectContaining({ jobs: ['deploy-eu', 'deploy-us'], uncapped: 2, capped: 1 })
+    ]);
+  });
+
+  test('computes peak concurrency across dependency levels', async () => {
+    const workflow = `
+name: Overlapping Levels Workflow
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "lint"
+  build:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        os: [ubuntu, windows, macos]
+    steps:
+      - run: echo "build"
+  test:
+    runs-on: ubuntu-latest
+    needs: lint
+    strategy:
+      matrix:
+        shard: [1, 2, 3, 4]
+    steps:
+      - run: echo "test"
+  deploy:
+    runs-on: ubuntu-latest
+    needs: [build, test]
+    steps:
+      - run: echo "deploy"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'overlap.yml'), workflow);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    const result = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0];
+    // 'test' only waits for 'lint', so it can overlap with the whole 'build' matrix
+    expect(result.concurrencyCount).toBe(7);
+    expect(result.peakJobs.sort()).toEqual(['build', 'test']);
+  });
+
+  test('inlines local reusable workflows into the caller job', async () => {
+    const callee = `
+name: Reusable Build
+on:
+  workflow_call:
+    inputs:
+      platforms:
+        type: string
+        default: '["linux"]'
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        platform: \${{ fromJSON(inputs.platforms) }}
+    steps:
+      - run: echo "build"
+  package:
+    runs-on: ubuntu-latest
+    needs: build
+    steps:
+      - run: echo "package"
+`;
+    const caller = `
+name: Caller Workflow
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "lint"
+  build:
+    uses: ./.github/workflows/reusable-build.yml
+    with:
+      platforms: '["linux", "windows", "macos"]'
+  release:
+    runs-on: ubuntu-latest
+    needs: build
+    steps:
+      - run: echo "release"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'reusable-build.yml'), callee);
+    fs.writeFileSync(path.join(workflowDir, 'caller.yml'), caller);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    const results = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '');
+    const result = results.find((r: { file: string }) => r.file === '.github/workflows/caller.yml');
+    expect(result.concurrencyCount).toBe(4);
+    expect(result.peakJobs.sort()).toEqual(['build/build', 'lint']);
+    expect(result.details[0].calledWorkflows).toEqual([
+      { job: 'build', workflow: '.github/workflows/reusable-build.yml', count: 3 }
+    ]);
+    // On its own, the callee can't size a matrix driven by a string input
+    expect(results.find((r: { file: string }) => r.file === '.github/workflows/reusable-build.yml').concurrencyCount).toBe(1);
+  });
+
+  test('stops inlining circular reusable workflow calls', async () => {
+    const workflowA = `
+name: Workflow A
+on: workflow_call
+jobs:
+  call-b:
+    uses: ./.github/workflows/cycle-b.yml
+`;
+    const workflowB = `
+name: Workflow B
+on: workflow_call
+jobs:
+  call-a:
+    uses: ./.github/workflows/cycle-a.yml
+  test:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "test"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'cycle-a.yml'), workflowA);
+    fs.writeFileSync(path.join(workflowDir, 'cycle-b.yml'), workflowB);
+
+    await runValidator();
+
+    const output = getGitHubOutput();
+    const results = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '');
+    const result = results.find((r: { file: string }) => r.file === '.github/workflows/cycle-a.yml');
+    // call-b/call-a is kept as a single execution instead of recursing forever
+    expect(result.concurrencyCount).toBe(2);
+  });
+
+  test('sums workflows that fire on the same trigger', async () => {
+    process.env.INPUT_MAX_TOTAL_CONCURRENCY = '4';
+
+    const ci = `
+name: CI
+on:
+  push:
+    branches: [main]
+  pull_request:
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [18, 20, 22]
+    steps:
+      - run: echo "test"
+`;
+    const docs = `
+name: Docs
+on:
+  push:
+    branches: [main, 'docs/**']
+jobs:
+  build:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "docs"
+  link-check:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "links"
+`;
+    const release = `
+name: Release
+on:
+  push:
+    tags: ['v*']
+jobs:
+  publish:
+    runs-on: ubuntu-latest
+    steps:
+      - run: echo "publish"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), ci);
+    fs.writeFileSync(path.join(workflowDir, 'docs.yml'), docs);
+    fs.writeFileSync(path.join(workflowDir, 'release.yml'), release);
+
+    const exitCode = await runValidator();
+
+    const output = getGitHubOutput();
+    const triggers = JSON.parse(output.match(/trigger_concurrency<<.*\n(.*)\n/)?.[1] || '');
+    expect(triggers[0]).toEqual({
+      trigger: "push on branch 'main'",
+      workflows: ['.github/workflows/ci.yml', '.github/workflows/docs.yml'],
+      count: 5
+    });
+    expect(triggers).toEqual(expect.arrayContaining([
+      { trigger: "push on branch 'docs/**'", workflows: ['.github/workflows/docs.yml'], count: 2 },
+      { trigger: "push on tag 'v*'", workflows: ['.github/workflows/release.yml'], count: 1 },
+      { trigger: 'pull_request', workflows: ['.github/workflows/ci.yml'], count: 3 }
+    ]));
+    expect(output).toMatch(/total_concurrency<<.*\n5\n/);
+    expect(output).toMatch(/validation_passed<<.*\nfalse\n/);
+    expect(output).toContain("Total concurrency for push on branch 'main' (5) exceeds maximum allowed (4)");
+    expect(exitCode).toBe(1);
+  });
+
+  test('breaks concurrency down by runner label and enforces runner limits', async () => {
+    process.env.INPUT_RUNNER_LIMITS = "'macos-*': 4";
+
+    const workflow = `
+name: Runner Labels Workflow
+on: push
+jobs:
+  test:
+    runs-on: \${{ matrix.os }}
+    strategy:
+      matrix:
+        os: [macos-13, macos-14, ubuntu-latest]
+        node: [18, 20]
+    steps:
+      - run: echo "test"
+  gpu:
+    runs-on: [self-hosted, gpu]
+    steps:
+      - run: echo "gpu"
+`;
+    fs.writeFileSync(path.join(workflowDir, 'runners.yml'), workflow);
+
+    expect(await runValidator()).toBe(0);
+
+    const output = getGitHubOutput();
+    const result = JSON.parse(output.match(/workflow_results<<.*\n(.*)\n/)?.[1] || '')[0];
+    expect(result.concurrencyCount).toBe(7);
+    expect(result.runners).toEqual([
+      { label: 'gpu', count: 1, jobs: ['gpu'] },
+      { label: 'macos-13', count: 2, jobs: ['test'] },
+      { label: 'macos-14', count: 2, jobs: ['test'] },
+      { label: 'self-hosted', count: 1, jobs: ['gpu'] },
+      { label: 'ubuntu-latest', count: 2, jobs: ['test'] },
+      { label: 'macos-*', count: 4, jobs: ['test'], limit: 4 }
+    ]);
+    expect(output).toMatch(/validation_passed<<.*\ntrue\n/);
+
+    // A 6-way macOS matrix exceeds the limit even though the total is under max-concurrency
+    fs.writeFileSync(path.join(workflowDir, 'runners.yml'), workflow.replace('ubuntu-latest', 'macos-15'));
+    fs.writeFileSync(outputFile, '');
+    expect(await runValidator()).toBe(1);
+
+    const failedOutput = getGitHubOutput();
+    expect(failedOutput).toMatch(/validation_passed<<.*\nfalse\n/);
+    expect(failedOutput).toContain("Workflow has too many parallel jobs on 'macos-*' runners (6 > 4)");
+  });
+
+  test('reads per-workflow limits from the config file', async () => {
+    const configFile = path.join(tmpDir, '.github', 'concurrency-validator.yml');
+    fs.writeFileSync(configFile, `
+defaults:
+  max-concurrency: 2
+workflows:
+  - path: .github/workflows/nightly.yml
+    max-concurrency: 5
+`);
+    const workflow = `
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        shard: [1, 2, 3, 4]
+`;
+    fs.writeFileSync(path.join(workflowDir, 'nightly.yml'), workflow);
+    fs.writeFileSync(path.join(workflowDir, 'pr.yml'), workflow);
+
+    try {
+      expect(await runValidator()).toBe(1);
+
+      const output = getGitHubOutput();
+      expect(output).toContain('.github/workflows/pr.yml: Workflow has too many parallel jobs (4 > 2)');
+      expect(output).not.toContain('nightly.yml: Workflow has too many parallel jobs');
+
+      // An explicitly given config file must exist
+      process.env.INPUT_CONFIG_PATH = 'missing.yml';
+      fs.writeFileSync(outputFile, '');
+      expect(await runValidator()).toBe(1);
+      expect(getGitHubOutput()).toContain('Fatal error: Config file missing.yml not found');
+    } finally {
+      fs.unlinkSync(configFile);
+    }
+  });
+
+  test('writes a SARIF report when sarif-file is set', async () => {
+    fs.writeFileSync(path.join(workflowDir, 'matrix.yml'), `
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [16, 18, 20]
+`);
+    process.env.INPUT_MAX_CONCURRENCY = '2';
+    process.env.INPUT_SARIF_FILE = 'results/concurrency.sarif';
+
+    expect(await runValidator()).toBe(1);
+
+    const sarifPath = path.join(tmpDir, 'results', 'concurrency.sarif');
+    expect(getGitHubOutput()).toMatch(new RegExp(`sarif_file<<.*\n${sarifPath}\n`));
+
+    const sarif = JSON.parse(fs.readFileSync(sarifPath, 'utf8'));
+    expect(sarif.runs[0].results).toEqual([
+      expect.objectContaining({
+        ruleId: 'limit-exceeded',
+        locations: [expect.objectContaining({
+          physicalLocation: expect.objectContaining({
+            artifactLocation: { uri: '.github/workflows/matrix.yml', uriBaseId: '%SRCROOT%' },
+            region: { startLine: 4, startColumn: 3 }
+          })
+        })]
+      })
+    ]);
+  });
+
+  test('annotates the job that pushes a workflow over the limit', async () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), `
+on: push
+jobs:
+  lint:
+    runs-on: ubuntu-latest
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [16, 18, 20]
+`);
+    fs.writeFileSync(path.join(workflowDir, 'broken.yml'), 'on: push\njobs:\n  build:\n    steps: [\n');
+    process.env.INPUT_MAX_CONCURRENCY = '3';
+
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    try {
+      expect(await runValidator()).toBe(1);
+      const lines = logSpy.mock.calls.map(call => String(call[0]));
+
+      expect(lines).toContain(
+        '::error file=.github/workflows/ci.yml,line=6,col=3::Workflow has too many parallel jobs (4 > 3)'
+      );
+      expect(lines).toContainEqual(expect.stringMatching(
+        /^::error file=\.github\/workflows\/broken\.yml,line=5,col=1::.*YAML syntax error: /
+      ));
+    } finally {
+      logSpy.mockRestore();
+    }
+  });
+
+  test('appends a Markdown summary to the step summary file', async () => {
+    fs.writeFileSync(path.join(workflowDir, 'ci.yml'), `
+on: push
+jobs:
+  test:
+    runs-on: ubuntu-latest
+    strategy:
+      matrix:
+        node: [16, 18, 20]
+`);
+    const summaryFile = path.join(tmpDir, 'step-summary.md');
+    fs.writeFileSync(summaryFile, '# Earlier step\n');
+    process.env.GITHUB_STEP_SUMMARY = summaryFile;
+
+    try {
+      expect(await runValidator()).toBe(0);
+
+      const summary = fs.readFileSync(summaryFile, 'utf8');
+      expect(summary).toMatch(/^# Earlier step\n## Workflow concurrency\n/);
+      expect(summary).toContain('| `.github/workflows/ci.yml` | 3 | 10 | 7 | ✅ Pass |');
+      expect(summary).toContain('| 1 | `test` | 3 | 3 | ✅ Pass |');
+    } finally {
+      fs.unlinkSync(summaryFile);
+    }
   });
-});
\ No newline at end of file
+});
@@ -0,0 +1,81 @@
+import { findJobPositions, parseYamlSource } from '../yaml-source';
+
+describe('YAML source positions', () => {
+  test('locates jobs, matrices and needs entries', () => {
+    const workflow = [
+      'on: push',
+      'jobs:',
+      '  build:',
+      '    runs-on: ubuntu-latest',
+      '    strategy:',
+      '      matrix: # concurrency-validator: max=10',
+      '        node: [18, 20]',
+      '  "test":',
+      '    needs: [build, \'lint\']',
+      '  lint:',
+      '    needs: build',
+      '  deploy:',
+      '    needs:',
+      '      # after everything else',
+      '      - test',
+      '      - lint # needed for the release notes',
+      '    steps:',
+      '      - run: |',
+      '          jobs:',
+      '            fake:',
+      '              needs: build'
+    ].join('\n');
+
+    expect(findJobPositions(parseYamlSource(workflow).keys)).toEqual({
+      build: { job: { line: 3, column: 3 }, matrix: { line: 6, column: 7 }, needs: {} },
+      test: {
+        job: { line: 8, column: 3 },
+        needs: { build: { line: 9, column: 13 }, lint: { line: 9, column: 20 } }
+      },
+      lint: { job: { line: 10, column: 3 }, needs: { build: { line: 11, column: 12 } } },
+      deploy: {
+        job: { line: 12, column: 3 },
+        needs: { test: { line: 15, column: 9 }, lint: { line: 16, column: 9 } }
+      }
+    });
+  });
+
+  test('locates jobs and needs written in flow style', () => {
+    const workflow = [
+      'on: push',
+      'jobs: {build: {runs-on: ubuntu-latest}, "test": {needs: [build,',
+      '  lint], strategy: {matrix: {node: [18, 20]}}}, lint: {}}'
+    ].join('\n');
+
+    expect(findJobPositions(parseYamlSource(workflow).keys)).toEqual({
+      build: { job: { line: 2, column: 8 }, needs: {} },
+      test: {
+        job: { line: 2, column: 41 },
+        matrix: { line: 3, column: 21 },
+        needs: { build: { line: 2, column: 58 }, lint: { line: 3, column: 3 } }
+      },
+      lint: { job: { line: 3, column: 49 }, needs: {} }
+    });
+  });
+
+  test('ignores keys inside block scalars', () => {
+    const workflow = [
+      'on: push',
+      'jobs:',
+      '  build:',
+      '    steps:',
+      '      - run: |',
+      '          needs: lint',
+      '          strategy:',
+      '            matrix: {}',
+      '  test:',
+      '    needs: >-',
+      '      build'
+    ].join('\n');
+
+    expect(findJobPositions(parseYamlSource(workflow).keys)).toEqual({
+      build: { job: { line: 3, column: 3 }, needs: {} },
+      test: { job: { line: 9, column: 3 }, needs: { build: { line: 10, column: 12 } } }
+    });
+  });
+});
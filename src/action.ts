@@ -0,0 +1,526 @@
+import fs from 'fs';
+import path from 'path';
+import glob from 'glob';
+import { DEFAULT_MAX_CONCURRENCY, formatIssue, formatSuppression, validateWorkflows } from './analyze';
+import { compareWithBaseline, formatDelta, hasChanged, loadBaselineFile, loadGitBaseline } from './baseline';
+import { loadConfig } from './config';
+import { formatJobCost, parseCostMultipliers } from './cost';
+import { parseEventContext } from './events';
+import { getWorkflowFindings } from './findings';
+import { formatPipelineChains } from './pipelines';
+import { formatPlanLimits, parsePlan, resolvePlanLimits } from './plans';
+import { formatProfile, loadDurations } from './simulation';
+import { renderDotGraph } from './graph';
+import { AnnotationProperties, Logger } from './logger';
+import { getPullRequestContext, updatePullRequestComment } from './pr-comment';
+import { parseRunnerLimits } from './runners';
+import { createSarifLog } from './sarif';
+import { createStepSummary, getExecutionGroups } from './summary';
+import {
+  BaselineComparison,
+  EventContext,
+  GitHubPlan,
+  IssueLocation,
+  PeakMode,
+  PipelineGraph,
+  PlanCapacity,
+  RunnerLimit,
+  RunnerMultiplier,
+  ScheduledStart,
+  ScheduleOverlap,
+  ValidationIssue,
+  WorkflowValidationResult
+} from './types';
+
+/**
+ * Represents the inputs of the GitHub Action
+ */
+interface ActionInputs {
+  maxConcurrency?: number;
+  maxTotalConcurrency?: number;
+  maxScheduledConcurrency?: number;
+  maxCost?: number;
+  runnerLimits: RunnerLimit[];
+  costMultipliers: RunnerMultiplier[];
+  plan?: GitHubPlan;
+  workflowDir: string;
+  configPath?: string;
+  sarifFile?: string;
+  baselineRef?: string;
+  baselineFile?: string;
+  dotFile?: string;
+  durationsFile?: string;
+  peak: PeakMode;
+  event?: EventContext;
+  failOnError: boolean;
+  commentOnPr: boolean;
+  workspace: string;
+}
+
+/**
+ * Reads and validates the action inputs from the environment
+ * @returns The action inputs
+ * @throws {Error} If max-concurrency, max-total-concurrency, max-scheduled-concurrency or max-cost is not a positive
+ * number, runner-limits, cost-multipliers or event-context is not a valid mapping, peak or plan is unknown, or
+ * both baseline-ref and baseline-file are set
+ */
+function getInputs(): ActionInputs {
+  let maxConcurrency: number | undefined;
+  if (process.env.INPUT_MAX_CONCURRENCY) {
+    maxConcurrency = parseInt(process.env.INPUT_MAX_CONCURRENCY);
+    if (isNaN(maxConcurrency) || maxConcurrency <= 0) {
+      throw new Error('max-concurrency must be a positive number');
+    }
+  }
+
+  let maxTotalConcurrency: number | undefined;
+  if (process.env.INPUT_MAX_TOTAL_CONCURRENCY) {
+    maxTotalConcurrency = parseInt(process.env.INPUT_MAX_TOTAL_CONCURRENCY);
+    if (isNaN(maxTotalConcurrency) || maxTotalConcurrency <= 0) {
+      throw new Error('max-total-concurrency must be a positive number');
+    }
+  }
+
+  let maxScheduledConcurrency: number | undefined;
+  if (process.env.INPUT_MAX_SCHEDULED_CONCURRENCY) {
+    maxScheduledConcurrency = parseInt(process.env.INPUT_MAX_SCHEDULED_CONCURRENCY);
+    if (isNaN(maxScheduledConcurrency) || maxScheduledConcurrency <= 0) {
+      throw new Error('max-scheduled-concurrency must be a positive number');
+    }
+  }
+
+  let maxCost: number | undefined;
+  if (process.env.INPUT_MAX_COST) {
+    maxCost = parseInt(process.env.INPUT_MAX_COST);
+    if (isNaN(maxCost) || maxCost <= 0) {
+      throw new Error('max-cost must be a positive number');
+    }
+  }
+
+  const peak = process.env.INPUT_PEAK || 'worst-case';
+  if (peak !== 'worst-case' && peak !== 'simulated') {
+    throw new Error(`peak must be 'worst-case' or 'simulated', got '${peak}'`);
+  }
+
+  const baselineRef = process.env.INPUT_BASELINE_REF || undefined;
+  const baselineFile = process.env.INPUT_BASELINE_FILE || undefined;
+  if (baselineRef && baselineFile) {
+    throw new Error('Only one of baseline-ref and baseline-file can be set');
+  }
+
+  return {
+    maxConcurrency,
+    maxTotalConcurrency,
+    maxScheduledConcurrency,
+    maxCost,
+    runnerLimits: parseRunnerLimits(process.env.INPUT_RUNNER_LIMITS),
+    costMultipliers: parseCostMultipliers(process.env.INPUT_COST_MULTIPLIERS),
+    plan: parsePlan(process.env.INPUT_PLAN),
+    workflowDir: process.env.INPUT_WORKFLOW_PATH || '.github/workflows',
+    configPath: process.env.INPUT_CONFIG_PATH || undefined,
+    sarifFile: process.env.INPUT_SARIF_FILE || undefined,
+    baselineRef,
+    baselineFile,
+    dotFile: process.env.INPUT_DOT_FILE || undefined,
+    durationsFile: process.env.INPUT_DURATIONS_FILE || undefined,
+    peak,
+    event: parseEventContext(process.env.INPUT_EVENT_CONTEXT, process.env.INPUT_EVENT || undefined),
+    failOnError: (process.env.INPUT_FAIL_ON_ERROR || 'true') === 'true',
+    commentOnPr: (process.env.INPUT_COMMENT_ON_PR || 'true') === 'true',
+    workspace: process.env.GITHUB_WORKSPACE || process.cwd()
+  };
+}
+
+/**
+ * Sets an output variable for the GitHub Action
+ * @param name - The name of the output variable
+ * @param value - The value to set
+ */
+function setOutput(name: string, value: string): void {
+  const outputFilePath = process.env.GITHUB_OUTPUT;
+  if (outputFilePath) {
+    const delimiter = `ghadelimiter_${Date.now()}`;
+    fs.appendFileSync(outputFilePath, `${name}<<${delimiter}\n${value}\n${delimiter}\n`);
+  } else {
+    console.log(`::set-output name=${name}::${value}`);
+  }
+}
+
+/**
+ * Converts an issue location to the properties of an annotation
+ * @param location The location, if any
+ * @returns The annotation properties
+ */
+function toAnnotation(location: IssueLocation | undefined): AnnotationProperties {
+  if (!location) {
+    return {};
+  }
+  return { file: location.file, line: location.position?.line, col: location.position?.column };
+}
+
+/**
+ * Logs the analysis of a single workflow in a collapsible group
+ * @param result The validation result of the workflow
+ * @param issues The issues found in the workflow
+ */
+function logWorkflowResult(result: WorkflowValidationResult, issues: ValidationIssue[]): void {
+  // Show header with validation status
+  Logger.group(`📄 ${result.passed ? '✅' : '❌'} ${result.file} (${result.concurrencyCount} parallel jobs)`);
+
+  result.warnings.forEach(warning => Logger.warning(warning, { file: result.file }));
+  // Errors are annotated with the workflow's issues
+  getWorkflowFindings(result)
+    .filter(finding => finding.severity === 'warning')
+    .forEach(finding => {
+      finding.locations.forEach(location => Logger.warning(finding.message, toAnnotation(location)));
+    });
+  (result.violations || [])
+    .filter(violation => violation.severity === 'warning')
+    .forEach(violation => {
+      violation.locations.forEach(location => {
+        Logger.warning(`${violation.message} (rule ${violation.rule})`, toAnnotation(location));
+      });
+    });
+
+  if (result.details.length === 0) {
+    Logger.info('No jobs defined in workflow');
+    Logger.endGroup();
+    return;
+  }
+
+  // Groups are read the same way as in the step summary, so both always agree
+  const groups = getExecutionGroups(result);
+  result.details.forEach((detail, index) => {
+    const group = groups[index];
+    Logger.info(`\nParallel execution group ${index + 1}:`);
+
+    group.jobs.forEach(({ job: jobKey, matrixSize }) => {
+      if (matrixSize > 1) {
+        Logger.info(`➕ Job '${jobKey}' with matrix: ${matrixSize} parallel executions`);
+      } else {
+        Logger.info(`➕ Job '${jobKey}'`);
+      }
+    });
+
+    (detail.caps || []).forEach(cap => {
+      Logger.info(`⏸️ ${cap.jobs.join(', ')}: ${cap.uncapped} → ${cap.capped} (${cap.reason})`);
+    });
+
+    (detail.calledWorkflows || []).forEach(called => {
+      Logger.info(`↪️ Job '${called.job}' calls ${called.workflow}: ${called.count} parallel executions`);
+    });
+
+    if (group.jobs.length > 1) {
+      Logger.info(`Group total: ${group.count} concurrent executions`);
+    }
+  });
+
+  result.suppressions.forEach(suppression => Logger.info(`🔕 ${formatSuppression(suppression)}`));
+  result.skippedJobs.forEach(skipped => Logger.info(`⏭️ Job '${skipped.job}' skipped for this event: ${skipped.reason}`));
+
+  Logger.info(`\nPeak concurrency: ${result.concurrencyCount} (${result.peakJobs.join(', ')})`);
+  if (result.simulation) {
+    const { simulation } = result;
+    Logger.info(`⏱️ Simulated peak: ${simulation.peak} at minute ${simulation.peakMinute} ` +
+      `(${simulation.peakJobs.join(', ')}), worst case ${simulation.worstCase.count}, ` +
+      `done after ${simulation.totalMinutes} minutes`);
+    Logger.info(`⏱️ Profile: ${formatProfile(simulation)}`);
+  }
+  result.runners.forEach(runner => {
+    const limit = runner.limit !== undefined ? ` (limit ${runner.limit})` : '';
+    Logger.info(`🖥️ ${runner.label}: ${runner.count} parallel jobs${limit}`);
+  });
+  if (result.cost) {
+    const limit = result.cost.limit !== undefined ? ` (budget ${result.cost.limit})` : '';
+    Logger.info(`💰 Worst-case cost: ${result.cost.minutes} billable minutes per run${limit}`);
+    result.cost.jobs.forEach(job => Logger.info(`💰 ${formatJobCost(job)}`));
+  }
+
+  // Show summary
+  Logger.info('\nSummary:');
+  Logger.info(`Maximum parallel jobs: ${result.concurrencyCount}`);
+  Logger.info(`Maximum allowed: ${result.maxConcurrency}`);
+
+  // Annotate the job that pushes the workflow over the limit
+  issues.forEach(issue => Logger.error(issue.message, toAnnotation(issue.locations?.[0])));
+
+  Logger.endGroup();
+  Logger.info('─'.repeat(80));
+}
+
+/**
+ * Logs the scheduled workflows that start together, the busiest start and the
+ * suggested staggered minutes
+ * @param schedule The weekly timeline of the scheduled workflows
+ * @param issues The exceeded scheduled limits
+ */
+function logSchedule(schedule: ScheduleOverlap, issues: ValidationIssue[]): void {
+  const peak = schedule.peak as ScheduledStart;
+  Logger.group(`🕒 Scheduled workflows (${peak.count} at ${peak.at} UTC)`);
+
+  schedule.starts
+    .filter(start => start.workflows.length > 1)
+    .forEach(start => {
+      Logger.info(`${start.at} UTC (${start.occurrences}× a week): ${start.count} parallel jobs ` +
+        `(${start.workflows.join(', ')})`);
+    });
+  schedule.suggestions.forEach(suggestion => {
+    Logger.info(`💡 ${suggestion.file}: '${suggestion.cron}' could run at '${suggestion.suggested}'`);
+  });
+  issues.forEach(issue => Logger.error(issue.message));
+
+  Logger.endGroup();
+}
+
+/**
+ * Logs the chains of workflows starting each other, with their combined peaks,
+ * and the loops among them
+ * @param pipelines The cross-file trigger graph
+ * @param issues The loops, as issues
+ */
+function logPipelines(pipelines: PipelineGraph, issues: ValidationIssue[]): void {
+  const busiest = pipelines.pipelines[0];
+  Logger.group(`🔗 Workflow pipelines (${busiest ? busiest.count : 0} at peak)`);
+
+  pipelines.pipelines.forEach(pipeline => {
+    Logger.info(`${pipeline.root}: ${pipeline.count} parallel jobs across ${pipeline.workflows.length} workflows`);
+    formatPipelineChains(pipeline).forEach(chain => Logger.info(`  ${chain}`));
+  });
+  issues.forEach(issue => Logger.error(issue.message, toAnnotation(issue.locations?.[0])));
+
+  Logger.endGroup();
+}
+
+/**
+ * Logs the share of the plan's concurrent jobs each workflow and trigger uses
+ * @param capacity The plan's limits and the usage of the workflows
+ */
+function logPlanCapacity(capacity: PlanCapacity): void {
+  Logger.group(`📦 Plan capacity: ${formatPlanLimits(capacity.limits)}`);
+
+  [...capacity.triggers, ...capacity.workflows].forEach(usage => {
+    Logger.info(`${usage.subject}: ${usage.count} of ${capacity.limits.total} jobs (${usage.percent}%)`);
+  });
+  capacity.gpu.forEach(usage => {
+    Logger.info(`${usage.subject}: ${usage.count} of ${capacity.limits.gpu} GPU jobs (${usage.percent}%)`);
+  });
+
+  Logger.endGroup();
+}
+
+/**
+ * Logs the changes since the baseline and the exceeded limits it accepts
+ * @param comparison The comparison with the baseline
+ */
+function logBaselineComparison(comparison: BaselineComparison): void {
+  Logger.group(`📊 Changes against ${comparison.source}`);
+
+  const changed = comparison.workflows.filter(hasChanged);
+  if (changed.length === 0) {
+    Logger.info('No concurrency changes');
+  }
+  changed.forEach(delta => {
+    Logger.info(`${delta.file}: ${formatDelta(delta.before, delta.after)}`);
+    delta.jobs.forEach(job => Logger.info(`  job ${job.job}: ${formatDelta(job.before, job.after)}`));
+  });
+
+  // Accepted limits are still worth seeing, but don't fail the run
+  comparison.accepted.forEach(issue => {
+    Logger.warning(`${issue.message} (not increased since ${comparison.source})`,
+      toAnnotation(issue.locations?.[0]));
+  });
+
+  Logger.endGroup();
+}
+
+/**
+ * Runs the GitHub Action: validates every workflow in the workspace, logs the
+ * results, sets the action outputs and comments on the pull request
+ * @returns The process exit code
+ */
+export async function run(): Promise<number> {
+  const issues: string[] = [];
+  let failOnError = (process.env.INPUT_FAIL_ON_ERROR || 'true') === 'true';
+
+  try {
+    const inputs = getInputs();
+    failOnError = inputs.failOnError;
+
+    const config = loadConfig(inputs.workspace, inputs.configPath);
+    const plan = resolvePlanLimits({ plan: inputs.plan, config });
+    const maxConcurrency = inputs.maxConcurrency ?? config?.defaults.maxConcurrency ?? plan?.total ??
+      DEFAULT_MAX_CONCURRENCY;
+    const maxTotalConcurrency = inputs.maxTotalConcurrency ?? config?.defaults.maxTotalConcurrency ?? plan?.total;
+
+    const workflowPath = path.join(inputs.workspace, inputs.workflowDir);
+    const workflowFiles = glob.sync(`${workflowPath}/**/*.{yml,yaml}`);
+
+    Logger.notice(`Found ${workflowFiles.length} workflow files to validate`);
+    if (config) {
+      Logger.info(`Using config with ${config.workflows.length} workflow overrides`);
+    }
+    if (plan) {
+      Logger.info(`Using the limits of the ${formatPlanLimits(plan)} plan`);
+    }
+    Logger.info('Maximum allowed parallel jobs per workflow: ' + maxConcurrency);
+    Logger.info('─'.repeat(80));
+
+    if (workflowFiles.length === 0) {
+      Logger.warning(`No workflow files found in ${workflowPath}`);
+    }
+
+    const workflows = workflowFiles.map(file => ({
+      file: path.relative(inputs.workspace, file),
+      content: fs.readFileSync(file, 'utf8')
+    }));
+    const options = {
+      maxConcurrency: inputs.maxConcurrency,
+      maxTotalConcurrency: inputs.maxTotalConcurrency,
+      maxScheduledConcurrency: inputs.maxScheduledConcurrency,
+      maxCost: inputs.maxCost,
+      runnerLimits: inputs.runnerLimits,
+      // Multipliers only matter for the cost, so giving them turns it on
+      cost: inputs.costMultipliers.length > 0,
+      costMultipliers: inputs.costMultipliers,
+      plan: inputs.plan,
+      workspace: inputs.workspace,
+      config,
+      durations: inputs.durationsFile ? loadDurations(inputs.workspace, inputs.durationsFile) : undefined,
+      peak: inputs.peak,
+      event: inputs.event
+    };
+    let report = validateWorkflows(workflows, options);
+
+    // Only new violations and increases fail when there is a baseline
+    if (inputs.baselineRef) {
+      const baseline = loadGitBaseline(inputs.workspace, inputs.baselineRef,
+        workflows.map(workflow => workflow.file), options);
+      report = compareWithBaseline(report, baseline, inputs.baselineRef);
+    } else if (inputs.baselineFile) {
+      report = compareWithBaseline(report, loadBaselineFile(inputs.workspace, inputs.baselineFile),
+        inputs.baselineFile);
+    }
+
+    report.ignored.forEach(file => Logger.info(`⏭️ ${file} is ignored by the config`));
+
+    report.issues
+      .filter(issue => issue.type === 'parse-error')
+      .forEach(issue => Logger.error(formatIssue(issue), toAnnotation(issue.locations?.[0])));
+
+    report.workflows.forEach(result => {
+      logWorkflowResult(result, report.issues.filter(issue => issue.file === result.file));
+    });
+
+    if (report.triggers.length > 0) {
+      Logger.group(`⚡ Concurrency by trigger (${report.totalConcurrency} at peak)`);
+      report.triggers.forEach(trigger => {
+        Logger.info(`${trigger.trigger}: ${trigger.count} parallel jobs (${trigger.workflows.join(', ')})`);
+      });
+      report.issues
+        .filter(issue => issue.type === 'total-concurrency-limit')
+        .forEach(issue => Logger.error(issue.message));
+      Logger.endGroup();
+    }
+
+    if (report.schedule.peak) {
+      logSchedule(report.schedule, report.issues.filter(issue => issue.type === 'schedule-limit'));
+    }
+
+    if (report.pipelines.edges.length > 0) {
+      logPipelines(report.pipelines, report.issues.filter(issue => issue.type === 'pipeline-cycle'));
+    }
+
+    if (report.plan) {
+      logPlanCapacity(report.plan);
+    }
+
+    if (report.baseline) {
+      logBaselineComparison(report.baseline);
+    }
+
+    issues.push(...report.issues.map(formatIssue));
+
+    // Final summary
+    Logger.group('🔍 Validation Summary');
+    Logger.info(`\nTotal workflows analyzed: ${workflowFiles.length}`);
+    Logger.info(`Workflows with issues: ${issues.length}`);
+
+    // Issues were annotated where they were found, so they are only listed here
+    if (issues.length > 0) {
+      Logger.info('\nIssues found:');
+      issues.forEach(issue => Logger.info(`- ${issue}`));
+    }
+
+    if (report.passed) {
+      Logger.success('\nAll workflows passed validation!');
+    } else {
+      Logger.fail('\nSome workflows have too many parallel jobs.');
+    }
+    Logger.endGroup();
+
+    if (inputs.sarifFile) {
+      const sarifPath = path.resolve(inputs.workspace, inputs.sarifFile);
+      fs.mkdirSync(path.dirname(sarifPath), { recursive: true });
+      fs.writeFileSync(sarifPath, JSON.stringify(createSarifLog(report), null, 2));
+      Logger.info(`SARIF report written to ${sarifPath}`);
+      setOutput('sarif_file', sarifPath);
+    }
+
+    if (inputs.dotFile) {
+      const dotPath = path.resolve(inputs.workspace, inputs.dotFile);
+      fs.mkdirSync(path.dirname(dotPath), { recursive: true });
+      fs.writeFileSync(dotPath, `${report.workflows.map(renderDotGraph).join('\n\n')}\n`);
+      Logger.info(`Job graphs written to ${dotPath}`);
+    }
+
+    if (process.env.GITHUB_STEP_SUMMARY) {
+      fs.appendFileSync(process.env.GITHUB_STEP_SUMMARY, createStepSummary(report));
+    }
+
+    // Set outputs for GitHub Actions
+    setOutput('validation_passed', report.passed.toString());
+    setOutput('workflow_results', JSON.stringify(report.workflows));
+    setOutput('issues', JSON.stringify(issues));
+    setOutput('total_concurrency', report.totalConcurrency.toString());
+    setOutput('scheduled_concurrency', (report.schedule.peak?.count ?? 0).toString());
+    setOutput('pipeline_concurrency', (report.pipelines.pipelines[0]?.count ?? 0).toString());
+    setOutput('trigger_concurrency', JSON.stringify(report.triggers));
+    if (report.plan) {
+      setOutput('plan_capacity', JSON.stringify(report.plan));
+    }
+    // Add validation_result output with the format expected by the PR comment
+    setOutput('validation_result', JSON.stringify({
+      passed: report.passed,
+      total: report.totalConcurrency,
+      max: maxConcurrency,
+      max_total: maxTotalConcurrency,
+      issues: issues
+    }));
+
+    // A failed comment shouldn't hide the validation result
+    const pullRequest = inputs.commentOnPr ? getPullRequestContext() : undefined;
+    if (pullRequest) {
+      try {
+        const action = await updatePullRequestComment(pullRequest, report);
+        Logger.info(`Pull request comment ${action}`);
+      } catch (error) {
+        Logger.warning(`Could not comment on pull request #${pullRequest.number}: ${(error as Error).message}`);
+      }
+    }
+
+    return !report.passed && failOnError ? 1 : 0;
+
+  } catch (error) {
+    Logger.error(`Fatal error: ${(error as Error).message}`);
+    issues.push(`Fatal error: ${(error as Error).message}`);
+    setOutput('validation_passed', 'false');
+    setOutput('workflow_results', '[]');
+    setOutput('issues', JSON.stringify(issues));
+    setOutput('total_concurrency', '0');
+    setOutput('scheduled_concurrency', '0');
+    setOutput('pipeline_concurrency', '0');
+    setOutput('trigger_concurrency', '[]');
+
+    return failOnError ? 1 : 0;
+  }
+}
@@ -0,0 +1,504 @@
+import {
+  calculateLevelConcurrency,
+  calculatePeakConcurrency,
+  getJobConcurrency
+} from './concurrency';
+import { isIgnoredWorkflow, resolveWorkflowLimits } from './config';
+import { calculateWorkflowCost } from './cost';
+import { calculateScheduleOverlap } from './cron';
+import { applyMatrixSizeHints, getJobDirectives, parseDirectives } from './directives';
+import { findSkippedJobs, resolveMatrixExpressions } from './events';
+import { getJobLocation, getWorkflowFindings } from './findings';
+import { calculateMatrixSize, getMatrixConfidence, getMatrixProviders, isMatrixSizeGuessed } from './matrix';
+import { attributeCalledWorkflows, inlineReusableWorkflows } from './reusable-workflows';
+import { checkRules, resolveRules } from './rules';
+import { calculatePipelines } from './pipelines';
+import { calculatePlanCapacity, resolvePlanLimits } from './plans';
+import { calculateRunnerConcurrency, getJobRunnerLabels } from './runners';
+import { getJobDuration, simulateWorkflow } from './simulation';
+import { calculateTriggerConcurrency, getWorkflowTriggers } from './triggers';
+import {
+  AnalysisOptions,
+  ConcurrencyDetail,
+  JobConcurrency,
+  JobPositions,
+  SkippedJob,
+  Suppression,
+  ValidationIssue,
+  ValidationReport,
+  WorkflowFile,
+  WorkflowSource,
+  WorkflowTrigger,
+  WorkflowValidationResult
+} from './types';
+import { createWorkspaceLoader, ParsedWorkflow, parseWorkflowSource } from './workflow-files';
+import { findJobPositions } from './yaml-source';
+
+// Default maximum number of parallel jobs per workflow
+export const DEFAULT_MAX_CONCURRENCY = 10;
+
+/**
+ * Analyze a workflow to determine the maximum number of parallel jobs
+ * @param workflow The workflow definition, as YAML content or an already-parsed object
+ * @param relativeFilePath The relative path to the workflow file
+ * @param options Limits, repository config and workflow resolution settings
+ * @returns The validation result
+ */
+export function analyzeWorkflow(
+  workflow: WorkflowFile | string,
+  relativeFilePath: string,
+  options: AnalysisOptions = {}
+): WorkflowValidationResult {
+  return analyzeParsedWorkflow(parseWorkflowSource(workflow), relativeFilePath, options);
+}
+
+/**
+ * Analyze a parsed workflow to determine the maximum number of parallel jobs
+ * @param source The workflow definition, with the keys of its YAML source
+ * @param relativeFilePath The relative path to the workflow file
+ * @param options Limits, repository config and workflow resolution settings
+ * @returns The validation result
+ */
+function analyzeParsedWorkflow(
+  source: ParsedWorkflow,
+  relativeFilePath: string,
+  options: AnalysisOptions
+): WorkflowValidationResult {
+  const parsed = source.workflow;
+  const limits = resolveWorkflowLimits(options, relativeFilePath);
+  const maxConcurrency = limits.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY;
+
+  if (!parsed.jobs) {
+    return {
+      file: relativeFilePath,
+      concurrencyCount: 0,
+      maxConcurrency,
+      peakJobs: [],
+      runners: [],
+      jobs: [],
+      suppressions: [],
+      skippedJobs: [],
+      unresolvedMatrices: [],
+      cyclicJobs: [],
+      matrixSizes: {},
+      dependencies: {},
+      jobPositions: {},
+      warnings: [],
+      passed: true,
+      details: []
+    };
+  }
+
+  // Inline comments can only be read from the YAML source
+  const warnings: string[] = [];
+  const directives = parseDirectives(source.keys, warnings);
+
+  // Inline the jobs of called reusable workflows into this workflow's job graph
+  const loadWorkflow = options.loadWorkflow || createWorkspaceLoader(options.workspace || process.cwd());
+  let jobs = inlineReusableWorkflows(applyMatrixSizeHints(parsed.jobs, directives), [relativeFilePath], {
+    loadWorkflow,
+    matrixProviders: getMatrixProviders(parsed, loadWorkflow),
+    warnings
+  });
+  const details: ConcurrencyDetail[] = [];
+
+  // Jobs that don't run for the analyzed event are left out of the job graph
+  let skippedJobs: SkippedJob[] = [];
+  if (options.event) {
+    skippedJobs = findSkippedJobs(jobs, parsed.jobs, options.event, warnings);
+    const skipped = new Set(skippedJobs.map(job => job.job));
+    jobs = resolveMatrixExpressions(Object.fromEntries(Object.entries(jobs)
+      .filter(([jobKey]) => !skipped.has(jobKey))
+      .map(([jobKey, job]) => [jobKey, job.needs
+        ? { ...job, needs: (Array.isArray(job.needs) ? job.needs : [job.needs]).filter(need => !skipped.has(need)) }
+        : job])), options.event);
+  }
+
+  // Find all matrix providers in the workflow
+  const matrixProviders = getMatrixProviders({ ...parsed, jobs }, loadWorkflow);
+
+  // Build dependency graph
+  const dependencyMap = new Map<string, Set<string>>();
+  Object.keys(jobs).forEach(jobKey => {
+    dependencyMap.set(jobKey, new Set());
+  });
+
+  Object.entries(jobs).forEach(([jobKey, job]) => {
+    if (job.needs) {
+      const needs = Array.isArray(job.needs) ? job.needs : [job.needs];
+      needs.forEach(need => {
+        dependencyMap.get(jobKey)?.add(need);
+      });
+    }
+  });
+
+  // Group jobs by execution level (jobs that can run in parallel)
+  const jobLevels: string[][] = [];
+  const cyclicJobs: string[] = [];
+  const remainingJobs = new Set(Object.keys(jobs));
+
+  while (remainingJobs.size > 0) {
+    const currentLevel = Array.from(remainingJobs).filter(job => {
+      const deps = dependencyMap.get(job);
+      return deps && Array.from(deps).every(dep => !remainingJobs.has(dep));
+    });
+
+    if (currentLevel.length === 0 && remainingJobs.size > 0) {
+      // This means we have a cycle in the dependency graph, reported as a finding
+      cyclicJobs.push(...remainingJobs);
+      break;
+    }
+
+    jobLevels.push(currentLevel);
+    currentLevel.forEach(job => remainingJobs.delete(job));
+  }
+
+  // Suppressed jobs keep their place in the graph but don't count. A job with a
+  // `max=N` comment is held to its own limit, and counts as at most N executions.
+  const suppressions: Suppression[] = [];
+  const jobLimits = new Map<string, number>();
+  const jobConcurrency: JobConcurrency[] = jobLevels.flat().map(jobKey => {
+    const jobConfig = limits.getJobConfig(jobKey);
+    const directive = getJobDirectives(directives, jobKey);
+    const fromComment = { source: 'comment' as const, line: directive?.line, reason: directive?.reason };
+
+    if (directive?.ignore) {
+      suppressions.push({ job: jobKey, directive: 'ignore', ...fromComment });
+    }
+    if (directive?.max !== undefined) {
+      suppressions.push({ job: jobKey, directive: `max=${directive.max}`, ...fromComment });
+      jobLimits.set(jobKey, directive.max);
+    }
+    if (jobConfig.ignore && !directive?.ignore) {
+      suppressions.push({ job: jobKey, directive: 'ignore', source: 'config' });
+    }
+
+    const limit = directive?.max ?? jobConfig.maxConcurrency;
+    return {
+      job: jobKey,
+      count: getJobConcurrency(jobs[jobKey], matrixProviders),
+      ...(limit !== undefined ? { limit } : {}),
+      runsOn: getJobRunnerLabels(jobs[jobKey], matrixProviders),
+      confidence: getMatrixConfidence(jobs[jobKey], matrixProviders),
+      ...(directive?.ignore || jobConfig.ignore ? { ignored: true } : {})
+    };
+  });
+  const ignoredJobs = new Set(jobConcurrency.filter(job => job.ignored).map(job => job.job));
+
+  // Record each level of jobs that can start together
+  jobLevels
+    .map(level => level.filter(jobKey => !ignoredJobs.has(jobKey)))
+    .filter(level => level.length > 0)
+    .forEach(level => {
+      const { count, caps, matrixSizes } = calculateLevelConcurrency(level, jobs, matrixProviders, jobLimits);
+      const calledWorkflows = attributeCalledWorkflows(level, jobs, matrixProviders);
+
+      details.push({
+        file: relativeFilePath,
+        jobs: level,
+        count,
+        matrixSizes,
+        counted: true,
+        ...(caps.length > 0 ? { caps } : {}),
+        ...(calledWorkflows.length > 0 ? { calledWorkflows } : {})
+      });
+    });
+
+  // Jobs that overlap across levels are found on the full dependency graph
+  const jobKeys = jobLevels.flat().filter(jobKey => !ignoredJobs.has(jobKey));
+  const peak = calculatePeakConcurrency(jobKeys, jobs, dependencyMap,
+    (jobKey, job) => Math.min(getJobConcurrency(job, matrixProviders), jobLimits.get(jobKey) ?? Infinity));
+
+  // Typical runtimes give a more realistic peak than the worst case
+  const simulation = options.durations || options.peak === 'simulated'
+    ? simulateWorkflow(jobLevels.flat(), new Set(jobKeys), jobs, dependencyMap, matrixProviders,
+      (jobKey, job) => getJobDuration(options.durations, relativeFilePath, jobKey, job), peak, jobLimits)
+    : undefined;
+  const validatedPeak = simulation && options.peak === 'simulated'
+    ? { count: simulation.peak, jobs: simulation.peakJobs }
+    : peak;
+
+  // Break the peak down by runner label and check the per-label limits
+  const runners = calculateRunnerConcurrency(jobKeys, jobs, dependencyMap, matrixProviders, limits.runnerLimits,
+    jobLimits);
+
+  // Suppressed jobs are still billed, so every job that runs adds to the cost
+  const cost = options.cost || limits.maxCost !== undefined
+    ? calculateWorkflowCost(jobLevels.flat(), jobs, matrixProviders, limits.costMultipliers, limits.maxCost)
+    : undefined;
+
+  // Inlined jobs are located at the job calling their workflow
+  const jobPositions: Record<string, JobPositions> = {};
+  const positions = findJobPositions(source.keys);
+  Object.keys(jobs).forEach(jobKey => {
+    const position = positions[jobKey] || positions[jobKey.split('/')[0]];
+    if (position) {
+      jobPositions[jobKey] = position;
+    }
+  });
+
+  const result: WorkflowValidationResult = {
+    file: relativeFilePath,
+    concurrencyCount: validatedPeak.count,
+    maxConcurrency,
+    peakJobs: validatedPeak.jobs,
+    runners,
+    jobs: jobConcurrency,
+    suppressions,
+    skippedJobs,
+    unresolvedMatrices: jobLevels.flat().filter(jobKey => isMatrixSizeGuessed(jobs[jobKey], matrixProviders)),
+    cyclicJobs,
+    matrixSizes: Object.fromEntries(Object.keys(jobs)
+      .map(jobKey => [jobKey, calculateMatrixSize(jobs[jobKey], matrixProviders)])),
+    dependencies: Object.fromEntries(Array.from(dependencyMap, ([jobKey, deps]) => [jobKey, Array.from(deps)])),
+    jobPositions,
+    ...(simulation ? { simulation } : {}),
+    ...(cost ? { cost } : {}),
+    warnings,
+    passed: validatedPeak.count <= maxConcurrency &&
+      runners.every(runner => runner.limit === undefined || runner.count <= runner.limit) &&
+      jobConcurrency.every(job => job.limit === undefined || job.count <= job.limit) &&
+      (cost?.limit === undefined || cost.minutes <= cost.limit),
+    details
+  };
+
+  // GitHub rejects workflows with structural errors, whatever their concurrency
+  result.passed = result.passed && getWorkflowFindings(result).every(finding => finding.severity !== 'error');
+  return result;
+}
+
+/**
+ * Order the jobs making up a peak so that the job that pushes it over the limit
+ * comes first, when adding up their executions in order
+ * @param jobKeys The jobs making up the peak
+ * @param counts The number of executions of each job
+ * @param limit The exceeded limit
+ * @returns The jobs, starting with the one that crosses the limit
+ */
+function orderByOverflow(jobKeys: string[], counts: Map<string, number>, limit: number): string[] {
+  let total = 0;
+  const index = jobKeys.findIndex(jobKey => {
+    total += counts.get(jobKey) ?? 1;
+    return total > limit;
+  });
+  if (index <= 0) {
+    return jobKeys;
+  }
+  return [jobKeys[index], ...jobKeys.filter((_, other) => other !== index)];
+}
+
+/**
+ * Validate a set of workflows against the per-workflow, per-runner, per-job,
+ * cost, per-trigger and scheduled limits. Findings and violations of policy rules with the `error`
+ * severity are reported as issues too.
+ * @param workflows The workflows to validate
+ * @param options Limits, repository config, policy rules and workflow resolution settings
+ * @returns The validation report
+ * @throws {Error} If a rule module can't be loaded or the config sets a rule that doesn't exist
+ */
+export function validateWorkflows(workflows: WorkflowSource[], options: AnalysisOptions = {}): ValidationReport {
+  const results: WorkflowValidationResult[] = [];
+  const ignored: string[] = [];
+  const issues: ValidationIssue[] = [];
+  const triggeredWorkflows: { result: WorkflowValidationResult; workflow: WorkflowFile; triggers: WorkflowTrigger[] }[] = [];
+  const rules = resolveRules(options);
+
+  workflows.forEach(({ file, content }) => {
+    if (isIgnoredWorkflow(options.config, file)) {
+      ignored.push(file);
+      return;
+    }
+
+    let source: ParsedWorkflow;
+    let result: WorkflowValidationResult;
+    try {
+      // The keys of the YAML source are passed on for their inline comments and positions
+      source = parseWorkflowSource(content);
+      result = analyzeParsedWorkflow(source, file, options);
+    } catch (error) {
+      // YAML syntax errors carry the 0-based position of the problem
+      const { mark, reason } = error as { mark?: { line: number; column: number }; reason?: string };
+      issues.push({
+        type: 'parse-error',
+        file,
+        message: mark && reason
+          ? `YAML syntax error: ${reason}`
+          : `Error processing workflow: ${(error as Error).message}`,
+        locations: [{ file, ...(mark ? { position: { line: mark.line + 1, column: mark.column + 1 } } : {}) }]
+      });
+      return;
+    }
+
+    const counts = new Map(result.jobs.map(job => [job.job, job.count]));
+
+    if (result.concurrencyCount > result.maxConcurrency) {
+      issues.push({
+        type: 'concurrency-limit',
+        file,
+        message: `Workflow has too many parallel jobs (${result.concurrencyCount} > ${result.maxConcurrency})`,
+        locations: orderByOverflow(result.peakJobs, counts, result.maxConcurrency)
+          .map(job => getJobLocation(result, job))
+      });
+    }
+
+    result.runners
+      .filter(runner => runner.limit !== undefined && runner.count > runner.limit)
+      .forEach(runner => {
+        issues.push({
+          type: 'runner-limit',
+          file,
+          subject: runner.label,
+          message: `Workflow has too many parallel jobs on '${runner.label}' runners (${runner.count} > ${runner.limit})`,
+          locations: orderByOverflow(runner.jobs, counts, runner.limit as number)
+            .map(job => getJobLocation(result, job))
+        });
+      });
+
+    result.jobs
+      .filter(job => job.limit !== undefined && job.count > job.limit)
+      .forEach(job => {
+        issues.push({
+          type: 'job-limit',
+          file,
+          subject: job.job,
+          message: `Job '${job.job}' has too many parallel executions (${job.count} > ${job.limit})`,
+          locations: [getJobLocation(result, job.job, 'matrix')]
+        });
+      });
+
+    if (result.cost?.limit !== undefined && result.cost.minutes > result.cost.limit) {
+      issues.push({
+        type: 'cost-limit',
+        file,
+        message: `Workflow can bill too many minutes per run (${result.cost.minutes} > ${result.cost.limit})`,
+        locations: result.cost.jobs.filter(job => job.cost > 0).map(job => getJobLocation(result, job.job))
+      });
+    }
+
+    getWorkflowFindings(result)
+      .filter(finding => finding.severity === 'error')
+      .forEach(finding => {
+        issues.push({
+          type: 'invalid-workflow',
+          file,
+          subject: finding.type,
+          message: finding.message,
+          locations: finding.locations
+        });
+      });
+
+    const { workflow } = source;
+    const triggers = getWorkflowTriggers(workflow);
+    if (rules.length > 0) {
+      result.violations = checkRules(rules, workflow, result, triggers);
+      result.passed = result.passed && result.violations.every(violation => violation.severity !== 'error');
+      result.violations
+        .filter(violation => violation.severity === 'error')
+        .forEach(violation => {
+          issues.push({
+            type: 'rule-violation',
+            file,
+            subject: violation.rule,
+            message: violation.message,
+            locations: violation.locations
+          });
+        });
+    }
+
+    results.push(result);
+    triggeredWorkflows.push({ result, workflow, triggers });
+  });
+
+  // Workflows started by the same event run at the same time
+  const triggers = calculateTriggerConcurrency(triggeredWorkflows);
+  const totalConcurrency = triggers.length > 0 ? triggers[0].count : 0;
+  const plan = resolvePlanLimits(options);
+  const maxTotalConcurrency = options.maxTotalConcurrency ?? options.config?.defaults.maxTotalConcurrency ??
+    plan?.total;
+
+  if (maxTotalConcurrency !== undefined) {
+    triggers
+      .filter(trigger => trigger.count > maxTotalConcurrency)
+      .forEach(trigger => {
+        issues.push({
+          type: 'total-concurrency-limit',
+          subject: trigger.trigger,
+          message: `Total concurrency for ${trigger.trigger} (${trigger.count}) exceeds maximum allowed (${maxTotalConcurrency})`,
+          locations: trigger.workflows.map(file => ({ file }))
+        });
+      });
+  }
+
+  // Scheduled workflows starting at the same minute pile up, whatever their crons look like
+  const schedule = calculateScheduleOverlap(triggeredWorkflows);
+  const maxScheduledConcurrency = options.maxScheduledConcurrency ?? options.config?.defaults.maxScheduledConcurrency;
+
+  if (maxScheduledConcurrency !== undefined) {
+    schedule.starts
+      .filter(start => start.count > maxScheduledConcurrency)
+      .forEach(start => {
+        issues.push({
+          type: 'schedule-limit',
+          subject: start.at,
+          message: `Scheduled workflows starting at ${start.at} UTC have too many parallel jobs ` +
+            `(${start.count} > ${maxScheduledConcurrency})`,
+          locations: start.workflows.map(file => ({ file }))
+        });
+      });
+  }
+
+  // Workflows that start each other in a loop never stop on their own
+  const pipelines = calculatePipelines(triggeredWorkflows);
+  const resultsByFile = new Map(results.map(result => [result.file, result]));
+  pipelines.cycles.forEach(cycle => {
+    issues.push({
+      type: 'pipeline-cycle',
+      subject: cycle.join(' → '),
+      message: `Workflows start each other in a loop: ${cycle.join(' → ')}`,
+      // Dispatches point at the job that dispatches, workflow_run at the workflow it starts
+      locations: cycle.slice(0, -1).map((file, index) => {
+        const next = cycle[index + 1];
+        const job = pipelines.edges.find(edge => edge.from === file && edge.to === next)?.job;
+        const result = resultsByFile.get(file);
+        return job !== undefined && result ? getJobLocation(result, job) : { file: next };
+      })
+    });
+  });
+
+  return {
+    passed: !issues.some(issue => issue.type !== 'parse-error'),
+    workflows: results,
+    ignored,
+    triggers,
+    totalConcurrency,
+    schedule,
+    pipelines,
+    ...(plan ? { plan: calculatePlanCapacity(plan, results, triggers) } : {}),
+    ...(rules.length > 0
+      ? { rules: rules.map(({ rule, severity }) => ({ id: rule.id, description: rule.description, severity })) }
+      : {}),
+    issues
+  };
+}
+
+/**
+ * Describe a suppression as a single line
+ * @param suppression The suppression to describe
+ * @returns The description, with the suppression's reason
+ */
+export function formatSuppression(suppression: Suppression): string {
+  const origin = suppression.source === 'config'
+    ? 'in the config'
+    : `in a comment${suppression.line !== undefined ? ` on line ${suppression.line}` : ''}`;
+  const reason = suppression.reason ? `: ${suppression.reason}` : ' (no reason given)';
+  return `Job '${suppression.job}' suppressed by ${suppression.directive} ${origin}${reason}`;
+}
+
+/**
+ * Format an issue as a single line, prefixed with its file
+ * @param issue The issue to format
+ * @returns The formatted issue
+ */
+export function formatIssue(issue: ValidationIssue): string {
+  return issue.file ? `${issue.file}: ${issue.message}` : issue.message;
+}
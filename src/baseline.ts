@@ -0,0 +1,260 @@
+import { execFileSync } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { validateWorkflows } from './analyze';
+import {
+  AnalysisOptions,
+  Baseline,
+  BaselineWorkflow,
+  ValidationIssue,
+  ValidationReport,
+  WorkflowDelta,
+  WorkflowLoader,
+  WorkflowSource
+} from './types';
+
+/**
+ * Record the concurrency of every workflow, job, runner label, trigger and
+ * scheduled start of a report, and the cost of the workflows whose cost was analyzed
+ * @param report The validation report
+ * @returns The baseline, as written to a baseline file
+ */
+export function createBaseline(report: ValidationReport): Baseline {
+  const workflows: Record<string, BaselineWorkflow> = {};
+  report.workflows.forEach(result => {
+    workflows[result.file] = {
+      concurrencyCount: result.concurrencyCount,
+      jobs: Object.fromEntries(result.jobs.map(job => [job.job, job.count])),
+      runners: Object.fromEntries(result.runners.map(runner => [runner.label, runner.count])),
+      ...(result.cost ? { cost: result.cost.minutes } : {})
+    };
+  });
+
+  return {
+    workflows,
+    triggers: Object.fromEntries(report.triggers.map(trigger => [trigger.trigger, trigger.count])),
+    schedule: Object.fromEntries(report.schedule.starts.map(start => [start.at, start.count]))
+  };
+}
+
+/**
+ * Check that a value is a mapping of names to counts
+ * @param value The value to check
+ * @returns Whether every value of the mapping is a non-negative integer
+ */
+function isCountMap(value: unknown): value is Record<string, number> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) &&
+    Object.values(value).every(count => Number.isInteger(count) && count >= 0);
+}
+
+/**
+ * Parse and validate the content of a baseline file
+ * @param content The JSON content
+ * @param file The path of the file, for error messages
+ * @returns The baseline
+ * @throws {Error} If the file isn't valid JSON or doesn't look like a baseline
+ */
+export function parseBaseline(content: string, file: string): Baseline {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid baseline file ${file}: ${(error as Error).message}`);
+  }
+
+  const { workflows, triggers = {}, schedule = {} } =
+    (typeof data === 'object' && data !== null ? data : {}) as Partial<Baseline>;
+  const valid = typeof workflows === 'object' && workflows !== null && isCountMap(triggers) && isCountMap(schedule) &&
+    Object.values(workflows).every(workflow => Number.isInteger(workflow?.concurrencyCount) &&
+      isCountMap(workflow.jobs ?? {}) && isCountMap(workflow.runners ?? {}) &&
+      (workflow.cost === undefined || (typeof workflow.cost === 'number' && workflow.cost >= 0)));
+  if (!valid) {
+    throw new Error(`Invalid baseline file ${file}: expected workflows with their concurrencyCount, jobs and runners`);
+  }
+
+  const normalized: Record<string, BaselineWorkflow> = {};
+  Object.entries(workflows as Record<string, BaselineWorkflow>).forEach(([workflowFile, workflow]) => {
+    normalized[workflowFile] = {
+      concurrencyCount: workflow.concurrencyCount,
+      jobs: workflow.jobs ?? {},
+      runners: workflow.runners ?? {},
+      ...(workflow.cost !== undefined ? { cost: workflow.cost } : {})
+    };
+  });
+  return { workflows: normalized, triggers, schedule };
+}
+
+/**
+ * Read a committed baseline file
+ * @param workspace The repository root
+ * @param file Path of the baseline file, relative to the repository root
+ * @returns The baseline
+ * @throws {Error} If the file doesn't exist or isn't a valid baseline
+ */
+export function loadBaselineFile(workspace: string, file: string): Baseline {
+  const filePath = path.resolve(workspace, file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Baseline file ${file} not found`);
+  }
+  return parseBaseline(fs.readFileSync(filePath, 'utf8'), file);
+}
+
+/**
+ * Read a file at a git ref
+ * @param workspace The repository checkout
+ * @param ref The git ref
+ * @param relativeFilePath Path of the file, relative to the workspace
+ * @returns The content, or undefined if the file doesn't exist at the ref
+ */
+function gitShow(workspace: string, ref: string, relativeFilePath: string): string | undefined {
+  try {
+    return execFileSync('git', ['show', `${ref}:./${relativeFilePath.replace(/\\/g, '/')}`], {
+      cwd: workspace,
+      encoding: 'utf8',
+      stdio: ['ignore', 'pipe', 'ignore'],
+      maxBuffer: 16 * 1024 * 1024
+    });
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Create a loader that reads reusable workflows at a git ref
+ * @param workspace The repository checkout
+ * @param ref The git ref
+ * @returns A loader resolving paths relative to the workspace
+ */
+export function createGitLoader(workspace: string, ref: string): WorkflowLoader {
+  return relativeFilePath => gitShow(workspace, ref, relativeFilePath);
+}
+
+/**
+ * Analyze the same workflows as they are at a git ref, e.g. the base branch of a
+ * pull request. Workflows that don't exist at the ref are left out, so their
+ * limits are checked as new.
+ * @param workspace The repository checkout
+ * @param ref The git ref
+ * @param files Relative paths of the workflows
+ * @param options The options the current workflows are analyzed with
+ * @returns The baseline at the ref
+ * @throws {Error} If the ref can't be found in the checkout
+ */
+export function loadGitBaseline(workspace: string, ref: string, files: string[], options: AnalysisOptions): Baseline {
+  try {
+    execFileSync('git', ['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], {
+      cwd: workspace,
+      stdio: 'ignore'
+    });
+  } catch {
+    throw new Error(`Baseline ref ${ref} not found; make sure it's fetched, e.g. with fetch-depth: 0`);
+  }
+
+  const workflows: WorkflowSource[] = [];
+  files.forEach(file => {
+    const content = gitShow(workspace, ref, file);
+    if (content !== undefined) {
+      workflows.push({ file, content });
+    }
+  });
+
+  return createBaseline(validateWorkflows(workflows, {
+    ...options,
+    workspace,
+    loadWorkflow: createGitLoader(workspace, ref)
+  }));
+}
+
+/**
+ * Find the concurrency an issue is about in a baseline
+ * @param baseline The baseline
+ * @param issue The issue
+ * @returns The concurrency or cost, or undefined when the workflow, job, runner label, trigger or
+ * scheduled start is new
+ */
+function getBaselineCount(baseline: Baseline, issue: ValidationIssue): number | undefined {
+  const workflow = issue.file !== undefined ? baseline.workflows[issue.file] : undefined;
+  switch (issue.type) {
+    case 'concurrency-limit':
+      return workflow?.concurrencyCount;
+    case 'job-limit':
+      return workflow?.jobs[issue.subject as string];
+    case 'runner-limit':
+      return workflow?.runners[issue.subject as string];
+    case 'cost-limit':
+      return workflow?.cost;
+    case 'total-concurrency-limit':
+      return baseline.triggers[issue.subject as string];
+    case 'schedule-limit':
+      return baseline.schedule[issue.subject as string];
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Compare a report with a baseline, so that only new violations and increases
+ * fail validation. Limits that were already exceeded at least as much in the
+ * baseline are moved to the accepted issues.
+ * @param report The validation report
+ * @param baseline The baseline
+ * @param source The git ref or file the baseline was read from
+ * @returns The report, with its issues reduced to regressions and the changes since the baseline
+ */
+export function compareWithBaseline(report: ValidationReport, baseline: Baseline, source: string): ValidationReport {
+  const current = createBaseline(report);
+  const issues: ValidationIssue[] = [];
+  const accepted: ValidationIssue[] = [];
+
+  report.issues.forEach(issue => {
+    const before = getBaselineCount(baseline, issue);
+    const after = getBaselineCount(current, issue);
+    if (issue.type !== 'parse-error' && before !== undefined && after !== undefined && after <= before) {
+      accepted.push(issue);
+    } else {
+      issues.push(issue);
+    }
+  });
+
+  const workflows: WorkflowDelta[] = report.workflows.map(result => {
+    const before = baseline.workflows[result.file];
+    return {
+      file: result.file,
+      before: before?.concurrencyCount,
+      after: result.concurrencyCount,
+      jobs: result.jobs
+        .filter(job => before?.jobs[job.job] !== job.count)
+        .map(job => ({ job: job.job, before: before?.jobs[job.job], after: job.count }))
+    };
+  });
+
+  return {
+    ...report,
+    passed: !issues.some(issue => issue.type !== 'parse-error'),
+    issues,
+    baseline: { source, workflows, accepted }
+  };
+}
+
+/**
+ * Format a change in concurrency, e.g. `8 → 12 (+4)`
+ * @param before The concurrency in the baseline, undefined when new
+ * @param after The current concurrency
+ * @returns The formatted change
+ */
+export function formatDelta(before: number | undefined, after: number): string {
+  if (before === undefined) {
+    return `new → ${after}`;
+  }
+  const change = after - before;
+  return `${before} → ${after} (${change > 0 ? '+' : change < 0 ? '−' : '±'}${Math.abs(change)})`;
+}
+
+/**
+ * Check whether a workflow's concurrency or any of its jobs changed since the baseline
+ * @param delta The changes of the workflow
+ * @returns Whether anything changed
+ */
+export function hasChanged(delta: WorkflowDelta): boolean {
+  return delta.before !== delta.after || delta.jobs.length > 0;
+}
@@ -0,0 +1,410 @@
+#!/usr/bin/env node
+import fs from 'fs';
+import path from 'path';
+import glob from 'glob';
+import { DEFAULT_MAX_CONCURRENCY, formatIssue, formatSuppression, validateWorkflows } from './analyze';
+import {
+  compareWithBaseline,
+  createBaseline,
+  formatDelta,
+  hasChanged,
+  loadBaselineFile,
+  loadGitBaseline
+} from './baseline';
+import { DEFAULT_CONFIG_PATH, loadConfig } from './config';
+import { formatJobCost } from './cost';
+import { loadEventContext, parseEventContext } from './events';
+import { getWorkflowFindings } from './findings';
+import { renderDotGraph } from './graph';
+import { formatPipelineChains } from './pipelines';
+import { formatPlanLimits, parsePlan } from './plans';
+import { createSarifLog } from './sarif';
+import { formatProfile, loadDurations } from './simulation';
+import { formatMermaidBlock } from './summary';
+import { GitHubPlan, PeakMode, ValidationReport } from './types';
+
+// Exit codes of the command line interface
+export const EXIT_PASSED = 0;
+export const EXIT_LIMIT_EXCEEDED = 1;
+export const EXIT_ERROR = 2;
+
+const USAGE = `Usage: workflow-concurrency-validator [options] [paths or globs...]
+
+Validates that GitHub Actions workflows don't exceed concurrency limits.
+Defaults to .github/workflows when no path is given.
+
+Options:
+  --max <n>          Maximum allowed parallel jobs per workflow
+                     (default: from the config, then the plan, then ${DEFAULT_MAX_CONCURRENCY})
+  --plan <plan>      GitHub plan whose runner limits apply when no other limit is set:
+                     free, pro, team, enterprise or ghes (default: from the config)
+  --max-cost <n>     Maximum allowed worst-case billable minutes per workflow run (default: from the config)
+  --cost             Report the worst-case billable minutes of every workflow, even without a budget
+  --config <path>    Config file with per-workflow and per-job limits (default: ${DEFAULT_CONFIG_PATH}, if it exists)
+  --format <format>  Output format: text, json, sarif, mermaid or dot (default: text)
+  --durations <file> JSON file with typical job runtimes, to simulate the schedule
+  --peak <mode>      Peak to validate against: worst-case or simulated (default: worst-case)
+  --event <name>     Only count the jobs that run for an event, e.g. pull_request
+  --event-context <file>
+                     YAML or JSON file with the github, inputs and vars contexts of the event
+  --baseline-ref <ref>
+                     Only fail on new violations and increases since a git ref, e.g. origin/main
+  --baseline <file>  Only fail on new violations and increases since a baseline file
+  --write-baseline <file>
+                     Write the current concurrency to a baseline file
+  --quiet            Only print issues
+  --help             Show this help
+
+Exit codes:
+  0  All workflows are within their limits
+  1  A concurrency limit is exceeded
+  2  A workflow or the configuration could not be read`;
+
+/**
+ * Represents the parsed command line options
+ */
+interface CliOptions {
+  paths: string[];
+  maxConcurrency?: number;
+  maxCost?: number;
+  cost: boolean;
+  plan?: GitHubPlan;
+  configPath?: string;
+  baselineRef?: string;
+  baselineFile?: string;
+  writeBaseline?: string;
+  durationsFile?: string;
+  peak: PeakMode;
+  event?: string;
+  eventContextFile?: string;
+  format: 'text' | 'json' | 'sarif' | 'mermaid' | 'dot';
+  quiet: boolean;
+  help: boolean;
+}
+
+/**
+ * Parse the command line arguments
+ * @param args The arguments, without the node executable and script path
+ * @returns The parsed options
+ * @throws {Error} If an option is unknown or has an invalid value, or both baselines are given
+ */
+function parseArgs(args: string[]): CliOptions {
+  const options: CliOptions = {
+    paths: [],
+    format: 'text',
+    peak: 'worst-case',
+    cost: false,
+    quiet: false,
+    help: false
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const [flag, inlineValue] = args[i].startsWith('--') ? args[i].split(/=(.*)/s, 2) : [args[i]];
+    const takeValue = (): string => {
+      const value = inlineValue !== undefined ? inlineValue : args[++i];
+      if (value === undefined) {
+        throw new Error(`${flag} requires a value`);
+      }
+      return value;
+    };
+
+    switch (flag) {
+      case '--max': {
+        const value = takeValue();
+        options.maxConcurrency = parseInt(value);
+        if (!/^\d+$/.test(value) || options.maxConcurrency <= 0) {
+          throw new Error('--max must be a positive number');
+        }
+        break;
+      }
+      case '--max-cost': {
+        const value = takeValue();
+        options.maxCost = parseInt(value);
+        if (!/^\d+$/.test(value) || options.maxCost <= 0) {
+          throw new Error('--max-cost must be a positive number');
+        }
+        break;
+      }
+      case '--cost':
+        options.cost = true;
+        break;
+      case '--plan':
+        options.plan = parsePlan(takeValue());
+        break;
+      case '--config':
+        options.configPath = takeValue();
+        break;
+      case '--durations':
+        options.durationsFile = takeValue();
+        break;
+      case '--peak': {
+        const value = takeValue();
+        if (value !== 'worst-case' && value !== 'simulated') {
+          throw new Error(`--peak must be 'worst-case' or 'simulated', got '${value}'`);
+        }
+        options.peak = value;
+        break;
+      }
+      case '--event':
+        options.event = takeValue();
+        break;
+      case '--event-context':
+        options.eventContextFile = takeValue();
+        break;
+      case '--baseline-ref':
+        options.baselineRef = takeValue();
+        break;
+      case '--baseline':
+        options.baselineFile = takeValue();
+        break;
+      case '--write-baseline':
+        options.writeBaseline = takeValue();
+        break;
+      case '--format': {
+        const value = takeValue();
+        if (!['text', 'json', 'sarif', 'mermaid', 'dot'].includes(value)) {
+          throw new Error(`--format must be 'text', 'json', 'sarif', 'mermaid' or 'dot', got '${value}'`);
+        }
+        options.format = value as CliOptions['format'];
+        break;
+      }
+      case '--quiet':
+        options.quiet = true;
+        break;
+      case '--help':
+      case '-h':
+        options.help = true;
+        break;
+      default:
+        if (flag.startsWith('-')) {
+          throw new Error(`Unknown option ${flag}`);
+        }
+        options.paths.push(flag);
+    }
+  }
+
+  if (options.paths.length === 0) {
+    options.paths.push('.github/workflows');
+  }
+  if (options.baselineRef && options.baselineFile) {
+    throw new Error('Only one of --baseline-ref and --baseline can be given');
+  }
+
+  return options;
+}
+
+/**
+ * Resolve paths, directories and globs to workflow files
+ * @param patterns The paths or globs given on the command line
+ * @param cwd The directory relative paths are resolved against
+ * @returns The absolute paths of the workflow files
+ * @throws {Error} If a path or glob doesn't match any workflow file
+ */
+function findWorkflowFiles(patterns: string[], cwd: string): string[] {
+  const files = new Set<string>();
+
+  patterns.forEach(pattern => {
+    const absolute = path.resolve(cwd, pattern);
+    let matches: string[];
+    if (fs.existsSync(absolute) && fs.statSync(absolute).isDirectory()) {
+      matches = glob.sync(`${absolute}/**/*.{yml,yaml}`);
+    } else if (fs.existsSync(absolute)) {
+      matches = [absolute];
+    } else {
+      matches = glob.sync(pattern, { cwd, absolute: true, nodir: true });
+    }
+
+    if (matches.length === 0) {
+      throw new Error(`No workflow files found for ${pattern}`);
+    }
+    matches.forEach(match => files.add(path.resolve(match)));
+  });
+
+  return Array.from(files).sort();
+}
+
+/**
+ * Format a validation report as human-readable text
+ * @param report The validation report
+ * @param quiet Whether to only include issues
+ * @returns The lines of the report
+ */
+function formatTextReport(report: ValidationReport, quiet: boolean): string[] {
+  const lines: string[] = [];
+
+  if (!quiet) {
+    report.workflows.forEach(result => {
+      const peak = result.peakJobs.length > 0 ? ` (${result.peakJobs.join(', ')})` : '';
+      lines.push(`${result.passed ? '✅' : '❌'} ${result.file}: ${result.concurrencyCount} parallel jobs${peak}`);
+      result.jobs
+        .filter(job => job.limit !== undefined)
+        .forEach(job => lines.push(`   job ${job.job}: ${job.count} parallel executions (limit ${job.limit})`));
+      result.runners
+        .filter(runner => runner.limit !== undefined)
+        .forEach(runner => lines.push(`   ${runner.label}: ${runner.count} parallel jobs (limit ${runner.limit})`));
+      if (result.cost) {
+        const budget = result.cost.limit !== undefined ? ` (budget ${result.cost.limit})` : '';
+        lines.push(`   💰 worst-case cost ${result.cost.minutes} billable minutes per run${budget}`);
+        result.cost.jobs.forEach(job => lines.push(`      ${formatJobCost(job)}`));
+      }
+      if (result.simulation) {
+        const { simulation } = result;
+        lines.push(`   ⏱️ simulated peak ${simulation.peak} at minute ${simulation.peakMinute}, ` +
+          `worst case ${simulation.worstCase.count}: ${formatProfile(simulation)}`);
+      }
+      result.suppressions.forEach(suppression => lines.push(`   🔕 ${formatSuppression(suppression)}`));
+      result.skippedJobs.forEach(skipped => lines.push(`   ⏭️ job ${skipped.job} skipped: ${skipped.reason}`));
+      result.warnings.forEach(warning => lines.push(`   ⚠️ ${warning}`));
+      // Errors are listed with the issues
+      getWorkflowFindings(result).filter(finding => finding.severity === 'warning').forEach(finding => {
+        const where = finding.locations
+          .map(location => location.position ? `line ${location.position.line}` : undefined)
+          .filter(line => line !== undefined);
+        lines.push(`   ⚠️ ${finding.message}${where.length > 0 ? ` (${where.join(', ')})` : ''}`);
+      });
+      (result.violations || []).filter(violation => violation.severity === 'warning').forEach(violation => {
+        lines.push(`   ⚠️ ${violation.message} (rule ${violation.rule})`);
+      });
+    });
+    report.ignored.forEach(file => lines.push(`⏭️ ${file}: ignored by the config`));
+
+    if (report.triggers.length > 0) {
+      lines.push('', `Concurrency by trigger (${report.totalConcurrency} at peak):`);
+      report.triggers.forEach(trigger => {
+        lines.push(`  ${trigger.trigger}: ${trigger.count} parallel jobs (${trigger.workflows.join(', ')})`);
+      });
+    }
+
+    const { peak, starts, suggestions } = report.schedule;
+    if (peak) {
+      lines.push('', `Scheduled workflows (${peak.count} at ${peak.at} UTC at peak):`);
+      starts
+        .filter(start => start.workflows.length > 1)
+        .forEach(start => lines.push(`  ${start.at} UTC (${start.occurrences}× a week): ${start.count} parallel jobs ` +
+          `(${start.workflows.join(', ')})`));
+      suggestions.forEach(suggestion => {
+        lines.push(`  💡 ${suggestion.file}: '${suggestion.cron}' could run at '${suggestion.suggested}'`);
+      });
+    }
+
+    if (report.pipelines.pipelines.length > 0) {
+      lines.push('', 'Workflow pipelines:');
+      report.pipelines.pipelines.forEach(pipeline => {
+        lines.push(`  ${pipeline.root}: ${pipeline.count} parallel jobs across ${pipeline.workflows.length} workflows`);
+        formatPipelineChains(pipeline).forEach(chain => lines.push(`    ${chain}`));
+      });
+    }
+
+    if (report.plan) {
+      const { limits, triggers, workflows, gpu } = report.plan;
+      lines.push('', `Plan capacity, ${formatPlanLimits(limits)}:`);
+      [...triggers, ...workflows].forEach(usage => {
+        lines.push(`  ${usage.subject}: ${usage.count} of ${limits.total} jobs (${usage.percent}%)`);
+      });
+      gpu.forEach(usage => {
+        lines.push(`  ${usage.subject}: ${usage.count} of ${limits.gpu} GPU jobs (${usage.percent}%)`);
+      });
+    }
+  }
+
+  if (report.baseline && !quiet) {
+    const { source, workflows } = report.baseline;
+    const changed = workflows.filter(hasChanged);
+    lines.push('', changed.length > 0 ? `Changes against ${source}:` : `No concurrency changes against ${source}.`);
+    changed.forEach(delta => {
+      lines.push(`  ${delta.file}: ${formatDelta(delta.before, delta.after)}`);
+      delta.jobs.forEach(job => lines.push(`    job ${job.job}: ${formatDelta(job.before, job.after)}`));
+    });
+    if (report.baseline.accepted.length > 0) {
+      lines.push(`${report.baseline.accepted.length} issue(s) not increased since ${source}:`);
+      report.baseline.accepted.forEach(issue => lines.push(`  - ${formatIssue(issue)}`));
+    }
+  }
+
+  if (report.issues.length > 0) {
+    if (lines.length > 0) {
+      lines.push('');
+    }
+    lines.push(`${report.issues.length} issue(s) found:`);
+    report.issues.forEach(issue => lines.push(`  - ${formatIssue(issue)}`));
+  } else if (!quiet) {
+    lines.push('', `All ${report.workflows.length} workflows are within their limits.`);
+  }
+
+  return lines;
+}
+
+/**
+ * Run the command line interface
+ * @param args The arguments, without the node executable and script path
+ * @param cwd The directory relative paths are resolved against
+ * @returns The process exit code
+ */
+export function runCli(args: string[], cwd: string = process.cwd()): number {
+  let options: CliOptions;
+  let report: ValidationReport;
+
+  try {
+    options = parseArgs(args);
+    if (options.help) {
+      console.log(USAGE);
+      return EXIT_PASSED;
+    }
+
+    const config = loadConfig(cwd, options.configPath);
+    const files = findWorkflowFiles(options.paths, cwd);
+    const workflows = files.map(file => ({ file: path.relative(cwd, file), content: fs.readFileSync(file, 'utf8') }));
+    const analysisOptions = {
+      maxConcurrency: options.maxConcurrency,
+      maxCost: options.maxCost,
+      cost: options.cost,
+      plan: options.plan,
+      workspace: cwd,
+      config,
+      durations: options.durationsFile ? loadDurations(cwd, options.durationsFile) : undefined,
+      peak: options.peak,
+      event: options.eventContextFile
+        ? loadEventContext(cwd, options.eventContextFile, options.event)
+        : parseEventContext(undefined, options.event)
+    };
+    report = validateWorkflows(workflows, analysisOptions);
+
+    if (options.writeBaseline) {
+      fs.writeFileSync(path.resolve(cwd, options.writeBaseline), `${JSON.stringify(createBaseline(report), null, 2)}\n`);
+    }
+    if (options.baselineRef) {
+      const baseline = loadGitBaseline(cwd, options.baselineRef, workflows.map(workflow => workflow.file),
+        analysisOptions);
+      report = compareWithBaseline(report, baseline, options.baselineRef);
+    } else if (options.baselineFile) {
+      report = compareWithBaseline(report, loadBaselineFile(cwd, options.baselineFile), options.baselineFile);
+    }
+  } catch (error) {
+    console.error(`Error: ${(error as Error).message}`);
+    return EXIT_ERROR;
+  }
+
+  if (options.format === 'json') {
+    console.log(JSON.stringify(report, null, 2));
+  } else if (options.format === 'sarif') {
+    console.log(JSON.stringify(createSarifLog(report), null, 2));
+  } else if (options.format === 'mermaid') {
+    // Mermaid has one diagram per block, so every workflow gets its own Markdown section
+    report.workflows.forEach(result => {
+      console.log([`## ${result.file}`, '', ...formatMermaidBlock(result), ''].join('\n'));
+    });
+  } else if (options.format === 'dot') {
+    console.log(report.workflows.map(renderDotGraph).join('\n\n'));
+  } else {
+    formatTextReport(report, options.quiet).forEach(line => console.log(line));
+  }
+
+  if (report.issues.some(issue => issue.type === 'parse-error')) {
+    return EXIT_ERROR;
+  }
+  return report.passed ? EXIT_PASSED : EXIT_LIMIT_EXCEEDED;
+}
+
+if (require.main === module) {
+  process.exitCode = runCli(process.argv.slice(2));
+}
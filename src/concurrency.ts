@@ -0,0 +1,339 @@
+import { calculateMatrixSize } from './matrix';
+import {
+  ConcurrencyCap,
+  InlinedWorkflowJob,
+  LevelConcurrency,
+  MatrixProvider,
+  PeakConcurrency,
+  WorkflowJob
+} from './types';
+
+// Upper bound on concurrency group combinations evaluated when computing the peak
+const MAX_CONCURRENCY_GROUP_CHOICES = 1024;
+
+/**
+ * Check whether a job was inlined from a reusable workflow
+ * @param job The job definition
+ * @returns True if the job comes from a called workflow
+ */
+export function isInlinedJob(job: WorkflowJob): job is InlinedWorkflowJob {
+  return 'calledBy' in job;
+}
+
+/**
+ * Get the number of times a job runs in parallel because its reusable workflow is called several times
+ * @param job The job definition
+ * @returns The number of parallel calls, 1 for regular jobs
+ */
+export function getCallCount(job: WorkflowJob): number {
+  return isInlinedJob(job) ? job.callCount : 1;
+}
+
+/**
+ * Get the effective max-parallel setting of a job's strategy
+ * @param job The job definition
+ * @returns The max-parallel value, or undefined if not set or not a static number
+ */
+export function getMaxParallel(job: WorkflowJob): number | undefined {
+  const value = job.strategy?.['max-parallel'];
+  const maxParallel = typeof value === 'string' ? parseInt(value) : value;
+  if (typeof maxParallel !== 'number' || isNaN(maxParallel) || maxParallel <= 0) {
+    return undefined;
+  }
+  return maxParallel;
+}
+
+/**
+ * Get the job-level concurrency group of a job
+ * @param job The job definition
+ * @returns The concurrency group, or undefined if the job has none or the group
+ * differs per matrix combination
+ */
+export function getConcurrencyGroup(job: WorkflowJob): string | undefined {
+  const group = typeof job.concurrency === 'string' ? job.concurrency : job.concurrency?.group;
+  if (typeof group !== 'string' || group.length === 0) {
+    return undefined;
+  }
+  // Groups built from matrix values are distinct for each combination
+  if (/\bmatrix\./.test(group)) {
+    return undefined;
+  }
+  return group;
+}
+
+/**
+ * Calculate the total concurrency for a level of jobs that execute in parallel.
+ * Each job contributes at most its `max-parallel` value and its own limit, and
+ * jobs sharing a job-level concurrency group are serialized and count as a single slot.
+ * @param level The list of job keys in this execution level
+ * @param jobs The jobs in the workflow
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @param jobLimits The limits set on single jobs by `max=N` comments
+ * @returns The total concurrency for this level, the caps that were applied and each job's size
+ */
+export function calculateLevelConcurrency(
+  level: string[],
+  jobs: Record<string, WorkflowJob>,
+  matrixProviders: Map<string, MatrixProvider>,
+  jobLimits: Map<string, number> = new Map()
+): LevelConcurrency {
+  let levelConcurrency = 0;
+  const caps: ConcurrencyCap[] = [];
+  const matrixSizes: Record<string, number> = {};
+  const concurrencyGroups = new Map<string, { jobs: string[]; count: number }>();
+
+  level.forEach(jobKey => {
+    const job = jobs[jobKey];
+    const callCount = getCallCount(job);
+    const matrixSize = calculateMatrixSize(job, matrixProviders) * callCount;
+    let jobConcurrency = matrixSize;
+    matrixSizes[jobKey] = matrixSize;
+
+    const maxParallel = getMaxParallel(job);
+    if (maxParallel !== undefined && maxParallel * callCount < matrixSize) {
+      jobConcurrency = maxParallel * callCount;
+      caps.push({
+        jobs: [jobKey],
+        uncapped: matrixSize,
+        capped: jobConcurrency,
+        reason: `strategy.max-parallel is ${maxParallel}`
+      });
+    }
+
+    const jobLimit = jobLimits.get(jobKey);
+    if (jobLimit !== undefined && jobLimit < jobConcurrency) {
+      caps.push({
+        jobs: [jobKey],
+        uncapped: jobConcurrency,
+        capped: jobLimit,
+        reason: `limited to ${jobLimit} by a max comment`
+      });
+      jobConcurrency = jobLimit;
+    }
+
+    // Jobs in a concurrency group are accounted for once the whole level is known
+    const group = getConcurrencyGroup(job);
+    if (group !== undefined) {
+      const entry = concurrencyGroups.get(group) || { jobs: [], count: 0 };
+      entry.jobs.push(jobKey);
+      entry.count += jobConcurrency;
+      concurrencyGroups.set(group, entry);
+      return;
+    }
+
+    levelConcurrency += jobConcurrency;
+  });
+
+  concurrencyGroups.forEach((entry, group) => {
+    levelConcurrency += 1;
+    if (entry.count > 1) {
+      caps.push({
+        jobs: entry.jobs,
+        uncapped: entry.count,
+        capped: 1,
+        reason: `serialized by concurrency group '${group}'`
+      });
+    }
+  });
+
+  return { count: levelConcurrency, caps, matrixSizes };
+}
+
+/**
+ * Get the number of executions a single job can run at the same time
+ * @param job The job definition
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The matrix size, capped at the job's max-parallel setting, for every call of the job
+ */
+export function getJobConcurrency(job: WorkflowJob, matrixProviders: Map<string, MatrixProvider>): number {
+  const matrixSize = calculateMatrixSize(job, matrixProviders);
+  const maxParallel = getMaxParallel(job);
+  const concurrency = maxParallel !== undefined ? Math.min(matrixSize, maxParallel) : matrixSize;
+  return concurrency * getCallCount(job);
+}
+
+/**
+ * Collect the transitive dependencies of every job. Dependencies outside the
+ * considered jobs are followed but left out of the result, so jobs stay ordered
+ * through a job that isn't counted.
+ * @param jobKeys The jobs to consider
+ * @param dependencyMap Map of jobs to their direct dependencies
+ * @returns Map of job keys to all jobs that must finish before they start
+ */
+function collectAncestors(
+  jobKeys: string[],
+  dependencyMap: Map<string, Set<string>>
+): Map<string, Set<string>> {
+  const ancestors = new Map<string, Set<string>>();
+  const known = new Set(jobKeys);
+
+  const visit = (jobKey: string): Set<string> => {
+    const cached = ancestors.get(jobKey);
+    if (cached) {
+      return cached;
+    }
+
+    const result = new Set<string>();
+    ancestors.set(jobKey, result);
+    dependencyMap.get(jobKey)?.forEach(dep => {
+      if (known.has(dep)) {
+        result.add(dep);
+      }
+      visit(dep).forEach(ancestor => {
+        if (known.has(ancestor)) {
+          result.add(ancestor);
+        }
+      });
+    });
+    return result;
+  };
+
+  jobKeys.forEach(jobKey => visit(jobKey));
+  return ancestors;
+}
+
+/**
+ * Find the heaviest set of jobs that can run at the same time.
+ * By the weighted Dilworth theorem, the maximum-weight antichain equals the total
+ * weight minus the maximum flow in the bipartite graph linking every job to the
+ * jobs that (transitively) need it. The antichain itself is read from the minimum cut.
+ * @param jobKeys The jobs to consider
+ * @param weights Number of concurrent executions of each job
+ * @param ancestors Map of job keys to their transitive dependencies
+ * @returns The peak concurrency and the jobs that make it up
+ */
+function findMaxWeightAntichain(
+  jobKeys: string[],
+  weights: Map<string, number>,
+  ancestors: Map<string, Set<string>>
+): PeakConcurrency {
+  const n = jobKeys.length;
+  const source = 2 * n;
+  const sink = 2 * n + 1;
+  const size = 2 * n + 2;
+  const totalWeight = jobKeys.reduce((sum, jobKey) => sum + (weights.get(jobKey) || 0), 0);
+  const infinite = totalWeight + 1;
+
+  // Nodes 0..n-1 are the "left" copies of jobs, n..2n-1 the "right" copies
+  const capacity = Array.from({ length: size }, () => new Array<number>(size).fill(0));
+  jobKeys.forEach((jobKey, i) => {
+    const weight = weights.get(jobKey) || 0;
+    capacity[source][i] = weight;
+    capacity[n + i][sink] = weight;
+    jobKeys.forEach((other, j) => {
+      if (ancestors.get(other)?.has(jobKey)) {
+        capacity[i][n + j] = infinite;
+      }
+    });
+  });
+
+  const findReachable = (parent?: number[]): boolean[] => {
+    const reachable = new Array<boolean>(size).fill(false);
+    const queue = [source];
+    reachable[source] = true;
+    while (queue.length > 0) {
+      const node = queue.shift() as number;
+      for (let next = 0; next < size; next++) {
+        if (!reachable[next] && capacity[node][next] > 0) {
+          reachable[next] = true;
+          if (parent) {
+            parent[next] = node;
+          }
+          queue.push(next);
+        }
+      }
+    }
+    return reachable;
+  };
+
+  // Edmonds-Karp: augment along shortest paths until the sink is unreachable
+  for (;;) {
+    const parent = new Array<number>(size).fill(-1);
+    if (!findReachable(parent)[sink]) {
+      break;
+    }
+
+    let bottleneck = Infinity;
+    for (let node = sink; node !== source; node = parent[node]) {
+      bottleneck = Math.min(bottleneck, capacity[parent[node]][node]);
+    }
+    for (let node = sink; node !== source; node = parent[node]) {
+      capacity[parent[node]][node] -= bottleneck;
+      capacity[node][parent[node]] += bottleneck;
+    }
+  }
+
+  const reachable = findReachable();
+  const peakJobs = jobKeys.filter((jobKey, i) =>
+    reachable[i] && !reachable[n + i] && (weights.get(jobKey) || 0) > 0
+  );
+
+  return {
+    count: peakJobs.reduce((sum, jobKey) => sum + (weights.get(jobKey) || 0), 0),
+    jobs: peakJobs
+  };
+}
+
+/**
+ * Calculate the worst-case number of executions that can run at the same moment,
+ * taking the `needs` graph into account rather than grouping jobs by level.
+ * Jobs sharing a concurrency group never overlap, so at most one of them is
+ * counted, with a single slot.
+ * @param jobKeys The jobs to consider (must not contain dependency cycles)
+ * @param jobs The jobs in the workflow
+ * @param dependencyMap Map of jobs to their direct dependencies
+ * @param getWeight Returns the number of concurrent executions of a job
+ * @returns The peak concurrency and the jobs that make it up
+ */
+export function calculatePeakConcurrency(
+  jobKeys: string[],
+  jobs: Record<string, WorkflowJob>,
+  dependencyMap: Map<string, Set<string>>,
+  getWeight: (jobKey: string, job: WorkflowJob) => number
+): PeakConcurrency {
+  const ancestors = collectAncestors(jobKeys, dependencyMap);
+  const weights = new Map<string, number>();
+  const concurrencyGroups = new Map<string, string[]>();
+
+  jobKeys.forEach(jobKey => {
+    const job = jobs[jobKey];
+    const group = getConcurrencyGroup(job);
+    if (group !== undefined) {
+      weights.set(jobKey, Math.min(getWeight(jobKey, job), 1));
+      concurrencyGroups.set(group, [...(concurrencyGroups.get(group) || []), jobKey]);
+    } else {
+      weights.set(jobKey, getWeight(jobKey, job));
+    }
+  });
+
+  // Try every choice of a single active job per shared concurrency group
+  const sharedGroups = Array.from(concurrencyGroups.values()).filter(members => members.length > 1);
+  const choices = sharedGroups.reduce((product, members) => product * members.length, 1);
+
+  if (choices > MAX_CONCURRENCY_GROUP_CHOICES) {
+    // Too many combinations to try, so grouped jobs are counted individually
+    return findMaxWeightAntichain(jobKeys, weights, ancestors);
+  }
+
+  let peak: PeakConcurrency = { count: 0, jobs: [] };
+  for (let choice = 0; choice < choices; choice++) {
+    const choiceWeights = new Map(weights);
+    let remainder = choice;
+    sharedGroups.forEach(members => {
+      const active = members[remainder % members.length];
+      remainder = Math.floor(remainder / members.length);
+      members.forEach(member => {
+        if (member !== active) {
+          choiceWeights.set(member, 0);
+        }
+      });
+    });
+
+    const candidate = findMaxWeightAntichain(jobKeys, choiceWeights, ancestors);
+    if (candidate.count > peak.count) {
+      peak = candidate;
+    }
+  }
+
+  return peak;
+}
@@ -0,0 +1,493 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { getPlanRunnerLimits, PLAN_PRESETS, resolvePlanLimits } from './plans';
+import { filterPatternToRegExp } from './triggers';
+import {
+  AnalysisOptions,
+  GitHubPlan,
+  JobConfig,
+  PlanLimits,
+  RuleConfig,
+  RunnerLimit,
+  RunnerMultiplier,
+  ValidatorConfig,
+  WorkflowConfig
+} from './types';
+
+// Location of the config file, relative to the repository root
+export const DEFAULT_CONFIG_PATH = '.github/concurrency-validator.yml';
+
+/**
+ * Limits that apply to a single workflow once the config and options are merged
+ */
+export interface WorkflowLimits {
+  /** Maximum allowed concurrency, or undefined to use the built-in default */
+  maxConcurrency?: number;
+  /** Budget of billable minutes per run, or undefined if the cost isn't limited */
+  maxCost?: number;
+  runnerLimits: RunnerLimit[];
+  /** Minute multipliers, highest precedence first */
+  costMultipliers: RunnerMultiplier[];
+  /** Settings of each job, merged from every matching job pattern */
+  getJobConfig: (jobKey: string) => JobConfig;
+}
+
+/**
+ * Check that a value is a mapping (and not a list or scalar)
+ * @param value The value to check
+ * @returns Whether the value is a mapping
+ */
+function isMapping(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Check that a config value is a positive integer limit
+ * @param value The value to check
+ * @returns Whether the value is a positive integer
+ */
+function isLimit(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value > 0;
+}
+
+/**
+ * Record an error for every key of a mapping that isn't allowed
+ * @param value The mapping
+ * @param allowed The allowed keys
+ * @param at The location of the mapping in the config, for error messages
+ * @param errors Collects the errors
+ */
+function checkKeys(value: Record<string, unknown>, allowed: string[], at: string, errors: string[]): void {
+  Object.keys(value)
+    .filter(key => !allowed.includes(key))
+    .forEach(key => errors.push(`${at}${key}: unknown key (expected one of ${allowed.join(', ')})`));
+}
+
+/**
+ * Read an optional positive integer limit
+ * @param value The raw value
+ * @param at The location of the value in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The limit, or undefined if it isn't set or invalid
+ */
+function readLimit(value: unknown, at: string, errors: string[]): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isLimit(value)) {
+    errors.push(`${at}: must be a positive integer, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Read an optional mapping of runner labels to limits
+ * @param value The raw value
+ * @param at The location of the value in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The runner limits, or undefined if they aren't set or invalid
+ */
+function readRunnerLimits(value: unknown, at: string, errors: string[]): RunnerLimit[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isMapping(value)) {
+    errors.push(`${at}: must be a mapping of runner labels to limits`);
+    return undefined;
+  }
+  return Object.entries(value)
+    .map(([label, limit]) => ({ label, limit: readLimit(limit, `${at}.${label}`, errors) }))
+    .filter((entry): entry is RunnerLimit => entry.limit !== undefined);
+}
+
+/**
+ * Read an optional mapping of runner labels to minute multipliers
+ * @param value The raw value
+ * @param at The location of the value in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The multipliers, or undefined if they aren't set or invalid
+ */
+function readCostMultipliers(value: unknown, at: string, errors: string[]): RunnerMultiplier[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isMapping(value)) {
+    errors.push(`${at}: must be a mapping of runner labels to multipliers`);
+    return undefined;
+  }
+  return Object.entries(value)
+    .filter(([label, multiplier]) => {
+      const valid = typeof multiplier === 'number' && isFinite(multiplier) && multiplier >= 0;
+      if (!valid) {
+        errors.push(`${at}.${label}: must be a non-negative number, got ${JSON.stringify(multiplier)}`);
+      }
+      return valid;
+    })
+    .map(([label, multiplier]) => ({ label, multiplier: multiplier as number }));
+}
+
+/**
+ * Read an optional GitHub plan
+ * @param value The raw value
+ * @param at The location of the value in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The plan, or undefined if it isn't set or invalid
+ */
+function readPlan(value: unknown, at: string, errors: string[]): GitHubPlan | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (typeof value !== 'string' || !(value in PLAN_PRESETS)) {
+    errors.push(`${at}: must be one of ${Object.keys(PLAN_PRESETS).join(', ')}, got ${JSON.stringify(value)}`);
+    return undefined;
+  }
+  return value as GitHubPlan;
+}
+
+/**
+ * Read optional limits replacing those of the plan's preset
+ * @param value The raw mapping with total, macos, gpu and gpu-label keys
+ * @param at The location of the mapping in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The limits, or undefined if they aren't set or invalid
+ */
+function readPlanLimits(value: unknown, at: string, errors: string[]): Partial<Omit<PlanLimits, 'plan'>> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isMapping(value)) {
+    errors.push(`${at}: must be a mapping with total, macos, gpu and gpu-label keys`);
+    return undefined;
+  }
+  checkKeys(value, ['total', 'macos', 'gpu', 'gpu-label'], `${at}.`, errors);
+  const gpuLabel = value['gpu-label'];
+  if (gpuLabel !== undefined && (typeof gpuLabel !== 'string' || gpuLabel.trim().length === 0)) {
+    errors.push(`${at}.gpu-label: must be a runner label or pattern, got ${JSON.stringify(gpuLabel)}`);
+  }
+  return {
+    total: readLimit(value.total, `${at}.total`, errors),
+    macos: readLimit(value.macos, `${at}.macos`, errors),
+    gpu: readLimit(value.gpu, `${at}.gpu`, errors),
+    ...(typeof gpuLabel === 'string' && gpuLabel.trim().length > 0 ? { gpuLabel: gpuLabel.trim() } : {})
+  };
+}
+
+/**
+ * Read the per-job settings of a workflow override
+ * @param value The raw mapping of job patterns to settings
+ * @param at The location of the mapping in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The job settings, or undefined if they aren't set or invalid
+ */
+function readJobs(value: unknown, at: string, errors: string[]): Record<string, JobConfig> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isMapping(value)) {
+    errors.push(`${at}: must be a mapping of job IDs to settings`);
+    return undefined;
+  }
+
+  const jobs: Record<string, JobConfig> = {};
+  Object.entries(value).forEach(([jobKey, settings]) => {
+    const jobAt = `${at}.${jobKey}`;
+    if (!isMapping(settings)) {
+      errors.push(`${jobAt}: must be a mapping`);
+      return;
+    }
+    checkKeys(settings, ['max-concurrency', 'ignore'], `${jobAt}.`, errors);
+    if (settings.ignore !== undefined && typeof settings.ignore !== 'boolean') {
+      errors.push(`${jobAt}.ignore: must be true or false`);
+    }
+    jobs[jobKey] = {
+      maxConcurrency: readLimit(settings['max-concurrency'], `${jobAt}.max-concurrency`, errors),
+      ignore: typeof settings.ignore === 'boolean' ? settings.ignore : undefined
+    };
+  });
+  return jobs;
+}
+
+/**
+ * Read a list of path patterns
+ * @param value The raw value
+ * @param at The location of the list in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The patterns
+ */
+function readPatterns(value: unknown, at: string, errors: string[]): string[] {
+  if (value === undefined) {
+    return [];
+  }
+  if (!Array.isArray(value) || value.some(pattern => typeof pattern !== 'string')) {
+    errors.push(`${at}: must be a list of path patterns`);
+    return [];
+  }
+  return value;
+}
+
+/**
+ * Read the settings of the policy rules: a severity, or a mapping of the
+ * severity and the rule's options
+ * @param value The raw mapping of rule IDs to settings
+ * @param at The location of the mapping in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The settings of each rule, or undefined if they aren't set or invalid
+ */
+function readRules(value: unknown, at: string, errors: string[]): Record<string, RuleConfig> | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!isMapping(value)) {
+    errors.push(`${at}: must be a mapping of rule IDs to settings`);
+    return undefined;
+  }
+
+  const severities = ['error', 'warning', 'off'];
+  const rules: Record<string, RuleConfig> = {};
+  Object.entries(value).forEach(([id, settings]) => {
+    const { severity, ...options } = isMapping(settings) ? settings : { severity: settings };
+    if (severity !== undefined && !severities.includes(severity as string)) {
+      errors.push(`${at}.${id}${isMapping(settings) ? '.severity' : ''}: must be error, warning or off, ` +
+        `got ${JSON.stringify(severity)}`);
+      return;
+    }
+    rules[id] = { severity: severity as RuleConfig['severity'], options };
+  });
+  return rules;
+}
+
+/**
+ * Read a list of file paths
+ * @param value The raw value
+ * @param at The location of the list in the config, for error messages
+ * @param errors Collects the errors
+ * @returns The paths, or undefined if they aren't set or invalid
+ */
+function readPaths(value: unknown, at: string, errors: string[]): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!Array.isArray(value) || value.some(file => typeof file !== 'string')) {
+    errors.push(`${at}: must be a list of file paths`);
+    return undefined;
+  }
+  return value;
+}
+
+/**
+ * Parse and validate the content of a config file
+ *
+ * ```yaml
+ * defaults:
+ *   plan: team
+ *   plan-limits:
+ *     gpu: 20
+ *     gpu-label: linux-gpu-*
+ *   max-concurrency: 8
+ *   max-total-concurrency: 60
+ *   max-scheduled-concurrency: 40
+ *   max-cost: 2000
+ *   runner-limits:
+ *     macos-*: 5
+ *   cost-multipliers:
+ *     ubuntu-latest-16-cores: 8
+ * workflows:
+ *   - path: .github/workflows/nightly-*.yml
+ *     max-concurrency: 40
+ *     max-cost: 10000
+ *     jobs:
+ *       flaky-*:
+ *         ignore: true
+ * ignore:
+ *   - .github/workflows/experimental/**
+ * rules:
+ *   pull-request-concurrency: error
+ *   max-matrix-size:
+ *     severity: warning
+ *     max: 16
+ * rule-modules:
+ *   - .github/concurrency-rules.js
+ * ```
+ * @param content The YAML content of the config file
+ * @param file The path of the config file, for error messages
+ * @returns The validated config
+ * @throws {Error} If the content isn't valid YAML or doesn't match the config schema,
+ * listing every problem found
+ */
+export function parseConfig(content: string, file: string = DEFAULT_CONFIG_PATH): ValidatorConfig {
+  let raw: unknown;
+  try {
+    raw = yaml.load(content);
+  } catch (error) {
+    throw new Error(`Invalid config file ${file}: ${(error as Error).message}`);
+  }
+
+  const config: ValidatorConfig = { defaults: {}, workflows: [], ignore: [] };
+  if (raw === undefined || raw === null) {
+    return config;
+  }
+
+  const errors: string[] = [];
+  if (!isMapping(raw)) {
+    errors.push('must be a mapping with defaults, workflows, ignore, rules and rule-modules keys');
+  } else {
+    checkKeys(raw, ['defaults', 'workflows', 'ignore', 'rules', 'rule-modules'], '', errors);
+
+    if (raw.defaults !== undefined) {
+      if (!isMapping(raw.defaults)) {
+        errors.push('defaults: must be a mapping');
+      } else {
+        checkKeys(raw.defaults, ['max-concurrency', 'max-total-concurrency', 'max-scheduled-concurrency',
+          'max-cost', 'runner-limits', 'cost-multipliers', 'plan', 'plan-limits'], 'defaults.', errors);
+        config.defaults = {
+          maxConcurrency: readLimit(raw.defaults['max-concurrency'], 'defaults.max-concurrency', errors),
+          maxTotalConcurrency: readLimit(raw.defaults['max-total-concurrency'], 'defaults.max-total-concurrency', errors),
+          maxScheduledConcurrency: readLimit(raw.defaults['max-scheduled-concurrency'],
+            'defaults.max-scheduled-concurrency', errors),
+          maxCost: readLimit(raw.defaults['max-cost'], 'defaults.max-cost', errors),
+          runnerLimits: readRunnerLimits(raw.defaults['runner-limits'], 'defaults.runner-limits', errors),
+          costMultipliers: readCostMultipliers(raw.defaults['cost-multipliers'], 'defaults.cost-multipliers', errors),
+          plan: readPlan(raw.defaults.plan, 'defaults.plan', errors),
+          planLimits: readPlanLimits(raw.defaults['plan-limits'], 'defaults.plan-limits', errors)
+        };
+      }
+    }
+
+    if (raw.workflows !== undefined) {
+      if (!Array.isArray(raw.workflows)) {
+        errors.push('workflows: must be a list of workflow overrides');
+      } else {
+        raw.workflows.forEach((entry: unknown, index) => {
+          const at = `workflows[${index}]`;
+          if (!isMapping(entry)) {
+            errors.push(`${at}: must be a mapping`);
+            return;
+          }
+          checkKeys(entry, ['path', 'max-concurrency', 'max-cost', 'runner-limits', 'jobs'], `${at}.`, errors);
+          if (typeof entry.path !== 'string' || entry.path.length === 0) {
+            errors.push(`${at}.path: is required and must be a path pattern`);
+            return;
+          }
+          const workflow: WorkflowConfig = {
+            path: entry.path,
+            maxConcurrency: readLimit(entry['max-concurrency'], `${at}.max-concurrency`, errors),
+            maxCost: readLimit(entry['max-cost'], `${at}.max-cost`, errors),
+            runnerLimits: readRunnerLimits(entry['runner-limits'], `${at}.runner-limits`, errors),
+            jobs: readJobs(entry.jobs, `${at}.jobs`, errors)
+          };
+          config.workflows.push(workflow);
+        });
+      }
+    }
+
+    config.ignore = readPatterns(raw.ignore, 'ignore', errors);
+
+    const rules = readRules(raw.rules, 'rules', errors);
+    const ruleModules = readPaths(raw['rule-modules'], 'rule-modules', errors);
+    Object.assign(config, rules ? { rules } : {}, ruleModules ? { ruleModules } : {});
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid config file ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return config;
+}
+
+/**
+ * Load the config file from a repository checkout
+ * @param workspace The repository root
+ * @param configPath The path of the config file, relative to the repository root;
+ * when not given, the default location is used if the file exists
+ * @returns The validated config, or undefined if there is no config file
+ * @throws {Error} If an explicitly given config file doesn't exist or the config is invalid
+ */
+export function loadConfig(workspace: string, configPath?: string): ValidatorConfig | undefined {
+  const file = configPath || DEFAULT_CONFIG_PATH;
+  const filePath = path.resolve(workspace, file);
+  if (!fs.existsSync(filePath)) {
+    if (configPath) {
+      throw new Error(`Config file ${configPath} not found`);
+    }
+    return undefined;
+  }
+  return parseConfig(fs.readFileSync(filePath, 'utf8'), file);
+}
+
+/**
+ * Check whether a workflow path matches a config path pattern
+ * @param pattern The path pattern, relative to the repository root
+ * @param relativeFilePath The relative path to the workflow file
+ * @returns Whether the path matches
+ */
+export function matchesPath(pattern: string, relativeFilePath: string): boolean {
+  const normalize = (value: string): string => value.replace(/\\/g, '/').replace(/^\.\//, '');
+  return filterPatternToRegExp(normalize(pattern)).test(normalize(relativeFilePath));
+}
+
+/**
+ * Check whether the config excludes a workflow from validation
+ * @param config The repository config
+ * @param relativeFilePath The relative path to the workflow file
+ * @returns Whether the workflow is ignored
+ */
+export function isIgnoredWorkflow(config: ValidatorConfig | undefined, relativeFilePath: string): boolean {
+  return (config?.ignore || []).some(pattern => matchesPath(pattern, relativeFilePath));
+}
+
+/**
+ * Merge runner limits, later limits replacing earlier ones for the same label
+ * @param lists The lists of runner limits, lowest precedence first
+ * @returns The merged runner limits
+ */
+function mergeRunnerLimits(...lists: (RunnerLimit[] | undefined)[]): RunnerLimit[] {
+  const merged = new Map<string, number>();
+  lists.forEach(list => (list || []).forEach(({ label, limit }) => merged.set(label, limit)));
+  return Array.from(merged, ([label, limit]) => ({ label, limit }));
+}
+
+/**
+ * Resolve the limits of a workflow. Overrides of matching config entries take precedence
+ * over the options, which take precedence over the config defaults; the plan's limits,
+ * if a plan is set, apply when nothing else does.
+ * @param options The analysis options, including the config
+ * @param relativeFilePath The relative path to the workflow file
+ * @returns The limits that apply to the workflow
+ */
+export function resolveWorkflowLimits(options: AnalysisOptions, relativeFilePath: string): WorkflowLimits {
+  const config = options.config;
+  const overrides = (config?.workflows || []).filter(workflow => matchesPath(workflow.path, relativeFilePath));
+
+  const plan = resolvePlanLimits(options);
+  let maxConcurrency = options.maxConcurrency ?? config?.defaults.maxConcurrency ?? plan?.total;
+  let maxCost = options.maxCost ?? config?.defaults.maxCost;
+  overrides.forEach(workflow => {
+    maxConcurrency = workflow.maxConcurrency ?? maxConcurrency;
+    maxCost = workflow.maxCost ?? maxCost;
+  });
+
+  return {
+    maxConcurrency,
+    maxCost,
+    runnerLimits: mergeRunnerLimits(
+      plan && getPlanRunnerLimits(plan),
+      config?.defaults.runnerLimits,
+      options.runnerLimits,
+      ...overrides.map(workflow => workflow.runnerLimits)
+    ),
+    costMultipliers: [...(options.costMultipliers || []), ...(config?.defaults.costMultipliers || [])],
+    getJobConfig: jobKey => {
+      const jobConfig: JobConfig = {};
+      overrides.forEach(workflow => {
+        Object.entries(workflow.jobs || {})
+          .filter(([pattern]) => filterPatternToRegExp(pattern).test(jobKey))
+          .forEach(([, settings]) => {
+            jobConfig.maxConcurrency = settings.maxConcurrency ?? jobConfig.maxConcurrency;
+            jobConfig.ignore = settings.ignore ?? jobConfig.ignore;
+          });
+      });
+      return jobConfig;
+    }
+  };
+}
@@ -0,0 +1,117 @@
+import yaml from 'js-yaml';
+import { getCallCount } from './concurrency';
+import { expandMatrix } from './matrix';
+import { resolveRunnerLabels } from './runners';
+import { filterPatternToRegExp } from './triggers';
+import { JobCost, MatrixProvider, RunnerMultiplier, WorkflowCost, WorkflowJob } from './types';
+
+// Minutes GitHub lets a job run when it doesn't set timeout-minutes
+export const DEFAULT_JOB_TIMEOUT = 360;
+
+// Minute multipliers of GitHub-hosted runners; self-hosted runners aren't billed
+export const DEFAULT_RUNNER_MULTIPLIERS: RunnerMultiplier[] = [
+  { label: 'ubuntu-*', multiplier: 1 },
+  { label: 'windows-*', multiplier: 2 },
+  { label: 'macos-*', multiplier: 10 },
+  { label: 'self-hosted', multiplier: 0 }
+];
+
+/**
+ * Get the longest a job can run: its `timeout-minutes`, rounded up to whole
+ * billable minutes, or GitHub's default when it isn't a positive number
+ * @param job The job definition
+ * @returns The timeout in minutes
+ */
+export function getJobTimeout(job: WorkflowJob): number {
+  const timeout = typeof job['timeout-minutes'] === 'string' ? Number(job['timeout-minutes']) : job['timeout-minutes'];
+  return typeof timeout === 'number' && isFinite(timeout) && timeout > 0 ? Math.ceil(timeout) : DEFAULT_JOB_TIMEOUT;
+}
+
+/**
+ * Get the minute multiplier of a runner: the first multiplier, configured ones
+ * before GitHub's, whose label or pattern matches one of the runner's labels
+ * @param labels The labels the job runs on
+ * @param multipliers Configured minute multipliers
+ * @returns The multiplier, 1 when no label matches
+ */
+export function getRunnerMultiplier(labels: string[], multipliers: RunnerMultiplier[] = []): number {
+  const match = [...multipliers, ...DEFAULT_RUNNER_MULTIPLIERS].find(({ label }) => {
+    const pattern = filterPatternToRegExp(label);
+    return labels.some(runnerLabel => pattern.test(runnerLabel));
+  });
+  return match ? match.multiplier : 1;
+}
+
+/**
+ * Calculate the worst-case billable minutes of a single run of a workflow: every
+ * execution of every job runs until its timeout on the runner its matrix
+ * combination picks, whatever `max-parallel` or concurrency groups allow at once
+ * @param jobKeys The jobs that run
+ * @param jobs The jobs in the workflow
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @param multipliers Configured minute multipliers
+ * @param limit Budget of billable minutes per run, if any
+ * @returns The cost of the workflow and of each job, costliest first
+ */
+export function calculateWorkflowCost(
+  jobKeys: string[],
+  jobs: Record<string, WorkflowJob>,
+  matrixProviders: Map<string, MatrixProvider>,
+  multipliers: RunnerMultiplier[],
+  limit?: number
+): WorkflowCost {
+  const jobCosts: JobCost[] = jobKeys.map(jobKey => {
+    const job = jobs[jobKey];
+    const combinations = expandMatrix(job, matrixProviders);
+    const minutes = getJobTimeout(job);
+    const weight = combinations.reduce((total, combination) =>
+      total + getRunnerMultiplier(resolveRunnerLabels(job, combination), multipliers), 0);
+    return {
+      job: jobKey,
+      executions: combinations.length * getCallCount(job),
+      minutes,
+      cost: weight * minutes * getCallCount(job)
+    };
+  });
+
+  return {
+    minutes: jobCosts.reduce((total, job) => total + job.cost, 0),
+    ...(limit !== undefined ? { limit } : {}),
+    jobs: jobCosts.sort((a, b) => b.cost - a.cost)
+  };
+}
+
+/**
+ * Describe the cost of a job, e.g. `test: 20 × 360 min → 72000 billable minutes`
+ * @param job The cost of the job
+ * @returns The description
+ */
+export function formatJobCost(job: JobCost): string {
+  return `${job.job}: ${job.executions} × ${job.minutes} min → ${job.cost} billable minutes`;
+}
+
+/**
+ * Parse the cost-multipliers input, a YAML or JSON mapping of runner labels (or
+ * patterns such as `macos-*`) to their minute multipliers
+ * @param value The raw input value
+ * @returns The configured multipliers
+ * @throws {Error} If the input is not a mapping of labels to non-negative numbers
+ */
+export function parseCostMultipliers(value: string | undefined): RunnerMultiplier[] {
+  if (!value || value.trim().length === 0) {
+    return [];
+  }
+
+  const parsed = yaml.load(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('cost-multipliers must be a mapping of runner labels to multipliers');
+  }
+
+  return Object.entries(parsed).map(([label, multiplier]) => {
+    const parsedMultiplier = typeof multiplier === 'number' ? multiplier : parseFloat(String(multiplier));
+    if (isNaN(parsedMultiplier) || parsedMultiplier < 0) {
+      throw new Error(`cost-multipliers value for '${label}' must be a non-negative number`);
+    }
+    return { label, multiplier: parsedMultiplier };
+  });
+}
@@ -0,0 +1,233 @@
+import {
+  CronSchedule,
+  ScheduledStart,
+  ScheduleOverlap,
+  ScheduleSuggestion,
+  WorkflowTrigger,
+  WorkflowValidationResult
+} from './types';
+
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+// Fields of a cron expression, in order; names are accepted for months and days of the week
+const CRON_FIELDS: { name: string; min: number; max: number; names?: string[] }[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES }
+];
+
+/**
+ * Represents a cron entry of a scheduled workflow
+ */
+interface CronEntry {
+  result: WorkflowValidationResult;
+  cron: string;
+  /** Minutes of the week the entry starts the workflow at */
+  starts: number[];
+}
+
+/**
+ * Parse a single field of a cron expression: `*`, values, ranges and steps,
+ * separated by commas
+ * @param value The field as written
+ * @param field The field's name and range
+ * @returns The matched values, sorted
+ * @throws {Error} If the field has a value out of range or isn't valid syntax
+ */
+function parseCronField(value: string, field: typeof CRON_FIELDS[number]): number[] {
+  const toNumber = (text: string): number => {
+    const named = field.names?.indexOf(text.toUpperCase()) ?? -1;
+    const number = named !== -1 ? named + (field.names === MONTH_NAMES ? 1 : 0) : Number(text);
+    if ((named === -1 && !/^\d+$/.test(text)) || number < field.min || number > field.max) {
+      throw new Error(`invalid ${field.name} '${text}'`);
+    }
+    return number;
+  };
+
+  const values = new Set<number>();
+  value.split(',').forEach(part => {
+    const match = part.match(/^(\*|[^-/]+)(?:-([^/]+))?(?:\/(\d+))?$/);
+    if (!match) {
+      throw new Error(`invalid ${field.name} '${part}'`);
+    }
+    const step = match[3] !== undefined ? Number(match[3]) : 1;
+    if (step < 1) {
+      throw new Error(`invalid step in ${field.name} '${part}'`);
+    }
+    const from = match[1] === '*' ? field.min : toNumber(match[1]);
+    // A single value with a step runs to the end of the range, e.g. `5/15`
+    const to = match[1] === '*' || (match[2] === undefined && match[3] !== undefined)
+      ? field.max
+      : match[2] !== undefined ? toNumber(match[2]) : from;
+    if (to < from) {
+      throw new Error(`invalid range in ${field.name} '${part}'`);
+    }
+    for (let number = from; number <= to; number += step) {
+      values.add(number);
+    }
+  });
+  return Array.from(values).sort((a, b) => a - b);
+}
+
+/**
+ * Parse a POSIX cron expression, as used by `on.schedule`
+ * @param expression The cron expression, e.g. `30 5 * * 1-5`
+ * @returns The values matched by each field
+ * @throws {Error} If the expression doesn't have five valid fields
+ */
+export function parseCron(expression: string): CronSchedule {
+  const fields = expression.trim().split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw new Error(`expected ${CRON_FIELDS.length} fields, got ${fields.length}`);
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, index) =>
+    parseCronField(field, CRON_FIELDS[index]));
+  // Sunday can be written as 0 or 7
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek: Array.from(new Set(daysOfWeek.map(day => day % 7))).sort((a, b) => a - b)
+  };
+}
+
+/**
+ * Get the minutes of the week a cron schedule can start at. A schedule limited
+ * to days of the month can fall on any day of the week, so it is assumed to
+ * start every day; the month doesn't change the days of the week.
+ * @param schedule The parsed cron expression
+ * @returns The minutes of the week, counted from Sunday 00:00 UTC, sorted
+ */
+export function getWeeklyStarts(schedule: CronSchedule): number[] {
+  const days = schedule.daysOfMonth.length < 31 ? [0, 1, 2, 3, 4, 5, 6] : schedule.daysOfWeek;
+  return days.flatMap(day => schedule.hours.flatMap(hour =>
+    schedule.minutes.map(minute => (day * 24 + hour) * 60 + minute)));
+}
+
+/**
+ * Format a minute of the week, e.g. `Mon 09:00`
+ * @param minute The minute of the week, counted from Sunday 00:00
+ * @returns The day and time
+ */
+export function formatWeekMinute(minute: number): string {
+  const day = DAY_NAMES[Math.floor(minute / (24 * 60))];
+  const time = (value: number): string => String(value).padStart(2, '0');
+  return `${day[0]}${day.slice(1).toLowerCase()} ${time(Math.floor(minute / 60) % 24)}:${time(minute % 60)}`;
+}
+
+/**
+ * Suggest new minutes for cron entries starting together with other workflows.
+ * The heaviest workflows keep their schedule; entries of lighter workflows with
+ * a single minute move, within the same hours, to the minute where the fewest
+ * parallel jobs start with them.
+ * @param entries The cron entries of the scheduled workflows
+ * @returns The suggested changes, lightest workflows first
+ */
+function suggestStaggeredMinutes(entries: CronEntry[]): ScheduleSuggestion[] {
+  const startsOf = new Map(entries.map(entry => [entry, new Set(entry.starts)]));
+  // Load of the other workflows at a minute, in parallel jobs
+  const loadWithout = (entry: CronEntry, minute: number): number => {
+    const files = new Set(entries
+      .filter(other => other.result.file !== entry.result.file && startsOf.get(other)?.has(minute))
+      .map(other => other.result));
+    return Array.from(files).reduce((total, result) => total + result.concurrencyCount, 0);
+  };
+
+  const suggestions: ScheduleSuggestion[] = [];
+  [...entries]
+    .sort((a, b) => a.result.concurrencyCount - b.result.concurrencyCount)
+    .forEach(entry => {
+      const [minuteField, ...rest] = entry.cron.trim().split(/\s+/);
+      if (!/^\d+$/.test(minuteField)) {
+        return;
+      }
+      const original = Number(minuteField);
+      const worstLoad = (minute: number): number => Math.max(0,
+        ...entry.starts.map(start => loadWithout(entry, start - original + minute)));
+      const distance = (minute: number): number =>
+        Math.min(Math.abs(minute - original), 60 - Math.abs(minute - original));
+
+      let best = { minute: original, load: worstLoad(original) };
+      if (best.load === 0) {
+        return;
+      }
+      for (let minute = 0; minute < 60; minute++) {
+        const load = worstLoad(minute);
+        if (load < best.load || (load === best.load && distance(minute) < distance(best.minute))) {
+          best = { minute, load };
+        }
+      }
+      if (best.minute === original) {
+        return;
+      }
+
+      startsOf.set(entry, new Set(entry.starts.map(start => start - original + best.minute)));
+      suggestions.push({ file: entry.result.file, cron: entry.cron, suggested: [best.minute, ...rest].join(' ') });
+    });
+  return suggestions;
+}
+
+/**
+ * Build the weekly timeline of scheduled workflows: every minute at which
+ * workflows start, with their combined peak concurrency. Workflows started at
+ * different minutes aren't assumed to overlap, however long they run. Cron
+ * entries that can't be parsed are added to the workflow's warnings.
+ * @param workflows The analyzed workflows with their triggers
+ * @returns The distinct starts, the busiest one and the suggested staggered minutes
+ */
+export function calculateScheduleOverlap(
+  workflows: { result: WorkflowValidationResult; triggers: WorkflowTrigger[] }[]
+): ScheduleOverlap {
+  const entries: CronEntry[] = [];
+  workflows.forEach(({ result, triggers }) => {
+    triggers
+      .filter(trigger => trigger.event === 'schedule' && trigger.qualifier !== undefined)
+      .forEach(({ qualifier: cron = '' }) => {
+        try {
+          entries.push({ result, cron, starts: getWeeklyStarts(parseCron(cron)) });
+        } catch (error) {
+          result.warnings.push(`Can't read the schedule '${cron}': ${(error as Error).message}`);
+        }
+      });
+  });
+
+  const startingAt = new Map<number, Set<WorkflowValidationResult>>();
+  entries.forEach(entry => entry.starts.forEach(minute => {
+    startingAt.set(minute, (startingAt.get(minute) || new Set()).add(entry.result));
+  }));
+
+  // Minutes starting the same workflows are one entry of the timeline
+  const starts = new Map<string, ScheduledStart>();
+  Array.from(startingAt.keys())
+    .sort((a, b) => a - b)
+    .forEach(minute => {
+      const results = Array.from(startingAt.get(minute) as Set<WorkflowValidationResult>);
+      const files = results.map(result => result.file).sort();
+      const key = files.join('\n');
+      const start = starts.get(key);
+      if (start) {
+        start.occurrences++;
+        return;
+      }
+      starts.set(key, {
+        at: formatWeekMinute(minute),
+        minute,
+        occurrences: 1,
+        workflows: files,
+        count: results.reduce((total, result) => total + result.concurrencyCount, 0)
+      });
+    });
+
+  const timeline = Array.from(starts.values());
+  const peak = timeline.reduce<ScheduledStart | undefined>(
+    (busiest, start) => !busiest || start.count > busiest.count ? start : busiest, undefined);
+  return {
+    starts: timeline,
+    ...(peak ? { peak } : {}),
+    suggestions: suggestStaggeredMinutes(entries)
+  };
+}
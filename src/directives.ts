@@ -0,0 +1,144 @@
+import { UnresolvedMatrixValue } from './matrix';
+import { WorkflowJob } from './types';
+import { YamlKey } from './yaml-source';
+
+// Prefix of the comments read by the validator, e.g. `# concurrency-validator: max=20`
+const DIRECTIVE_PREFIX = /^concurrency-validator:\s*(.*)$/;
+
+/**
+ * Represents the inline comment directives given for a job
+ */
+export interface JobDirectives {
+  /** Leave the job out of the workflow's concurrency */
+  ignore?: boolean;
+  /** Check the job against its own limit, and count it as at most that many executions */
+  max?: number;
+  /** Number of combinations of the whole matrix */
+  matrixSize?: number;
+  /** Number of values of single matrix dimensions */
+  dimensionSizes: Record<string, number>;
+  /** Explanation given after `--` in the comment */
+  reason?: string;
+  /** Line of the first comment that suppresses the job */
+  line?: number;
+}
+
+/**
+ * Read the `# concurrency-validator:` comments of a workflow. Directives can be
+ * written at the end of, or on the line above, a job key or its `strategy.matrix`
+ * key; `matrix-size` can also be given for a single matrix dimension:
+ *
+ * ```yaml
+ * jobs:
+ *   e2e: # concurrency-validator: max=20 -- runs on the dedicated e2e pool
+ *     strategy:
+ *       matrix:
+ *         shard: ${{ fromJSON(needs.plan.outputs.shards) }} # concurrency-validator: matrix-size=5
+ * ```
+ * @param keys The keys of the workflow's YAML source, with their comments
+ * @param warnings Collects directives that are malformed or in the wrong place
+ * @returns The directives of each job
+ */
+export function parseDirectives(keys: YamlKey[], warnings: string[]): Map<string, JobDirectives> {
+  const directives = new Map<string, JobDirectives>();
+
+  keys.forEach(key => {
+    const comments = [...key.leadingComments, ...(key.comment !== undefined ? [key.comment] : [])];
+    comments.forEach(comment => {
+      const match = comment.match(DIRECTIVE_PREFIX);
+      if (!match) {
+        return;
+      }
+
+      const [jobsKey, jobKey, strategyKey, matrixKey, dimension] = key.path;
+      const onJob = key.path.length === 2;
+      const onMatrix = key.path.length === 4 && strategyKey === 'strategy' && matrixKey === 'matrix';
+      const onDimension = key.path.length === 5 && strategyKey === 'strategy' && matrixKey === 'matrix' &&
+        dimension !== 'include' && dimension !== 'exclude';
+      if (jobsKey !== 'jobs' || !(onJob || onMatrix || onDimension)) {
+        warnings.push(`concurrency-validator comment on line ${key.line} must be on a job or matrix key`);
+        return;
+      }
+
+      const [body, ...reason] = match[1].split(/\s+--\s+/);
+      const entry = directives.get(jobKey) || { dimensionSizes: {} };
+      body.split(/[\s,]+/).filter(token => token.length > 0).forEach(token => {
+        const [name, value] = token.split('=', 2);
+        const size = value !== undefined && /^\d+$/.test(value) ? parseInt(value) : NaN;
+
+        if (name === 'ignore' && value === undefined && !onDimension) {
+          entry.ignore = true;
+        } else if (name === 'max' && size > 0 && !onDimension) {
+          entry.max = size;
+        } else if (name === 'matrix-size' && size > 0) {
+          if (onDimension) {
+            entry.dimensionSizes[dimension] = size;
+          } else {
+            entry.matrixSize = size;
+          }
+          return;
+        } else {
+          warnings.push(`Invalid concurrency-validator directive '${token}' on line ${key.line}`);
+          return;
+        }
+
+        entry.line = entry.line ?? key.line;
+        if (reason.length > 0) {
+          entry.reason = reason.join(' -- ').trim();
+        }
+      });
+      directives.set(jobKey, entry);
+    });
+  });
+
+  return directives;
+}
+
+/**
+ * Find the directives that apply to a job. Directives of a job calling a reusable
+ * workflow apply to every job inlined from it.
+ * @param directives The directives of each job
+ * @param jobKey The job key, e.g. `build` or `build/compile` for an inlined job
+ * @returns The directives of the job, if any
+ */
+export function getJobDirectives(directives: Map<string, JobDirectives>, jobKey: string): JobDirectives | undefined {
+  return directives.get(jobKey) || directives.get(jobKey.split('/')[0]);
+}
+
+/**
+ * Replace the matrices sized by `matrix-size` directives with placeholder values
+ * @param jobs The jobs of the workflow
+ * @param directives The directives of each job
+ * @returns The jobs, with the sized matrices replaced
+ */
+export function applyMatrixSizeHints(
+  jobs: Record<string, WorkflowJob>,
+  directives: Map<string, JobDirectives>
+): Record<string, WorkflowJob> {
+  const result: Record<string, WorkflowJob> = {};
+
+  Object.entries(jobs).forEach(([jobKey, job]) => {
+    const entry = directives.get(jobKey);
+    const matrix = job.strategy?.matrix;
+    if (!entry || (entry.matrixSize === undefined && Object.keys(entry.dimensionSizes).length === 0)) {
+      result[jobKey] = job;
+      return;
+    }
+
+    let hinted: Record<string, unknown>;
+    if (entry.matrixSize !== undefined) {
+      // The size of the whole matrix is given, so its dimensions don't matter
+      hinted = { include: Array.from({ length: entry.matrixSize }, () => ({})) };
+    } else {
+      hinted = { ...(matrix && typeof matrix === 'object' ? matrix : {}) };
+      Object.entries(entry.dimensionSizes).forEach(([dimension, size]) => {
+        hinted[dimension] = Array.from({ length: size },
+          (_, index) => new UnresolvedMatrixValue(`${jobKey}.${dimension}`, index));
+      });
+    }
+
+    result[jobKey] = { ...job, strategy: { ...job.strategy, matrix: hinted } };
+  });
+
+  return result;
+}
@@ -0,0 +1,175 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { isInlinedJob } from './concurrency';
+import { evaluateCondition, evaluateTemplate, UNKNOWN } from './expressions';
+import { EventContext, SkippedJob, WorkflowJob } from './types';
+
+/**
+ * Parse the event-context input, a YAML or JSON mapping of the `github`,
+ * `inputs` and `vars` contexts, optionally with the event name on its own
+ * @param value The raw input value
+ * @param eventName Name of the event, e.g. `pull_request`, set as `github.event_name`
+ * @returns The event context, or undefined when neither is given
+ * @throws {Error} If the input isn't a mapping of known contexts to mappings
+ */
+export function parseEventContext(value: string | undefined, eventName?: string): EventContext | undefined {
+  let context: EventContext = {};
+  if (value && value.trim().length > 0) {
+    const parsed = yaml.load(value);
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new Error('event-context must be a mapping of contexts, e.g. github: { event_name: push }');
+    }
+    Object.entries(parsed).forEach(([name, values]) => {
+      if (name !== 'github' && name !== 'inputs' && name !== 'vars') {
+        throw new Error(`event-context can't contain '${name}'; only github, inputs and vars are known before a run`);
+      }
+      if (!values || typeof values !== 'object' || Array.isArray(values)) {
+        throw new Error(`event-context value for '${name}' must be a mapping`);
+      }
+    });
+    context = parsed as EventContext;
+  }
+
+  if (eventName) {
+    context = { ...context, github: { ...context.github, event_name: eventName } };
+  }
+  return Object.keys(context).length > 0 ? context : undefined;
+}
+
+/**
+ * Read an event context file
+ * @param workspace The repository root
+ * @param file Path of the YAML or JSON file, relative to the repository root
+ * @param eventName Name of the event, if given separately
+ * @returns The event context
+ * @throws {Error} If the file doesn't exist or isn't a valid event context
+ */
+export function loadEventContext(workspace: string, file: string, eventName?: string): EventContext | undefined {
+  const filePath = path.resolve(workspace, file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Event context file ${file} not found`);
+  }
+  return parseEventContext(fs.readFileSync(filePath, 'utf8'), eventName);
+}
+
+/**
+ * Describe a job's condition for messages
+ * @param condition The condition
+ * @returns The condition as written in the workflow
+ */
+function formatCondition(condition: unknown): string {
+  return `\`if: ${String(condition).trim()}\``;
+}
+
+/**
+ * Check whether a condition still runs the job when a job it needs was skipped
+ * @param condition The condition
+ * @returns Whether the condition uses always(), failure() or cancelled()
+ */
+function runsAfterSkippedNeeds(condition: unknown): boolean {
+  return typeof condition === 'string' && /\b(always|failure|cancelled)\s*\(/i.test(condition);
+}
+
+/**
+ * Evaluate a job's condition, treating invalid expressions as unknown
+ * @param jobKey The job key, for warnings
+ * @param condition The condition
+ * @param context The known contexts
+ * @param warnings Collects conditions that couldn't be evaluated
+ * @returns Whether the condition is statically false
+ */
+function isStaticallyFalse(jobKey: string, condition: unknown, context: EventContext, warnings: string[]): boolean {
+  try {
+    return evaluateCondition(condition, context) === false;
+  } catch (error) {
+    warnings.push(`Can't evaluate the condition of job '${jobKey}': ${(error as Error).message}`);
+    return false;
+  }
+}
+
+/**
+ * Find the jobs that don't run for an event: jobs whose `if` is false, jobs
+ * called by a skipped caller and jobs needing a skipped job, unless their `if`
+ * runs them anyway. Conditions depending on anything the context doesn't give
+ * are assumed to pass.
+ * @param jobs The jobs of the workflow, with reusable workflows inlined
+ * @param callers The workflow's own jobs, whose conditions apply to the jobs they call
+ * @param context The known contexts of the event
+ * @param warnings Collects conditions that couldn't be evaluated
+ * @returns The skipped jobs, with the reason each is skipped
+ */
+export function findSkippedJobs(
+  jobs: Record<string, WorkflowJob>,
+  callers: Record<string, WorkflowJob>,
+  context: EventContext,
+  warnings: string[]
+): SkippedJob[] {
+  const skipped = new Map<string, string>();
+  // The inputs of a called workflow aren't those of the event
+  const calleeContext: EventContext = { ...context, inputs: undefined };
+
+  Object.entries(jobs).forEach(([jobKey, job]) => {
+    const callerKey = isInlinedJob(job) ? job.calledBy.job : undefined;
+    const caller = callerKey !== undefined ? callers[callerKey] : undefined;
+    if (caller && isStaticallyFalse(callerKey as string, caller.if, context, warnings)) {
+      skipped.set(jobKey, `${formatCondition(caller.if)} of caller '${callerKey}' is false`);
+    } else if (isStaticallyFalse(jobKey, job.if, caller ? calleeContext : context, warnings)) {
+      skipped.set(jobKey, `${formatCondition(job.if)} is false`);
+    }
+  });
+
+  // Skipping spreads to dependents until nothing changes
+  let changed = skipped.size > 0;
+  while (changed) {
+    changed = false;
+    Object.entries(jobs)
+      .filter(([jobKey]) => !skipped.has(jobKey))
+      .forEach(([jobKey, job]) => {
+        const caller = isInlinedJob(job) ? callers[job.calledBy.job] : undefined;
+        const needs = job.needs ? (Array.isArray(job.needs) ? job.needs : [job.needs]) : [];
+        const skippedNeed = needs.find(need => skipped.has(need));
+        if (skippedNeed && !runsAfterSkippedNeeds(job.if) && !runsAfterSkippedNeeds(caller?.if)) {
+          skipped.set(jobKey, `needs skipped job '${skippedNeed}'`);
+          changed = true;
+        }
+      });
+  }
+
+  return Array.from(skipped, ([job, reason]) => ({ job, reason }));
+}
+
+/**
+ * Resolve the matrix expressions of jobs that only depend on the event's
+ * contexts, e.g. `${{ fromJSON(vars.PLATFORMS) }}`
+ * @param jobs The jobs of the workflow, with reusable workflows inlined
+ * @param context The known contexts of the event
+ * @returns The jobs, with every resolvable matrix expression replaced by its value
+ */
+export function resolveMatrixExpressions(
+  jobs: Record<string, WorkflowJob>,
+  context: EventContext
+): Record<string, WorkflowJob> {
+  const resolve = (job: WorkflowJob, value: unknown): unknown => {
+    if (typeof value !== 'string' || !value.includes('${{')) {
+      return value;
+    }
+    try {
+      const resolved = evaluateTemplate(value, isInlinedJob(job) ? { ...context, inputs: undefined } : context);
+      return resolved === UNKNOWN ? value : resolved;
+    } catch {
+      return value;
+    }
+  };
+
+  return Object.fromEntries(Object.entries(jobs).map(([jobKey, job]) => {
+    const matrix: unknown = job.strategy?.matrix;
+    if (!matrix || !job.strategy) {
+      return [jobKey, job];
+    }
+    const resolved = typeof matrix === 'string'
+      ? resolve(job, matrix)
+      : Object.fromEntries(Object.entries(matrix).map(([key, value]) => [key, resolve(job, value)]));
+    return [jobKey, { ...job, strategy: { ...job.strategy, matrix: resolved as Record<string, unknown> } }];
+  }));
+}
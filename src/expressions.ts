@@ -0,0 +1,518 @@
+import { EventContext } from './types';
+
+/**
+ * Placeholder for a value the analysis can't know, e.g. a job output or a
+ * property missing from the given event context
+ */
+export const UNKNOWN: unique symbol = Symbol('unknown');
+
+type Token =
+  | { kind: 'number' | 'string' | 'identifier'; value: string | number }
+  | { kind: 'punctuation'; value: string };
+
+type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'context'; name: string }
+  | { type: 'property'; object: ExpressionNode; name: string | ExpressionNode }
+  | { type: 'filter'; object: ExpressionNode }
+  | { type: 'not'; operand: ExpressionNode }
+  | { type: 'binary'; operator: string; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+// Contexts available in workflow expressions; only those in the event context can be known
+const CONTEXTS = new Set(['github', 'inputs', 'vars', 'env', 'needs', 'matrix', 'strategy', 'steps', 'job', 'jobs',
+  'runner', 'secrets']);
+
+// Operators by increasing precedence
+const BINARY_OPERATORS = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>=']];
+
+/**
+ * Represents the values selected by a `.*` filter, to which further property
+ * accesses are applied element by element
+ */
+class FilteredValues {
+  constructor(public readonly values: unknown[]) {}
+}
+
+/**
+ * Split an expression into tokens
+ * @param expression The expression, without `${{ }}`
+ * @returns The tokens
+ * @throws {Error} If the expression contains an unexpected character
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+    const space = rest.match(/^\s+/);
+    const number = rest.match(/^-?(0x[0-9a-f]+|(\d+\.?\d*|\.\d+)(e[+-]?\d+)?)(?![\w-])/i);
+    const string = rest.match(/^'((?:[^']|'')*)'/);
+    const identifier = rest.match(/^[a-z_][\w-]*/i);
+    const punctuation = rest.match(/^(==|!=|<=|>=|&&|\|\||[<>!()[\].,*])/);
+
+    if (space) {
+      index += space[0].length;
+    } else if (number) {
+      const magnitude = Number(number[1]);
+      tokens.push({ kind: 'number', value: number[0].startsWith('-') ? -magnitude : magnitude });
+      index += number[0].length;
+    } else if (string) {
+      tokens.push({ kind: 'string', value: string[1].replace(/''/g, "'") });
+      index += string[0].length;
+    } else if (identifier) {
+      tokens.push({ kind: 'identifier', value: identifier[0] });
+      index += identifier[0].length;
+    } else if (punctuation) {
+      tokens.push({ kind: 'punctuation', value: punctuation[0] });
+      index += punctuation[0].length;
+    } else {
+      throw new Error(`Unexpected character '${rest[0]}' in expression: ${expression}`);
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parse an expression into a syntax tree
+ * @param expression The expression, without `${{ }}`
+ * @returns The root node
+ * @throws {Error} If the expression isn't valid
+ */
+function parse(expression: string): ExpressionNode {
+  const tokens = tokenize(expression);
+  let position = 0;
+
+  const fail = (message: string): never => {
+    throw new Error(`${message} in expression: ${expression}`);
+  };
+  const peek = (value: string): boolean =>
+    tokens[position]?.kind === 'punctuation' && tokens[position].value === value;
+  const expect = (value: string): void => {
+    if (!peek(value)) {
+      fail(`Expected '${value}'`);
+    }
+    position++;
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === BINARY_OPERATORS.length) {
+      return parseUnary();
+    }
+    let left = parseBinary(level + 1);
+    while (BINARY_OPERATORS[level].some(peek)) {
+      const operator = tokens[position++].value as string;
+      left = { type: 'binary', operator, left, right: parseBinary(level + 1) };
+    }
+    return left;
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    if (peek('!')) {
+      position++;
+      return { type: 'not', operand: parseUnary() };
+    }
+    let node = parsePrimary();
+    for (;;) {
+      if (peek('.')) {
+        position++;
+        if (peek('*')) {
+          position++;
+          node = { type: 'filter', object: node };
+        } else if (tokens[position]?.kind === 'identifier') {
+          node = { type: 'property', object: node, name: tokens[position++].value as string };
+        } else {
+          fail('Expected a property name');
+        }
+      } else if (peek('[')) {
+        position++;
+        if (peek('*')) {
+          position++;
+          node = { type: 'filter', object: node };
+        } else {
+          node = { type: 'property', object: node, name: parseBinary(0) };
+        }
+        expect(']');
+      } else {
+        return node;
+      }
+    }
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = tokens[position++];
+    if (!token) {
+      return fail('Unexpected end');
+    }
+    if (token.kind === 'number' || token.kind === 'string') {
+      return { type: 'literal', value: token.value };
+    }
+    if (token.kind === 'punctuation') {
+      if (token.value !== '(') {
+        return fail(`Unexpected '${token.value}'`);
+      }
+      const node = parseBinary(0);
+      expect(')');
+      return node;
+    }
+
+    const name = token.value as string;
+    if (peek('(')) {
+      position++;
+      const args: ExpressionNode[] = [];
+      while (!peek(')')) {
+        if (args.length > 0) {
+          expect(',');
+        }
+        args.push(parseBinary(0));
+      }
+      position++;
+      return { type: 'call', name: name.toLowerCase(), args };
+    }
+    switch (name) {
+      case 'true':
+        return { type: 'literal', value: true };
+      case 'false':
+        return { type: 'literal', value: false };
+      case 'null':
+        return { type: 'literal', value: null };
+      default:
+        if (!CONTEXTS.has(name.toLowerCase())) {
+          fail(`Unrecognized named-value '${name}'`);
+        }
+        return { type: 'context', name: name.toLowerCase() };
+    }
+  };
+
+  const root = parseBinary(0);
+  if (position < tokens.length) {
+    fail(`Unexpected '${tokens[position].value}'`);
+  }
+  return root;
+}
+
+/**
+ * Check whether a value is an object or array, which only equals itself
+ * @param value The value to check
+ * @returns Whether the value is an object or array
+ */
+function isObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null;
+}
+
+/**
+ * Convert a value to a number the way GitHub does for comparisons
+ * @param value The value
+ * @returns The number, NaN for objects, arrays and non-numeric strings
+ */
+function toNumber(value: unknown): number {
+  if (value === null) {
+    return 0;
+  }
+  if (typeof value === 'boolean') {
+    return value ? 1 : 0;
+  }
+  if (typeof value === 'string') {
+    return value.trim() === '' ? 0 : Number(value.trim());
+  }
+  return typeof value === 'number' ? value : NaN;
+}
+
+/**
+ * Convert a value to a string the way GitHub does when formatting it
+ * @param value The value
+ * @returns The string
+ */
+export function expressionToString(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (Array.isArray(value)) {
+    return 'Array';
+  }
+  return isObject(value) ? 'Object' : String(value);
+}
+
+/**
+ * Check whether a value is truthy: everything except `false`, `0`, `-0`, `NaN`, `''` and `null`
+ * @param value The value
+ * @returns Whether the value is truthy
+ */
+function isTruthy(value: unknown): boolean {
+  return !(value === false || value === null || value === undefined || value === '' ||
+    (typeof value === 'number' && (value === 0 || isNaN(value))));
+}
+
+/**
+ * Compare two values loosely, like the `==` operator: values of different types
+ * are compared as numbers and strings are compared ignoring case
+ * @param a The first value
+ * @param b The second value
+ * @returns Whether the values are equal
+ */
+function looseEquals(a: unknown, b: unknown): boolean {
+  if (isObject(a) || isObject(b)) {
+    return a === b;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a.toUpperCase() === b.toUpperCase();
+  }
+  if (typeof a === typeof b && a !== null) {
+    return a === b;
+  }
+  return toNumber(a) === toNumber(b);
+}
+
+/**
+ * Compare two values loosely, like the `<`, `<=`, `>` and `>=` operators
+ * @param a The first value
+ * @param b The second value
+ * @returns Negative, zero or positive like a sort comparator, or NaN if the values can't be ordered
+ */
+function looseCompare(a: unknown, b: unknown): number {
+  if (isObject(a) || isObject(b)) {
+    return NaN;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    const [upperA, upperB] = [a.toUpperCase(), b.toUpperCase()];
+    return upperA < upperB ? -1 : upperA > upperB ? 1 : 0;
+  }
+  return toNumber(a) - toNumber(b);
+}
+
+/**
+ * Format a string like the `format` function, e.g. `format('{0} {{1}}', 'a')` is `a {1}`
+ * @param text The format string
+ * @param args The values replacing `{0}`, `{1}`, ...
+ * @returns The formatted string
+ * @throws {Error} If the format string is invalid or refers to a missing argument
+ */
+function formatString(text: string, args: unknown[]): string {
+  return text.replace(/\{\{|\}\}|\{(\d+)\}|[{}]/g, (match, index) => {
+    if (match === '{{' || match === '}}') {
+      return match[0];
+    }
+    if (index === undefined || Number(index) >= args.length) {
+      throw new Error(`Invalid format string: ${text}`);
+    }
+    return expressionToString(args[Number(index)]);
+  });
+}
+
+/**
+ * Call a built-in function
+ * @param name The function name, in lower case
+ * @param args The evaluated arguments
+ * @returns The result, UNKNOWN when it depends on an unknown value or on the job's runtime
+ * @throws {Error} If the function doesn't exist, gets the wrong number of arguments or can't parse its JSON
+ */
+function callFunction(name: string, args: unknown[]): unknown {
+  const arity: Record<string, [number, number]> = {
+    contains: [2, 2], startswith: [2, 2], endswith: [2, 2], format: [1, Infinity], join: [1, 2],
+    tojson: [1, 1], fromjson: [1, 1], hashfiles: [1, Infinity],
+    success: [0, 0], always: [0, 0], failure: [0, 0], cancelled: [0, 0]
+  };
+  if (!(name in arity)) {
+    throw new Error(`Unrecognized function '${name}'`);
+  }
+  if (args.length < arity[name][0] || args.length > arity[name][1]) {
+    throw new Error(`Wrong number of arguments for '${name}'`);
+  }
+
+  switch (name) {
+    // Jobs are counted as if everything before them succeeds
+    case 'success':
+    case 'always':
+      return true;
+    case 'failure':
+    case 'cancelled':
+    case 'hashfiles':
+      return UNKNOWN;
+  }
+  if (args.includes(UNKNOWN)) {
+    return UNKNOWN;
+  }
+
+  switch (name) {
+    case 'contains':
+      return Array.isArray(args[0])
+        ? args[0].some(item => looseEquals(item, args[1]))
+        : expressionToString(args[0]).toUpperCase().includes(expressionToString(args[1]).toUpperCase());
+    case 'startswith':
+      return expressionToString(args[0]).toUpperCase().startsWith(expressionToString(args[1]).toUpperCase());
+    case 'endswith':
+      return expressionToString(args[0]).toUpperCase().endsWith(expressionToString(args[1]).toUpperCase());
+    case 'format':
+      return formatString(expressionToString(args[0]), args.slice(1));
+    case 'join': {
+      const separator = args.length > 1 ? expressionToString(args[1]) : ',';
+      return Array.isArray(args[0]) ? args[0].map(expressionToString).join(separator) : expressionToString(args[0]);
+    }
+    case 'tojson':
+      return JSON.stringify(args[0] ?? null, null, 2);
+    default:
+      try {
+        return JSON.parse(expressionToString(args[0]));
+      } catch {
+        throw new Error(`fromJSON got invalid JSON: ${expressionToString(args[0])}`);
+      }
+  }
+}
+
+/**
+ * Get a property of a value. Properties missing from an object are unknown
+ * rather than null, since the given context is usually incomplete.
+ * @param object The value
+ * @param name The property name or array index
+ * @returns The property value
+ */
+function getProperty(object: unknown, name: unknown): unknown {
+  if (object instanceof FilteredValues) {
+    return new FilteredValues(object.values
+      .map(value => getProperty(value, name))
+      .filter(value => value !== null && value !== UNKNOWN));
+  }
+  if (object === UNKNOWN || name === UNKNOWN) {
+    return UNKNOWN;
+  }
+  if (Array.isArray(object)) {
+    const index = toNumber(name);
+    return Number.isInteger(index) && index >= 0 && index < object.length ? object[index] : null;
+  }
+  if (!isObject(object)) {
+    return null;
+  }
+
+  // Property names are case-insensitive
+  const key = expressionToString(name).toLowerCase();
+  const entry = Object.entries(object).find(([property]) => property.toLowerCase() === key);
+  return entry ? entry[1] : UNKNOWN;
+}
+
+/**
+ * Evaluate a syntax tree
+ * @param node The node to evaluate
+ * @param context The known contexts
+ * @returns The value
+ */
+function evaluateNode(node: ExpressionNode, context: EventContext): unknown {
+  const evaluate = (child: ExpressionNode): unknown => {
+    const value = evaluateNode(child, context);
+    return value instanceof FilteredValues ? value.values : value;
+  };
+
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'context': {
+      const value = (context as Record<string, unknown>)[node.name];
+      return value === undefined ? UNKNOWN : value;
+    }
+    case 'property':
+      return getProperty(evaluateNode(node.object, context),
+        typeof node.name === 'string' ? node.name : evaluate(node.name));
+    case 'filter': {
+      const object = evaluate(node.object);
+      if (object === UNKNOWN) {
+        return UNKNOWN;
+      }
+      return new FilteredValues(Array.isArray(object) ? object : isObject(object) ? Object.values(object) : []);
+    }
+    case 'not': {
+      const operand = evaluate(node.operand);
+      return operand === UNKNOWN ? UNKNOWN : !isTruthy(operand);
+    }
+    case 'call':
+      return callFunction(node.name, node.args.map(evaluate));
+  }
+
+  const left = evaluate(node.left);
+  if (node.operator === '&&' || node.operator === '||') {
+    // Short-circuit on a known operand; an unknown one only matters if the other doesn't decide
+    const decides = (value: unknown): boolean => value !== UNKNOWN && isTruthy(value) === (node.operator === '||');
+    if (decides(left)) {
+      return left;
+    }
+    const right = evaluate(node.right);
+    if (left !== UNKNOWN || decides(right)) {
+      return right;
+    }
+    return UNKNOWN;
+  }
+
+  const right = evaluate(node.right);
+  if (left === UNKNOWN || right === UNKNOWN) {
+    return UNKNOWN;
+  }
+  switch (node.operator) {
+    case '==':
+      return looseEquals(left, right);
+    case '!=':
+      return !looseEquals(left, right);
+    case '<':
+      return looseCompare(left, right) < 0;
+    case '<=':
+      return looseCompare(left, right) <= 0;
+    case '>':
+      return looseCompare(left, right) > 0;
+    default:
+      return looseCompare(left, right) >= 0;
+  }
+}
+
+/**
+ * Evaluate an expression, e.g. `github.event_name == 'push' && !contains(github.ref, 'tmp')`
+ * @param expression The expression, without `${{ }}`
+ * @param context The known contexts; any other context is unknown
+ * @returns The value, or UNKNOWN if it depends on something the context doesn't give
+ * @throws {Error} If the expression isn't valid or fromJSON gets invalid JSON
+ */
+export function evaluateExpression(expression: string, context: EventContext = {}): unknown {
+  const value = evaluateNode(parse(expression), context);
+  return value instanceof FilteredValues ? value.values : value;
+}
+
+/**
+ * Evaluate a workflow value that may contain `${{ }}` expressions. A value that
+ * is a single expression keeps the expression's type; otherwise the expressions
+ * are formatted into the surrounding text.
+ * @param value The value, e.g. `${{ fromJSON('["a", "b"]') }}`
+ * @param context The known contexts
+ * @returns The value, or UNKNOWN if it depends on something the context doesn't give
+ * @throws {Error} If an expression isn't valid
+ */
+export function evaluateTemplate(value: string, context: EventContext = {}): unknown {
+  const single = value.match(/^\s*\$\{\{([\s\S]*?)\}\}\s*$/);
+  if (single && !single[1].includes('${{')) {
+    return evaluateExpression(single[1], context);
+  }
+
+  let unknown = false;
+  const text = value.replace(/\$\{\{([\s\S]*?)\}\}/g, (match, expression) => {
+    const result = evaluateExpression(expression, context);
+    unknown = unknown || result === UNKNOWN;
+    return expressionToString(result);
+  });
+  return unknown ? UNKNOWN : text;
+}
+
+/**
+ * Evaluate the `if` condition of a job. Like GitHub, the condition may be
+ * written with or without `${{ }}`; text around an expression makes it a
+ * string, which is always true.
+ * @param condition The condition, undefined when the job has none
+ * @param context The known contexts
+ * @returns Whether the job runs, or undefined if that's only known at runtime
+ * @throws {Error} If the condition isn't a valid expression
+ */
+export function evaluateCondition(condition: unknown, context: EventContext = {}): boolean | undefined {
+  if (condition === undefined || condition === null) {
+    return true;
+  }
+  const value = typeof condition === 'string'
+    ? condition.includes('${{') ? evaluateTemplate(condition, context) : evaluateExpression(condition, context)
+    : condition;
+  return value === UNKNOWN ? undefined : isTruthy(value);
+}
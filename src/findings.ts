@@ -0,0 +1,220 @@
+import { IssueLocation, WorkflowFinding, WorkflowValidationResult } from './types';
+
+// Maximum number of jobs a matrix can generate per workflow run
+export const MAX_MATRIX_SIZE = 256;
+
+// Job IDs start with a letter or `_` and contain only alphanumeric characters, `-` and `_`
+const JOB_ID_PATTERN = /^[A-Za-z_][A-Za-z0-9_-]*$/;
+
+/**
+ * Get the location of a job, or of one of its nodes, in its workflow file
+ * @param result The validation result of the workflow
+ * @param jobKey The job
+ * @param node The node to point at; falls back to the job's key if the node isn't found
+ * @returns The location of the job
+ */
+export function getJobLocation(
+  result: WorkflowValidationResult,
+  jobKey: string,
+  node: 'job' | 'matrix' = 'job'
+): IssueLocation {
+  const positions = result.jobPositions[jobKey];
+  const position = positions && (node === 'matrix' && positions.matrix ? positions.matrix : positions.job);
+  return { file: result.file, job: jobKey, ...(position ? { position } : {}) };
+}
+
+/**
+ * Get the location of a `needs` entry of a job
+ * @param result The validation result of the workflow
+ * @param jobKey The job
+ * @param need The needed job
+ * @param owner The job to report the location for, e.g. the caller whose `needs` an inlined job inherits
+ * @returns The location of the needs entry, or of the job when the entry can't be located
+ */
+function getNeedsLocation(result: WorkflowValidationResult, jobKey: string, need: string, owner = jobKey): IssueLocation {
+  const position = result.jobPositions[jobKey]?.needs[need];
+  return position ? { file: result.file, job: owner, position } : { ...getJobLocation(result, jobKey), job: owner };
+}
+
+/**
+ * Find references to jobs that don't exist. Jobs inlined from a reusable
+ * workflow inherit the needs of their caller, which are reported once, for the caller.
+ * @param result The validation result of the workflow
+ * @returns The findings, located at the needs entries
+ */
+function findUnknownNeeds(result: WorkflowValidationResult): WorkflowFinding[] {
+  const reported = new Set<string>();
+  return Object.entries(result.dependencies).flatMap(([jobKey, needs]) => needs
+    .filter(need => !(need in result.dependencies))
+    .flatMap(need => {
+      let owner = jobKey;
+      while (owner.includes('/') && !need.startsWith(owner.slice(0, owner.lastIndexOf('/') + 1))) {
+        owner = owner.slice(0, owner.lastIndexOf('/'));
+      }
+      if (reported.has(`${owner}\n${need}`)) {
+        return [];
+      }
+      reported.add(`${owner}\n${need}`);
+      return [{
+        type: 'unknown-needs' as const,
+        severity: 'error' as const,
+        file: result.file,
+        message: `Job '${owner}' needs '${need}', which isn't a job of the workflow`,
+        locations: [getNeedsLocation(result, jobKey, need, owner)]
+      }];
+    }));
+}
+
+/**
+ * Find the shortest path of `needs` from a job back to itself. Works on any
+ * graph given as a function from a node to the nodes it points at.
+ * @param start The job
+ * @param getNeeds Returns the jobs a job needs
+ * @returns The jobs on the cycle, starting and ending with the job, or undefined if it isn't on one
+ */
+export function findCycle(start: string, getNeeds: (jobKey: string) => string[]): string[] | undefined {
+  const previous = new Map<string, string>();
+  const queue = [start];
+  while (queue.length > 0) {
+    const jobKey = queue.shift() as string;
+    for (const need of getNeeds(jobKey)) {
+      if (need === start) {
+        const path = [jobKey];
+        while (path[0] !== start) {
+          path.unshift(previous.get(path[0]) as string);
+        }
+        return [...path, start];
+      }
+      if (!previous.has(need)) {
+        previous.set(need, jobKey);
+        queue.push(need);
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Find the dependency cycles that keep jobs from starting, including jobs that
+ * need themselves. Jobs that only wait on a cycle are reported with the first
+ * cycle they wait on.
+ * @param result The validation result of the workflow
+ * @returns The findings, located at the needs entries that make up each cycle
+ */
+function findCyclicNeeds(result: WorkflowValidationResult): WorkflowFinding[] {
+  const cyclic = new Set(result.cyclicJobs);
+  const getNeeds = (jobKey: string): string[] => (result.dependencies[jobKey] || []).filter(need => cyclic.has(need));
+
+  const cycles: string[][] = [];
+  const onCycle = new Set<string>();
+  result.cyclicJobs.forEach(jobKey => {
+    const cycle = onCycle.has(jobKey) ? undefined : findCycle(jobKey, getNeeds);
+    if (cycle) {
+      cycles.push(cycle);
+      cycle.forEach(member => onCycle.add(member));
+    }
+  });
+
+  // Every other remaining job waits on a cycle, directly or through other jobs
+  const waiting = cycles.map(() => [] as string[]);
+  result.cyclicJobs
+    .filter(jobKey => !onCycle.has(jobKey))
+    .forEach(jobKey => {
+      const reachable = new Set<string>();
+      const stack = [jobKey];
+      while (stack.length > 0) {
+        getNeeds(stack.pop() as string)
+          .filter(need => !reachable.has(need))
+          .forEach(need => {
+            reachable.add(need);
+            stack.push(need);
+          });
+      }
+      const index = cycles.findIndex(cycle => cycle.some(member => reachable.has(member)));
+      if (index !== -1) {
+        waiting[index].push(jobKey);
+      }
+    });
+
+  return cycles.map((cycle, index) => {
+    const blocked = waiting[index].length > 0
+      ? `; ${waiting[index].map(job => `'${job}'`).join(', ')} can't start either`
+      : '';
+    const locations = cycle.slice(0, -1).map((jobKey, position) => getNeedsLocation(result, jobKey, cycle[position + 1]));
+    return cycle.length === 2
+      ? {
+        type: 'self-needs' as const,
+        severity: 'error' as const,
+        file: result.file,
+        message: `Job '${cycle[0]}' needs itself, so it can't start${blocked}`,
+        locations
+      }
+      : {
+        type: 'cyclic-needs' as const,
+        severity: 'error' as const,
+        file: result.file,
+        message: `Jobs can't start because of circular needs: ${cycle.join(' → ')}${blocked}`,
+        locations
+      };
+  });
+}
+
+/**
+ * Find job IDs GitHub doesn't accept. The IDs of inlined jobs are checked one
+ * workflow at a time, e.g. both `deploy` and `smoke` in `deploy/smoke`.
+ * @param result The validation result of the workflow
+ * @returns The findings, located at the jobs
+ */
+function findInvalidJobIds(result: WorkflowValidationResult): WorkflowFinding[] {
+  const reported = new Set<string>();
+  const jobKeys = [...Object.keys(result.dependencies), ...result.skippedJobs.map(skipped => skipped.job)];
+  return jobKeys.flatMap(jobKey => {
+    const ids = jobKey.split('/');
+    const index = ids.findIndex(id => !JOB_ID_PATTERN.test(id));
+    const invalid = ids.slice(0, index + 1).join('/');
+    if (index === -1 || reported.has(invalid)) {
+      return [];
+    }
+    reported.add(invalid);
+    return [{
+      type: 'invalid-job-id' as const,
+      severity: 'error' as const,
+      file: result.file,
+      message: `Job ID '${ids[index]}' is invalid: it must start with a letter or '_' and contain only ` +
+        "alphanumeric characters, '-' and '_'",
+      locations: [getJobLocation(result, jobKey)]
+    }];
+  });
+}
+
+/**
+ * Collect the problems in the structure of a workflow: references to jobs that
+ * don't exist, circular `needs`, matrices over GitHub's limit and invalid job
+ * IDs, which GitHub rejects, and guessed matrix sizes, which make the analysis
+ * less reliable
+ * @param result The validation result of the workflow
+ * @returns The findings, located at the matrix, needs entries or jobs involved
+ */
+export function getWorkflowFindings(result: WorkflowValidationResult): WorkflowFinding[] {
+  return [
+    ...result.unresolvedMatrices.map(job => ({
+      type: 'unresolved-dynamic-matrix' as const,
+      severity: 'warning' as const,
+      file: result.file,
+      message: `The matrix size of job '${job}' is only known at runtime and was guessed`,
+      locations: [getJobLocation(result, job, 'matrix')]
+    })),
+    ...findUnknownNeeds(result),
+    ...findCyclicNeeds(result),
+    ...Object.entries(result.matrixSizes)
+      .filter(([, size]) => size > MAX_MATRIX_SIZE)
+      .map(([job, size]) => ({
+        type: 'matrix-limit' as const,
+        severity: 'error' as const,
+        file: result.file,
+        message: `The matrix of job '${job}' has ${size} combinations, more than GitHub's limit of ${MAX_MATRIX_SIZE}`,
+        locations: [getJobLocation(result, job, 'matrix')]
+      })),
+    ...findInvalidJobIds(result)
+  ];
+}
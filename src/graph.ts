@@ -0,0 +1,123 @@
+import { WorkflowValidationResult } from './types';
+
+/**
+ * Represents a job in the rendered job graph
+ */
+interface GraphNode {
+  /** Identifier of the node, safe to use in Mermaid and DOT */
+  id: string;
+  /** Lines of the node's label, starting with the job key */
+  lines: string[];
+  /** Whether the job is part of the peak concurrency */
+  peak: boolean;
+  /** Whether the job is left out of the workflow's concurrency */
+  suppressed: boolean;
+}
+
+/**
+ * Collect the nodes and edges of a workflow's job graph. Each node is labeled
+ * with the job's matrix size (and its confidence when it isn't exact), runner
+ * labels and the caps applied to it.
+ * @param result The validation result of the workflow
+ * @returns The nodes, keyed by job, and the edges from each needed job to its dependent
+ */
+function getGraph(result: WorkflowValidationResult): { nodes: Map<string, GraphNode>; edges: [string, string][] } {
+  const nodes = new Map<string, GraphNode>();
+  const peak = new Set(result.peakJobs);
+
+  result.jobs.forEach(job => {
+    const detail = result.details.find(entry => entry.jobs?.includes(job.job));
+    const matrixSize = detail?.matrixSizes?.[job.job] ?? job.count;
+    const lines = [job.job];
+    if (matrixSize > 1) {
+      lines.push(`matrix: ${matrixSize}${job.confidence !== 'exact' ? ` (${job.confidence})` : ''}`);
+    }
+    if (job.runsOn.length > 0) {
+      lines.push(`runs-on: ${job.runsOn.join(', ')}`);
+    }
+    (detail?.caps || [])
+      .filter(cap => cap.jobs.includes(job.job))
+      .forEach(cap => lines.push(`${cap.reason} (${cap.uncapped} → ${cap.capped})`));
+    if (job.limit !== undefined) {
+      lines.push(`limit: ${job.limit}`);
+    }
+    if (job.ignored) {
+      lines.push('suppressed');
+    }
+    nodes.set(job.job, { id: `job${nodes.size + 1}`, lines, peak: peak.has(job.job), suppressed: !!job.ignored });
+  });
+
+  // Jobs in a dependency cycle aren't scheduled, but still belong in the picture
+  result.cyclicJobs.forEach(jobKey => {
+    nodes.set(jobKey, { id: `job${nodes.size + 1}`, lines: [jobKey, 'circular needs'], peak: false, suppressed: false });
+  });
+
+  const edges: [string, string][] = [];
+  Object.entries(result.dependencies).forEach(([jobKey, needs]) => {
+    needs
+      .filter(need => nodes.has(need) && nodes.has(jobKey))
+      .forEach(need => edges.push([need, jobKey]));
+  });
+
+  return { nodes, edges };
+}
+
+/**
+ * Render the job graph of a workflow as a Mermaid flowchart, with the jobs
+ * making up the peak concurrency highlighted
+ * @param result The validation result of the workflow
+ * @returns The Mermaid source, without code fences
+ */
+export function renderMermaidGraph(result: WorkflowValidationResult): string {
+  const escape = (text: string): string => text
+    .replace(/#/g, '#35;')
+    .replace(/"/g, '#quot;')
+    .replace(/</g, '#lt;')
+    .replace(/>/g, '#gt;');
+  const { nodes, edges } = getGraph(result);
+  const lines = ['flowchart LR'];
+
+  nodes.forEach(node => lines.push(`  ${node.id}["${node.lines.map(escape).join('<br/>')}"]`));
+  edges.forEach(([from, to]) => lines.push(`  ${nodes.get(from)?.id} --> ${nodes.get(to)?.id}`));
+
+  const peak = Array.from(nodes.values()).filter(node => node.peak).map(node => node.id);
+  const suppressed = Array.from(nodes.values()).filter(node => node.suppressed).map(node => node.id);
+  if (peak.length > 0) {
+    lines.push('  classDef peak fill:#ffebe9,stroke:#cf222e,stroke-width:2px', `  class ${peak.join(',')} peak`);
+  }
+  if (suppressed.length > 0) {
+    lines.push('  classDef suppressed stroke-dasharray:4 3,color:#6e7781', `  class ${suppressed.join(',')} suppressed`);
+  }
+
+  return lines.join('\n');
+}
+
+/**
+ * Render the job graph of a workflow as a Graphviz DOT digraph, with the jobs
+ * making up the peak concurrency highlighted
+ * @param result The validation result of the workflow
+ * @returns The DOT source
+ */
+export function renderDotGraph(result: WorkflowValidationResult): string {
+  const quote = (text: string): string => `"${text.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+  const { nodes, edges } = getGraph(result);
+  const lines = [
+    `digraph ${quote(result.file)} {`,
+    '  rankdir=LR;',
+    '  node [shape=box];'
+  ];
+
+  nodes.forEach(node => {
+    const attributes = [`label=${quote(node.lines.join('\n')).replace(/\n/g, '\\n')}`];
+    if (node.peak) {
+      attributes.push('style=filled', 'fillcolor="#ffebe9"', 'color="#cf222e"', 'penwidth=2');
+    } else if (node.suppressed) {
+      attributes.push('style=dashed', 'fontcolor="#6e7781"');
+    }
+    lines.push(`  ${node.id} [${attributes.join(', ')}];`);
+  });
+  edges.forEach(([from, to]) => lines.push(`  ${nodes.get(from)?.id} -> ${nodes.get(to)?.id};`));
+  lines.push('}');
+
+  return lines.join('\n');
+}
@@ -0,0 +1,74 @@
+export {
+  analyzeWorkflow,
+  validateWorkflows,
+  formatIssue,
+  formatSuppression,
+  DEFAULT_MAX_CONCURRENCY
+} from './analyze';
+export {
+  compareWithBaseline,
+  createBaseline,
+  loadBaselineFile,
+  loadGitBaseline,
+  parseBaseline
+} from './baseline';
+export { DEFAULT_CONFIG_PATH, loadConfig, parseConfig } from './config';
+export {
+  calculateWorkflowCost,
+  DEFAULT_JOB_TIMEOUT,
+  DEFAULT_RUNNER_MULTIPLIERS,
+  getJobTimeout,
+  getRunnerMultiplier,
+  parseCostMultipliers
+} from './cost';
+export { calculateScheduleOverlap, formatWeekMinute, getWeeklyStarts, parseCron } from './cron';
+export { loadEventContext, parseEventContext } from './events';
+export { evaluateCondition, evaluateExpression, evaluateTemplate, UNKNOWN } from './expressions';
+export { getWorkflowFindings, MAX_MATRIX_SIZE } from './findings';
+export { renderDotGraph, renderMermaidGraph } from './graph';
+export {
+  calculateMatrixSize,
+  DEFAULT_MATRIX_SIZE,
+  expandMatrix,
+  getMatrixConfidence,
+  getMatrixProviders,
+  UnresolvedMatrixValue
+} from './matrix';
+export {
+  COMMENT_MARKER,
+  createCommentBody,
+  getPullRequestContext,
+  updatePullRequestComment,
+  PullRequestContext
+} from './pr-comment';
+export {
+  calculatePipelines,
+  formatPipelineChains,
+  getPipelineEdges,
+  MAX_WORKFLOW_RUN_DEPTH
+} from './pipelines';
+export {
+  calculatePlanCapacity,
+  DEFAULT_PLAN_GPU_LABEL,
+  formatPlanLimits,
+  getPlanRunnerLimits,
+  parsePlan,
+  PLAN_PRESETS,
+  PLAN_MACOS_LABEL,
+  resolvePlanLimits
+} from './plans';
+export { parseRunnerLimits } from './runners';
+export {
+  BUILT_IN_RULES,
+  checkRules,
+  DEFAULT_RULE_MATRIX_SIZE,
+  loadRuleModule,
+  ResolvedRule,
+  resolveRules
+} from './rules';
+export { createSarifLog, SarifLog, SarifResult, SarifRuleId } from './sarif';
+export { DEFAULT_JOB_DURATION, loadDurations, parseDurations } from './simulation';
+export { createStepSummary, getExecutionGroups, ExecutionGroup } from './summary';
+export { getWorkflowTriggers } from './triggers';
+export { createWorkspaceLoader, parseWorkflow } from './workflow-files';
+export * from './types';
@@ -0,0 +1,83 @@
+/**
+ * Represents where an error, warning or notice annotation is shown
+ */
+export interface AnnotationProperties {
+  /** Path of the file, relative to the repository root */
+  file?: string;
+  /** 1-based line in the file */
+  line?: number;
+  /** 1-based column in the file */
+  col?: number;
+  /** Title shown above the message */
+  title?: string;
+}
+
+/**
+ * Format a workflow command, escaping its message and properties
+ * @param command The command name, e.g. error
+ * @param message The message
+ * @param properties The annotation properties
+ * @returns The workflow command line
+ */
+function formatCommand(command: string, message: string, properties: AnnotationProperties = {}): string {
+  const escapeData = (value: string): string => value
+    .replace(/%/g, '%25')
+    .replace(/\r/g, '%0D')
+    .replace(/\n/g, '%0A');
+  const escapeProperty = (value: string): string => escapeData(value)
+    .replace(/:/g, '%3A')
+    .replace(/,/g, '%2C');
+
+  const props = Object.entries(properties)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => `${key}=${escapeProperty(String(value))}`)
+    .join(',');
+  return `::${command}${props ? ` ${props}` : ''}::${escapeData(message)}`;
+}
+
+/**
+ * Utility class for formatted logging in GitHub Actions
+ */
+export class Logger {
+  static group(name: string): void {
+    console.log(`::group::${name}`);
+  }
+
+  static endGroup(): void {
+    console.log('::endgroup::');
+  }
+
+  static error(message: string, properties?: AnnotationProperties): void {
+    console.log(formatCommand('error', message, properties));
+  }
+
+  static warning(message: string, properties?: AnnotationProperties): void {
+    console.log(formatCommand('warning', message, properties));
+  }
+
+  static notice(message: string, properties?: AnnotationProperties): void {
+    console.log(formatCommand('notice', message, properties));
+  }
+
+  static debug(message: string): void {
+    console.log(`::debug::${message}`);
+  }
+
+  static info(message: string): void {
+    console.log(message);
+  }
+
+  static success(message: string): void {
+    console.log(`✅ ${message}`);
+  }
+
+  static fail(message: string): void {
+    console.log(`❌ ${message}`);
+  }
+
+  static summary(title: string, content: string): void {
+    Logger.group(title);
+    Logger.info(content);
+    Logger.endGroup();
+  }
+}
@@ -0,0 +1,677 @@
+import path from 'path';
+import { evaluateTemplate, UNKNOWN } from './expressions';
+import { MatrixConfidence, WorkflowJob, WorkflowLoader } from './types';
+
+/**
+ * Represents a job or step output, as far as it can be inferred from the workflow
+ */
+export interface InferredOutput {
+  /** The value, parsed as JSON when valid; UNKNOWN if it's computed at runtime */
+  value: unknown;
+  /** How sure the inference is of the value */
+  confidence: MatrixConfidence;
+}
+
+/**
+ * Represents text produced by a shell command. Parts that are only known at
+ * runtime are replaced by UNKNOWN_TEXT.
+ */
+interface ShellText {
+  text: string;
+  confidence: MatrixConfidence;
+}
+
+/**
+ * Represents the state of a step's script while it's interpreted
+ */
+interface ShellState {
+  /** Shell and environment variables with known values */
+  variables: Map<string, ShellText>;
+  /** Reads files committed in the repository */
+  loadFile?: WorkflowLoader;
+  /** Working directory of the step, relative to the repository root */
+  directory: string;
+}
+
+// Stands in for text that's only known at runtime
+const UNKNOWN_TEXT = '\u0000';
+
+const CONFIDENCE_ORDER: MatrixConfidence[] = ['guessed', 'inferred', 'exact'];
+
+/**
+ * Get the lower of two confidence levels
+ * @param a The first confidence level
+ * @param b The second confidence level
+ * @returns The lower confidence level
+ */
+export function lowestConfidence(a: MatrixConfidence, b: MatrixConfidence): MatrixConfidence {
+  return CONFIDENCE_ORDER[Math.min(CONFIDENCE_ORDER.indexOf(a), CONFIDENCE_ORDER.indexOf(b))];
+}
+
+/**
+ * Find the end of a `$(...)` command substitution, skipping nested parentheses and quotes
+ * @param text The text
+ * @param start Index just after the opening `$(`
+ * @returns Index of the closing parenthesis, or -1 if there is none
+ */
+function findClosingParenthesis(text: string, start: number): number {
+  let depth = 1;
+  let quote: string | undefined;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === '\\' && quote === '"') {
+        index++;
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Split a command line into words, keeping quotes and substitutions inside
+ * their word, and pipeline or list separators as words of their own
+ * @param line The command line
+ * @returns The raw words
+ */
+function splitWords(line: string): string[] {
+  const words: string[] = [];
+  let word = '';
+  let quote: string | undefined;
+
+  for (let index = 0; index < line.length; index++) {
+    const char = line[index];
+    if (quote && !(quote === '"' && char === '$' && line[index + 1] === '(')) {
+      word += char;
+      if (char === quote) {
+        quote = undefined;
+      } else if (char === '\\' && quote === '"' && index + 1 < line.length) {
+        word += line[++index];
+      }
+    } else if (char === "'" || char === '"') {
+      quote = char;
+      word += char;
+    } else if (char === '$' && line[index + 1] === '(') {
+      const end = findClosingParenthesis(line, index + 2);
+      const stop = end === -1 ? line.length - 1 : end;
+      word += line.slice(index, stop + 1);
+      index = stop;
+    } else if (char === '\\' && index + 1 < line.length) {
+      word += char + line[++index];
+    } else if (/\s/.test(char)) {
+      if (word) {
+        words.push(word);
+        word = '';
+      }
+    } else if (char === '|' || char === ';' || char === '&') {
+      if (word) {
+        words.push(word);
+        word = '';
+      }
+      const operator = line.slice(index, index + 2) === `${char}${char}` ? `${char}${char}` : char;
+      words.push(operator);
+      index += operator.length - 1;
+    } else {
+      word += char;
+    }
+  }
+  if (word) {
+    words.push(word);
+  }
+  return words;
+}
+
+/**
+ * Expand a parameter or command substitution
+ * @param text The text the substitution starts in, at `$`
+ * @param index Index of the `$`
+ * @param state The shell state
+ * @returns The expanded text and the index after the substitution
+ */
+function expandSubstitution(text: string, index: number, state: ShellState): { value: ShellText; next: number } {
+  if (text[index + 1] === '(') {
+    const end = findClosingParenthesis(text, index + 2);
+    const command = text.slice(index + 2, end === -1 ? text.length : end);
+    const output = runCommand(command, state, undefined);
+    return { value: { ...output, text: output.text.replace(/\n+$/, '') }, next: end === -1 ? text.length : end + 1 };
+  }
+
+  const match = text.slice(index + 1).match(/^\{([A-Za-z_]\w*)\}|^([A-Za-z_]\w*)/);
+  if (!match) {
+    return { value: { text: '$', confidence: 'exact' }, next: index + 1 };
+  }
+  const value = state.variables.get(match[1] || match[2]) || { text: UNKNOWN_TEXT, confidence: 'guessed' };
+  return { value, next: index + 1 + match[0].length };
+}
+
+/**
+ * Expand text the way a shell expands a double-quoted string or heredoc body
+ * @param text The text, without the surrounding quotes
+ * @param state The shell state
+ * @returns The expanded text
+ */
+function expandDoubleQuoted(text: string, state: ShellState): ShellText {
+  let result = '';
+  let confidence: MatrixConfidence = 'exact';
+  for (let index = 0; index < text.length;) {
+    const char = text[index];
+    if (char === '\\' && /[$`"\\]/.test(text[index + 1] || '')) {
+      result += text[index + 1];
+      index += 2;
+    } else if (char === '$') {
+      const { value, next } = expandSubstitution(text, index, state);
+      result += value.text;
+      confidence = lowestConfidence(confidence, value.confidence);
+      index = next;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+  return { text: result, confidence };
+}
+
+/**
+ * Expand a single shell word: remove its quotes and substitute variables and commands
+ * @param word The raw word
+ * @param state The shell state
+ * @returns The expanded word
+ */
+function expandWord(word: string, state: ShellState): ShellText {
+  let result = '';
+  let confidence: MatrixConfidence = 'exact';
+  const append = (value: ShellText): void => {
+    result += value.text;
+    confidence = lowestConfidence(confidence, value.confidence);
+  };
+
+  for (let index = 0; index < word.length;) {
+    const char = word[index];
+    if (char === "'") {
+      const end = word.indexOf("'", index + 1);
+      result += word.slice(index + 1, end === -1 ? word.length : end);
+      index = end === -1 ? word.length : end + 1;
+    } else if (char === '"') {
+      let end = index + 1;
+      while (end < word.length && word[end] !== '"') {
+        const substitution = word.startsWith('$(', end) ? findClosingParenthesis(word, end + 2) : -1;
+        end = substitution !== -1 ? substitution + 1 : end + (word[end] === '\\' ? 2 : 1);
+      }
+      append(expandDoubleQuoted(word.slice(index + 1, end), state));
+      index = end + 1;
+    } else if (char === '\\') {
+      result += word[index + 1] || '';
+      index += 2;
+    } else if (char === '$') {
+      const { value, next } = expandSubstitution(word, index, state);
+      append(value);
+      index = next;
+    } else {
+      result += char;
+      index++;
+    }
+  }
+  return { text: result, confidence };
+}
+
+/**
+ * Join the expanded arguments of a command
+ * @param words The raw words
+ * @param state The shell state
+ * @returns The expanded words
+ */
+function expandWords(words: string[], state: ShellState): { texts: string[]; confidence: MatrixConfidence } {
+  const expanded = words.map(word => expandWord(word, state));
+  return {
+    texts: expanded.map(value => value.text),
+    confidence: expanded.reduce<MatrixConfidence>((lowest, value) => lowestConfidence(lowest, value.confidence), 'exact')
+  };
+}
+
+/**
+ * Read a file committed in the repository
+ * @param file The path, relative to the step's working directory
+ * @param state The shell state
+ * @returns The content, or undefined if it can't be read
+ */
+function readFile(file: string, state: ShellState): string | undefined {
+  if (!state.loadFile || file.includes(UNKNOWN_TEXT) || path.isAbsolute(file)) {
+    return undefined;
+  }
+  const content = state.loadFile(path.posix.normalize(path.posix.join(state.directory, file)));
+  return typeof content === 'string' ? content : undefined;
+}
+
+/**
+ * Apply one stage of a jq filter to a value
+ * @param filter The stage, e.g. `.include`, `.[]`, `keys`, `map(.name)` or `[.[] | .os]`
+ * @param input The input value
+ * @returns The output values, or undefined if the filter isn't supported
+ */
+function applyJqStage(filter: string, input: unknown): unknown[] | undefined {
+  const stage = filter.trim();
+  if (stage === 'keys') {
+    return input && typeof input === 'object' ? [Object.keys(input).sort()] : undefined;
+  }
+  if (stage === 'length') {
+    return Array.isArray(input) || typeof input === 'string' ? [input.length]
+      : input && typeof input === 'object' ? [Object.keys(input).length] : undefined;
+  }
+  const map = stage.match(/^map\((.*)\)$/s);
+  if (map) {
+    return Array.isArray(input) ? collectJq(`[.[] | ${map[1]}]`, input) : undefined;
+  }
+  const collect = stage.match(/^\[(.*)\]$/s);
+  if (collect) {
+    const values = applyJqFilter(collect[1], input);
+    return values ? [values] : undefined;
+  }
+  if (!stage.startsWith('.')) {
+    return undefined;
+  }
+
+  // A path of .name, ."name", [N], ["name"] and [] segments
+  let values: unknown[] = [input];
+  let rest = stage.slice(1);
+  const property = (name: string): void => {
+    values = values.map(value => value && typeof value === 'object' && !Array.isArray(value)
+      ? (value as Record<string, unknown>)[name] ?? null : null);
+  };
+  while (rest.length > 0) {
+    const segment = rest.match(/^\.?([A-Za-z_]\w*)|^\.?"([^"]*)"|^\[\s*(-?\d+)\s*\]|^\[\s*"([^"]*)"\s*\]|^\[\s*\]/);
+    if (!segment) {
+      return undefined;
+    }
+    if (segment[1] !== undefined || segment[2] !== undefined || segment[4] !== undefined) {
+      property(segment[1] ?? segment[2] ?? segment[4]);
+    } else if (segment[3] !== undefined) {
+      const index = Number(segment[3]);
+      values = values.map(value => Array.isArray(value) ? value[index < 0 ? value.length + index : index] ?? null : null);
+    } else {
+      values = values.flatMap(value => Array.isArray(value) ? value
+        : value && typeof value === 'object' ? Object.values(value) : []);
+    }
+    rest = rest.slice(segment[0].length);
+  }
+  return values;
+}
+
+/**
+ * Apply a jq filter made of `|`-separated stages
+ * @param filter The filter
+ * @param input The input value
+ * @returns The output values, or undefined if the filter isn't supported
+ */
+function applyJqFilter(filter: string, input: unknown): unknown[] | undefined {
+  const stages: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let index = 0; index < filter.length; index++) {
+    const char = filter[index];
+    depth += char === '(' || char === '[' ? 1 : char === ')' || char === ']' ? -1 : 0;
+    if (char === '|' && depth === 0) {
+      stages.push(filter.slice(start, index));
+      start = index + 1;
+    }
+  }
+  stages.push(filter.slice(start));
+
+  let values: unknown[] | undefined = [input];
+  for (const stage of stages) {
+    values = values?.reduce<unknown[] | undefined>((outputs, value) => {
+      const result = applyJqStage(stage, value);
+      return outputs && result ? outputs.concat(result) : undefined;
+    }, []);
+  }
+  return values;
+}
+
+/**
+ * Apply a jq filter and take its single output
+ * @param filter The filter
+ * @param input The input value
+ * @returns The output value wrapped in an array, or undefined if the filter isn't supported
+ */
+function collectJq(filter: string, input: unknown): unknown[] | undefined {
+  const values = applyJqFilter(filter, input);
+  return values && values.length === 1 ? values : undefined;
+}
+
+/**
+ * Run `jq` on JSON from a file or the previous command of a pipeline
+ * @param args The expanded arguments
+ * @param input The output of the previous command, if any
+ * @param state The shell state
+ * @returns The output, or undefined if it can't be inferred
+ */
+function runJq(args: string[], input: ShellText | undefined, state: ShellState): ShellText | undefined {
+  const flags = args.filter(arg => arg.startsWith('-'));
+  const [filter = '.', file] = args.filter(arg => !arg.startsWith('-'));
+  if (flags.some(flag => !/^(-[crMSj]+|--compact-output|--raw-output|--monochrome-output|--sort-keys)$/.test(flag))) {
+    return undefined;
+  }
+
+  // A file committed in the repository can change, so its content is only inferred
+  const source: ShellText | undefined = file !== undefined
+    ? (content => content !== undefined ? { text: content, confidence: 'inferred' } : undefined)(readFile(file, state))
+    : input;
+  if (!source || source.text.includes(UNKNOWN_TEXT)) {
+    return undefined;
+  }
+
+  let values: unknown[] | undefined;
+  try {
+    values = applyJqFilter(filter, JSON.parse(source.text));
+  } catch {
+    return undefined;
+  }
+  if (!values) {
+    return undefined;
+  }
+
+  const compact = flags.some(flag => flag === '--compact-output' || /^-[^-]*c/.test(flag));
+  const raw = flags.some(flag => flag === '--raw-output' || /^-[^-]*r/.test(flag));
+  const text = values
+    .map(value => raw && typeof value === 'string' ? value : JSON.stringify(value, null, compact ? undefined : 2))
+    .join('\n');
+  return { text: `${text}\n`, confidence: source.confidence };
+}
+
+/**
+ * Format text like the `printf` command, supporting `%s`, `%d` and backslash escapes
+ * @param format The format string
+ * @param args The arguments
+ * @returns The formatted text
+ */
+function printf(format: string, args: string[]): string {
+  let index = 0;
+  // The format is reused until every argument is consumed
+  let output = '';
+  do {
+    output += format.replace(/%[sd%]|\\[nt\\]/g, match => {
+      switch (match) {
+        case '%%':
+          return '%';
+        case '\\n':
+          return '\n';
+        case '\\t':
+          return '\t';
+        case '\\\\':
+          return '\\';
+        default:
+          return args[index++] ?? '';
+      }
+    });
+  } while (index > 0 && index < args.length);
+  return output;
+}
+
+/**
+ * Run a command, or pipeline of commands, as far as its output can be inferred
+ * @param command The command line, without redirections to the output file
+ * @param state The shell state
+ * @param stdin Text passed on standard input, e.g. a heredoc body
+ * @returns The output, with UNKNOWN_TEXT when it's only known at runtime
+ */
+function runCommand(command: string, state: ShellState, stdin: ShellText | undefined): ShellText {
+  const unknown: ShellText = { text: UNKNOWN_TEXT, confidence: 'guessed' };
+  const words = splitWords(command.trim());
+  if (words.some(word => word === ';' || word === '&&' || word === '||' || word === '&')) {
+    return unknown;
+  }
+
+  let input = stdin;
+  let stage: string[] = [];
+  const stages: string[][] = [];
+  words.forEach(word => {
+    if (word === '|') {
+      stages.push(stage);
+      stage = [];
+    } else {
+      stage.push(word);
+    }
+  });
+  stages.push(stage);
+
+  for (const [name, ...rawArgs] of stages) {
+    const { texts: args, confidence } = expandWords(rawArgs, state);
+    let output: ShellText | undefined;
+    if (name === 'echo') {
+      const text = args.filter((arg, index) => !(index === 0 && /^-[neE]+$/.test(arg))).join(' ');
+      output = { text: args[0] === '-n' ? text : `${text}\n`, confidence };
+    } else if (name === 'printf' && args.length > 0) {
+      output = { text: printf(args[0], args.slice(1)), confidence };
+    } else if (name === 'cat') {
+      const content = args.length > 0 ? readFile(args[0], state) : undefined;
+      output = args.length === 0 ? input : content !== undefined ? { text: content, confidence: 'inferred' } : undefined;
+    } else if (name === 'jq') {
+      output = runJq(args, input, state);
+    }
+    // Anything else, like ls, find or curl, lists files or API results that only exist at runtime
+    if (!output) {
+      return unknown;
+    }
+    input = output;
+  }
+  return input || unknown;
+}
+
+/**
+ * Parse the text written to the `GITHUB_OUTPUT` file, as `key=value` lines and
+ * `key<<DELIMITER` blocks
+ * @param lines The lines written to the file
+ * @returns The outputs by key
+ */
+function parseOutputFile(lines: ShellText[]): Map<string, InferredOutput> {
+  const outputs = new Map<string, InferredOutput>();
+  const split = lines.flatMap(line => line.text.replace(/\n$/, '').split('\n')
+    .map(text => ({ text, confidence: line.confidence })));
+
+  for (let index = 0; index < split.length; index++) {
+    const { text, confidence } = split[index];
+    const block = text.match(/^([\w-]+)<<(\S+)$/);
+    const single = text.match(/^([\w-]+)=(.*)$/s);
+    let key: string;
+    let value: ShellText;
+    if (block) {
+      const end = split.findIndex((line, other) => other > index && line.text === block[2]);
+      const body = split.slice(index + 1, end === -1 ? split.length : end);
+      key = block[1];
+      value = {
+        text: body.map(line => line.text).join('\n'),
+        confidence: body.reduce<MatrixConfidence>((lowest, line) => lowestConfidence(lowest, line.confidence), confidence)
+      };
+      index = end === -1 ? split.length : end;
+    } else if (single) {
+      key = single[1];
+      value = { text: single[2], confidence };
+    } else {
+      continue;
+    }
+
+    if (value.text.includes(UNKNOWN_TEXT)) {
+      outputs.set(key, { value: UNKNOWN, confidence: 'guessed' });
+      continue;
+    }
+    let parsed: unknown = value.text;
+    try {
+      parsed = JSON.parse(value.text);
+    } catch {
+      // Not JSON, so the output is a plain string
+    }
+    outputs.set(key, { value: parsed, confidence: value.confidence });
+  }
+  return outputs;
+}
+
+/**
+ * Check whether a command writes to the `GITHUB_OUTPUT` file, and remove that redirection
+ * @param line The command line
+ * @returns The command without the redirection, and whether it was there
+ */
+function stripOutputRedirect(line: string): { command: string; redirected: boolean } {
+  const redirect = /\s*>>\s*("?)\$\{?GITHUB_OUTPUT\}?\1/;
+  return { command: line.replace(redirect, ''), redirected: redirect.test(line) };
+}
+
+/**
+ * Interpret a step's bash script to find what it writes to the `GITHUB_OUTPUT`
+ * file: `echo` and `printf` lines, `cat` heredocs, `{ ... } >> "$GITHUB_OUTPUT"`
+ * groups and `jq` over JSON files committed in the repository. Output written
+ * from commands that list files or call APIs is only known at runtime.
+ * @param script The `run` script
+ * @param state The shell state, with the step's environment
+ * @returns The outputs by key
+ */
+function interpretScript(script: string, state: ShellState): Map<string, InferredOutput> {
+  const lines = script.replace(/\\\r?\n/g, ' ').split(/\r?\n/);
+  const written: ShellText[] = [];
+  let groupRedirected = false;
+  // Writes inside conditions may not happen and writes inside loops repeat
+  const blocks: string[] = [];
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index].trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    if (line === '{') {
+      // The group's redirection is on its closing brace
+      const end = lines.findIndex((other, position) => position > index && /^\s*\}/.test(other));
+      groupRedirected = end !== -1 && stripOutputRedirect(lines[end]).redirected;
+      continue;
+    }
+    if (/^\}/.test(line)) {
+      groupRedirected = false;
+      continue;
+    }
+
+    const keyword = line.match(/^(if|for|while|until|case|fi|done|esac)\b/)?.[1];
+    const closedOnLine = /\b(fi|done|esac)$/.test(line);
+    if ((keyword === 'if' || keyword === 'case') && !closedOnLine) {
+      blocks.push('condition');
+    } else if ((keyword === 'for' || keyword === 'while' || keyword === 'until') && !closedOnLine) {
+      blocks.push('loop');
+    } else if (keyword === 'fi' || keyword === 'done' || keyword === 'esac') {
+      blocks.pop();
+    }
+    if (keyword || /^(then|else|elif|do)\b/.test(line)) {
+      continue;
+    }
+
+    const { command, redirected } = stripOutputRedirect(line);
+    // `<<` inside quotes, e.g. `echo "key<<EOF"`, doesn't start a heredoc
+    const unquoted = command.replace(/(?<!<<-?\s*)('[^']*'|"(?:\\.|[^"\\])*")/g, "''");
+    const heredoc = unquoted.match(/<<-?\s*(['"]?)([\w-]+)\1/);
+    let stdin: ShellText | undefined;
+    if (heredoc) {
+      const end = lines.findIndex((other, position) => position > index && other.trim() === heredoc[2]);
+      const body = lines.slice(index + 1, end === -1 ? lines.length : end).map(other => other.replace(/^\t+/, ''))
+        .join('\n');
+      stdin = heredoc[1] ? { text: `${body}\n`, confidence: 'exact' } : expandDoubleQuoted(`${body}\n`, state);
+      index = end === -1 ? lines.length : end;
+    }
+
+    const assignment = command.match(/^(?:export\s+)?([A-Za-z_]\w*)=(.*)$/);
+    if (assignment && !heredoc) {
+      const [word = ''] = splitWords(assignment[2]);
+      state.variables.set(assignment[1], blocks.length > 0
+        ? { text: UNKNOWN_TEXT, confidence: 'guessed' }
+        : expandWord(word, state));
+      continue;
+    }
+
+    if (redirected || groupRedirected) {
+      const output = runCommand(heredoc ? command.replace(heredoc[0], '') : command, state, stdin);
+      if (blocks.includes('loop')) {
+        written.push({ text: output.text.replace(/=.*$/s, `=${UNKNOWN_TEXT}`), confidence: 'guessed' });
+      } else {
+        written.push(blocks.length > 0 ? { ...output, confidence: lowestConfidence(output.confidence, 'inferred') } : output);
+      }
+    }
+  }
+
+  return parseOutputFile(written);
+}
+
+/**
+ * Convert an `env` mapping to shell variables; values with expressions are only
+ * known when they don't depend on any context
+ * @param env The `env` mapping of a workflow, job or step
+ * @param variables The variables to add to
+ */
+function addEnvironment(env: unknown, variables: Map<string, ShellText>): void {
+  if (!env || typeof env !== 'object') {
+    return;
+  }
+  Object.entries(env as Record<string, unknown>).forEach(([name, value]) => {
+    let resolved: unknown = value;
+    try {
+      resolved = typeof value === 'string' ? evaluateTemplate(value) : value;
+    } catch {
+      resolved = UNKNOWN;
+    }
+    variables.set(name, resolved === UNKNOWN
+      ? { text: UNKNOWN_TEXT, confidence: 'guessed' }
+      : { text: typeof resolved === 'string' ? resolved : JSON.stringify(resolved), confidence: 'exact' });
+  });
+}
+
+/**
+ * Infer the outputs of a job from its `outputs` mapping and the scripts of the
+ * steps it refers to
+ * @param job The job definition
+ * @param loadFile Reads files committed in the repository, for `jq` and `cat`
+ * @returns The outputs by key; outputs that can't be inferred are UNKNOWN and guessed
+ */
+export function inferJobOutputs(job: WorkflowJob, loadFile?: WorkflowLoader): Map<string, InferredOutput> {
+  const stepOutputs = new Map<string, Map<string, InferredOutput>>();
+  const jobEnv = new Map<string, ShellText>();
+  addEnvironment(job.env, jobEnv);
+  const defaultShell = job.defaults?.run;
+
+  (job.steps || []).forEach(step => {
+    const shell = step?.shell ?? defaultShell?.shell ?? 'bash';
+    if (!step?.id || typeof step.run !== 'string' || !/^(bash|sh)\b/.test(shell)) {
+      return;
+    }
+    const variables = new Map(jobEnv);
+    addEnvironment(step.env, variables);
+    stepOutputs.set(step.id, interpretScript(step.run, {
+      variables,
+      loadFile,
+      directory: step['working-directory'] ?? defaultShell?.['working-directory'] ?? '.'
+    }));
+  });
+
+  const outputs = new Map<string, InferredOutput>();
+  Object.entries(job.outputs || {}).forEach(([key, value]) => {
+    const reference = typeof value === 'string'
+      ? value.match(/^\s*\$\{\{\s*steps\.([\w-]+)\.outputs\.([\w-]+)\s*\}\}\s*$/)
+      : null;
+    if (reference) {
+      outputs.set(key, stepOutputs.get(reference[1])?.get(reference[2]) ?? { value: UNKNOWN, confidence: 'guessed' });
+      return;
+    }
+
+    let resolved: unknown = UNKNOWN;
+    try {
+      resolved = typeof value === 'string' ? evaluateTemplate(value) : value;
+      resolved = typeof resolved === 'string' ? JSON.parse(resolved) : resolved;
+    } catch {
+      // Outputs that aren't JSON are plain strings
+    }
+    outputs.set(key, resolved === UNKNOWN ? { value: UNKNOWN, confidence: 'guessed' } : { value: resolved, confidence: 'exact' });
+  });
+
+  return outputs;
+}
@@ -0,0 +1,377 @@
+import { evaluateTemplate, UNKNOWN } from './expressions';
+import { inferJobOutputs, lowestConfidence } from './matrix-inference';
+import {
+  MatrixCombination,
+  MatrixConfidence,
+  MatrixProvider,
+  WorkflowFile,
+  WorkflowJob,
+  WorkflowLoader
+} from './types';
+
+// Number of values assumed for a matrix output that's only known at runtime
+export const DEFAULT_MATRIX_SIZE = 3;
+
+/**
+ * Placeholder for a matrix value that is only known at runtime (e.g. a fromJSON dimension)
+ */
+export class UnresolvedMatrixValue {
+  constructor(public readonly source: string, public readonly index: number) {}
+}
+
+/**
+ * Extracts the job key and output key from a fromJSON expression
+ * @param value The fromJSON expression string
+ * @returns An object with jobKey and outputKey, or null if not found
+ */
+export function extractFromJsonReference(value: string): { jobKey: string; outputKey: string } | null {
+  // Handle different patterns of fromJSON references
+  
+  // Pattern 1: fromJSON(needs.job-name.outputs.output-name)
+  let match = value.match(/fromJSON\s*\(\s*needs\.([\w-]+)\.outputs\.([\w-]+)\s*\)/);
+  if (match) {
+    return {
+      jobKey: match[1],
+      outputKey: match[2]
+    };
+  }
+  
+  // Pattern 2: fromJSON(needs.job-name.outputs.output-name) with extra spaces or characters
+  match = value.match(/fromJSON.*needs\.([\w-]+)\.outputs\.([\w-]+)/);
+  if (match) {
+    return {
+      jobKey: match[1],
+      outputKey: match[2]
+    };
+  }
+  
+  // Pattern 3: any occurrence of needs.X.outputs.Y in the string
+  match = value.match(/needs\.([\w-]+)\.outputs\.([\w-]+)/);
+  if (match) {
+    return {
+      jobKey: match[1],
+      outputKey: match[2]
+    };
+  }
+  
+  return null;
+}
+
+/**
+ * Get all matrix providers (jobs that output matrix values) from the workflow.
+ * Outputs are inferred from the workflow and the step scripts that write them;
+ * those only known at runtime get a guessed size of DEFAULT_MATRIX_SIZE.
+ * @param workflow The workflow definition
+ * @param loadFile Reads files committed in the repository, e.g. JSON files passed to `jq`
+ * @returns A map of matrix providers keyed by jobKey.outputKey
+ */
+export function getMatrixProviders(workflow: WorkflowFile, loadFile?: WorkflowLoader): Map<string, MatrixProvider> {
+  const providers = new Map<string, MatrixProvider>();
+
+  if (!workflow.jobs) {
+    return providers;
+  }
+
+  const jobs = workflow.jobs;
+
+  Object.entries(jobs).forEach(([jobKey, job]) => {
+    inferJobOutputs(job, loadFile).forEach(({ value, confidence }, outputKey) => {
+      let size = DEFAULT_MATRIX_SIZE;
+      if (Array.isArray(value)) {
+        size = value.length;
+      } else if (value && typeof value === 'object') {
+        // An object is a whole matrix, e.g. {"include": [...]}
+        size = expandMatrix({ strategy: { matrix: value as Record<string, unknown> } }, new Map()).length;
+      } else if (value !== UNKNOWN) {
+        size = 1;
+      }
+
+      providers.set(`${jobKey}.${outputKey}`, {
+        jobKey,
+        outputKey,
+        size,
+        ...(value !== UNKNOWN ? { value } : {}),
+        confidence,
+        consumers: new Set()
+      });
+    });
+  });
+
+  // Now map matrix consumers to their providers
+  Object.entries(jobs).forEach(([jobKey, job]) => {
+    const matrix: unknown = job.strategy?.matrix;
+    const values = typeof matrix === 'string' ? [matrix] : matrix && typeof matrix === 'object' ? Object.values(matrix) : [];
+    values.forEach(value => {
+      const provider = getReferencedProvider(value, providers);
+      if (provider) {
+        provider.consumers.add(jobKey);
+      }
+    });
+  });
+
+  return providers;
+}
+
+/**
+ * Find the provider a matrix value refers to with `fromJSON(needs.job.outputs.key)`
+ * @param value The raw matrix value
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The provider, or undefined if the value doesn't refer to a known one
+ */
+function getReferencedProvider(value: unknown, matrixProviders: Map<string, MatrixProvider>): MatrixProvider | undefined {
+  if (typeof value !== 'string' || !value.includes('fromJSON')) {
+    return undefined;
+  }
+  const reference = extractFromJsonReference(value);
+  return reference ? matrixProviders.get(`${reference.jobKey}.${reference.outputKey}`) : undefined;
+}
+
+/**
+ * Compare two matrix values, treating objects and arrays structurally
+ * @param a The first value
+ * @param b The second value
+ * @returns True if both values are equal
+ */
+function matrixValuesEqual(a: unknown, b: unknown): boolean {
+  if (a === b) {
+    return true;
+  }
+  if (a instanceof UnresolvedMatrixValue || b instanceof UnresolvedMatrixValue) {
+    return false;
+  }
+  if (typeof a === 'object' && typeof b === 'object' && a !== null && b !== null) {
+    return JSON.stringify(a) === JSON.stringify(b);
+  }
+  return false;
+}
+
+/**
+ * Evaluate a matrix value that doesn't depend on any context, e.g.
+ * `${{ fromJSON('["a", "b"]') }}`
+ * @param value The raw matrix value
+ * @returns The value with its expressions evaluated, or UNKNOWN if they depend on a context
+ */
+function resolveLiteralExpression(value: unknown): unknown {
+  if (typeof value !== 'string' || !value.includes('${{')) {
+    return value;
+  }
+  try {
+    return evaluateTemplate(value);
+  } catch {
+    return UNKNOWN;
+  }
+}
+
+/**
+ * Represents a matrix value resolved from a literal expression or the output of another job
+ */
+interface ResolvedMatrixValue {
+  /** The value, or UNKNOWN if it's only known at runtime */
+  value: unknown;
+  /** How sure the analysis is of the value */
+  confidence: MatrixConfidence;
+  /** Provider the value comes from, as `jobKey.outputKey`, if it refers to one */
+  source?: string;
+  /** Number of values assumed for a provider whose value is unknown */
+  size: number;
+}
+
+/**
+ * Resolve a matrix value that may be built at runtime, e.g.
+ * `${{ fromJSON(needs.setup.outputs.targets) }}`
+ * @param value The raw matrix value
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The resolved value
+ */
+function resolveMatrixValue(value: unknown, matrixProviders: Map<string, MatrixProvider>): ResolvedMatrixValue {
+  const reference = typeof value === 'string' && value.includes('fromJSON') ? extractFromJsonReference(value) : null;
+  if (reference) {
+    const source = `${reference.jobKey}.${reference.outputKey}`;
+    const provider = matrixProviders.get(source);
+    return provider
+      ? { value: 'value' in provider ? provider.value : UNKNOWN, confidence: provider.confidence, source, size: provider.size }
+      : { value: UNKNOWN, confidence: 'guessed', source, size: DEFAULT_MATRIX_SIZE };
+  }
+
+  const resolved = resolveLiteralExpression(value);
+  return { value: resolved, confidence: resolved === UNKNOWN ? 'guessed' : 'exact', size: 1 };
+}
+
+/**
+ * Resolve the list of values of a single matrix dimension
+ * @param key The matrix key
+ * @param value The raw value of the dimension
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The dimension values, with placeholders for dynamic values
+ */
+function resolveMatrixDimension(
+  key: string,
+  value: unknown,
+  matrixProviders: Map<string, MatrixProvider>
+): unknown[] {
+  if (Array.isArray(value)) {
+    return value;
+  }
+
+  const resolved = resolveMatrixValue(value, matrixProviders);
+  if (Array.isArray(resolved.value)) {
+    return resolved.value;
+  }
+  if (resolved.value !== UNKNOWN) {
+    return [resolved.value];
+  }
+  const { source } = resolved;
+  return source !== undefined
+    ? Array.from({ length: resolved.size }, (_, index) => new UnresolvedMatrixValue(source, index))
+    : [value];
+}
+
+/**
+ * Resolve the `include` or `exclude` entries of a matrix, which may be built at runtime
+ * @param entries The raw entries
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @param unknownEntries Whether to assume empty entries when they're only known at runtime
+ * @returns The entries
+ */
+function resolveMatrixEntries(
+  entries: unknown,
+  matrixProviders: Map<string, MatrixProvider>,
+  unknownEntries: boolean
+): MatrixCombination[] {
+  if (Array.isArray(entries)) {
+    return entries;
+  }
+  if (typeof entries !== 'string') {
+    return [];
+  }
+  const resolved = resolveMatrixValue(entries, matrixProviders);
+  if (Array.isArray(resolved.value)) {
+    return resolved.value;
+  }
+  return resolved.value === UNKNOWN && resolved.source !== undefined && unknownEntries
+    ? Array.from({ length: resolved.size }, () => ({}))
+    : [];
+}
+
+/**
+ * Expand a job's matrix into the combinations GitHub would actually run.
+ * The cartesian product of all dimensions is computed first, then `exclude`
+ * entries are removed and finally `include` entries are merged into matching
+ * combinations or appended as extra ones.
+ * @param job The job definition
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The list of matrix combinations
+ */
+export function expandMatrix(job: WorkflowJob, matrixProviders: Map<string, MatrixProvider>): MatrixCombination[] {
+  let matrix: unknown = job.strategy?.matrix;
+  if (typeof matrix === 'string') {
+    // A whole matrix built at runtime, e.g. ${{ fromJSON(needs.setup.outputs.matrix) }}
+    const resolved = resolveMatrixValue(matrix, matrixProviders);
+    if (resolved.value === UNKNOWN && resolved.source !== undefined) {
+      return Array.from({ length: resolved.size }, () => ({}));
+    }
+    matrix = resolved.value;
+  }
+  if (!matrix || typeof matrix !== 'object' || Array.isArray(matrix)) {
+    return [{}];
+  }
+
+  const entries = matrix as Record<string, unknown>;
+  const dimensions = Object.entries(entries).filter(([key]) => key !== 'include' && key !== 'exclude');
+  const include = resolveMatrixEntries(entries.include, matrixProviders, true);
+  const exclude = resolveMatrixEntries(entries.exclude, matrixProviders, false);
+
+  // Cartesian product of all dimensions
+  let combinations: MatrixCombination[] = dimensions.length > 0 ? [{}] : [];
+  dimensions.forEach(([key, value]) => {
+    const values = resolveMatrixDimension(key, value, matrixProviders);
+    combinations = combinations.flatMap(combination =>
+      values.map(dimensionValue => ({ ...combination, [key]: dimensionValue }))
+    );
+  });
+
+  // Remove every combination matched by an exclude entry (partial matches count)
+  combinations = combinations.filter(combination =>
+    !exclude.some(entry =>
+      entry && typeof entry === 'object' &&
+      Object.entries(entry).every(([key, value]) => matrixValuesEqual(combination[key], value))
+    )
+  );
+
+  // Merge include entries into combinations whose original values they don't
+  // overwrite, or add them as new combinations when nothing matches
+  const originalKeys = new Set(dimensions.map(([key]) => key));
+  const originalCombinations = combinations.map(combination => ({ ...combination }));
+  const added: MatrixCombination[] = [];
+
+  include.forEach(entry => {
+    if (!entry || typeof entry !== 'object') {
+      return;
+    }
+
+    let merged = false;
+    combinations.forEach((combination, index) => {
+      const compatible = Object.entries(entry).every(([key, value]) =>
+        !originalKeys.has(key) || matrixValuesEqual(originalCombinations[index][key], value)
+      );
+      if (compatible) {
+        Object.assign(combination, entry);
+        merged = true;
+      }
+    });
+
+    if (!merged) {
+      added.push({ ...entry });
+    }
+  });
+
+  combinations = combinations.concat(added);
+
+  // A matrix without dimensions or includes still runs the job once
+  if (dimensions.length === 0 && include.length === 0) {
+    return [{}];
+  }
+
+  return combinations;
+}
+
+/**
+ * Get how sure the analysis is of the size of a job's matrix: the lowest
+ * confidence of the values it's built from
+ * @param job The job definition
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The confidence; `exact` for jobs without a dynamic matrix
+ */
+export function getMatrixConfidence(job: WorkflowJob, matrixProviders: Map<string, MatrixProvider>): MatrixConfidence {
+  const matrix: unknown = job.strategy?.matrix;
+  const values = typeof matrix === 'string' ? [matrix] : matrix && typeof matrix === 'object' ? Object.values(matrix) : [];
+
+  return values
+    .filter(value => typeof value === 'string')
+    .map(value => resolveMatrixValue(value, matrixProviders).confidence)
+    .reduce<MatrixConfidence>(lowestConfidence, 'exact');
+}
+
+/**
+ * Check whether the size of a job's matrix is a guess, because it is built at
+ * runtime from a value the analysis can't find
+ * @param job The job definition
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns True if the matrix, or one of its dimensions, has a guessed size
+ */
+export function isMatrixSizeGuessed(job: WorkflowJob, matrixProviders: Map<string, MatrixProvider>): boolean {
+  return getMatrixConfidence(job, matrixProviders) === 'guessed';
+}
+
+/**
+ * Calculate the number of parallel executions for a matrix job
+ * @param job The job definition
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The number of parallel executions
+ */
+export function calculateMatrixSize(job: WorkflowJob, matrixProviders: Map<string, MatrixProvider>): number {
+  if (!job.strategy?.matrix) {
+    return 1;
+  }
+  return expandMatrix(job, matrixProviders).length;
+}
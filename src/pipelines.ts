@@ -0,0 +1,281 @@
+import { findCycle } from './findings';
+import { getEventField, getWorkflowEvents, toFilterPatterns } from './triggers';
+import { Pipeline, PipelineEdge, PipelineGraph, PipelineRun, WorkflowFile, WorkflowValidationResult } from './types';
+
+// GitHub doesn't start workflow_run workflows more than three levels down a chain
+export const MAX_WORKFLOW_RUN_DEPTH = 3;
+
+// Flags of `gh workflow run` that take a value
+const GH_VALUE_FLAGS = ['-r', '--ref', '-f', '--raw-field', '-F', '--field', '-R', '--repo'];
+
+/**
+ * Represents a workflow, or a repository_dispatch type, that a step dispatches
+ */
+interface Dispatch {
+  via: 'workflow_dispatch' | 'repository_dispatch';
+  /** Workflow file name, ID or name for workflow_dispatch, event type for repository_dispatch */
+  target: string;
+}
+
+/**
+ * Check whether a repository given to a dispatch is the one the workflow runs in
+ * @param repository The repository as written, if any
+ * @returns True if the repository isn't given or refers to the current one
+ */
+function isSameRepository(repository: unknown): boolean {
+  return repository === undefined || repository === null ||
+    /github\.repository\b|\$\{?GITHUB_REPOSITORY\b|\{owner\}\/\{repo\}/.test(String(repository));
+}
+
+/**
+ * Find the workflow a `gh workflow run` command starts
+ * @param args The arguments following `gh workflow run`
+ * @returns The workflow, or undefined if the command runs it in another repository or names it with an expression
+ */
+function getGhWorkflowRunTarget(args: string): string | undefined {
+  const tokens = (args.match(/"[^"]*"|'[^']*'|\S+/g) || []).map(token => token.replace(/^(["'])(.*)\1$/, '$2'));
+  let target: string | undefined;
+  for (let index = 0; index < tokens.length; index++) {
+    const [flag, value] = tokens[index].split(/=(.*)/);
+    if (flag === '-R' || flag === '--repo') {
+      if (!isSameRepository(value ?? tokens[index + 1])) {
+        return undefined;
+      }
+    }
+    if (GH_VALUE_FLAGS.includes(flag)) {
+      index += value === undefined ? 1 : 0;
+    } else if (!flag.startsWith('-')) {
+      target = target ?? flag;
+    }
+  }
+  return target;
+}
+
+/**
+ * Find the workflows and repository_dispatch types a step starts, through
+ * `gh workflow run`, the REST API (with `gh api` or `curl`) or a dispatch action
+ * @param step The step definition
+ * @returns The dispatches, in the current repository only
+ */
+function getStepDispatches(step: unknown): Dispatch[] {
+  if (typeof step !== 'object' || step === null) {
+    return [];
+  }
+
+  const dispatches: Dispatch[] = [];
+  // Targets only known at runtime can't be followed
+  const addDispatch = (via: Dispatch['via'], target: unknown): void => {
+    if (typeof target === 'string' && target !== '' && !target.includes('${{')) {
+      dispatches.push({ via, target });
+    }
+  };
+
+  if ('uses' in step && typeof step.uses === 'string') {
+    const inputs = 'with' in step && typeof step.with === 'object' && step.with !== null ? step.with : {};
+    if (/(^|\/)repository-dispatch@/.test(step.uses) &&
+      isSameRepository('repository' in inputs ? inputs.repository : undefined)) {
+      addDispatch('repository_dispatch', 'event-type' in inputs ? inputs['event-type'] : undefined);
+    }
+    if (/(^|\/)workflow-dispatch@/.test(step.uses) && isSameRepository('repo' in inputs ? inputs.repo : undefined)) {
+      addDispatch('workflow_dispatch', 'workflow' in inputs ? inputs.workflow : undefined);
+    }
+  }
+
+  if ('run' in step && typeof step.run === 'string') {
+    // Continued lines are one command, and the repository expression keeps URLs free of spaces
+    const script = step.run
+      .replace(/\\\r?\n/g, ' ')
+      .replace(/\$\{\{\s*github\.repository\s*\}\}/g, '$GITHUB_REPOSITORY');
+
+    for (const [, args] of script.matchAll(/\bgh\s+workflow\s+run\b([^\n;|&]*)/g)) {
+      addDispatch('workflow_dispatch', getGhWorkflowRunTarget(args));
+    }
+
+    const eventTypes = Array.from(script.matchAll(/event_type\\?["']?\s*[:=]\s*\\?["']?([\w.:-]+)/g),
+      ([, eventType]) => eventType);
+    for (const [, path] of script.matchAll(/repos\/([^\s"'`]+?)\/dispatches\b/g)) {
+      const workflowPath = path.match(/^(.*)\/actions\/workflows\/([^/]+)$/);
+      if (!isSameRepository(workflowPath ? workflowPath[1] : path)) {
+        continue;
+      }
+      if (workflowPath) {
+        addDispatch('workflow_dispatch', workflowPath[2]);
+      } else {
+        eventTypes.forEach(target => addDispatch('repository_dispatch', target));
+      }
+    }
+  }
+
+  return dispatches;
+}
+
+/**
+ * Find every way the workflows start each other: `on.workflow_run` naming an
+ * upstream workflow, and steps dispatching a workflow or a repository_dispatch type.
+ * Workflows are named by their `name`, or by their path when they don't have one.
+ * @param workflows The parsed workflows with their relative paths
+ * @returns The edges between the workflows, in the order of the starting workflows
+ */
+export function getPipelineEdges(workflows: { file: string; workflow: WorkflowFile }[]): PipelineEdge[] {
+  const events = new Map(workflows.map(({ file, workflow }) => [file, getWorkflowEvents(workflow)]));
+  const edges: PipelineEdge[] = [];
+  const addEdge = (edge: PipelineEdge): void => {
+    if (!edges.some(other => other.from === edge.from && other.to === edge.to && other.via === edge.via &&
+      other.job === edge.job)) {
+      edges.push(edge);
+    }
+  };
+
+  workflows.forEach(({ file, workflow }) => {
+    const name = workflow.name ?? file;
+    workflows.forEach(downstream => {
+      const config = events.get(downstream.file)?.workflow_run;
+      if (!toFilterPatterns(getEventField(config, 'workflows'))?.includes(name)) {
+        return;
+      }
+      // Only a run started on completion waits for the upstream run to finish
+      const types = toFilterPatterns(getEventField(config, 'types'));
+      addEdge({
+        from: file,
+        to: downstream.file,
+        via: 'workflow_run',
+        overlaps: !types || types.includes('requested') || types.includes('in_progress')
+      });
+    });
+
+    Object.entries(workflow.jobs || {}).forEach(([job, definition]) => {
+      (Array.isArray(definition?.steps) ? definition.steps : []).flatMap(getStepDispatches).forEach(dispatch => {
+        workflows
+          .filter(downstream => {
+            const config = events.get(downstream.file) ?? {};
+            if (!(dispatch.via in config)) {
+              return false;
+            }
+            if (dispatch.via === 'repository_dispatch') {
+              const types = toFilterPatterns(getEventField(config.repository_dispatch, 'types'));
+              return !types || types.includes(dispatch.target);
+            }
+            return [downstream.file, downstream.file.split('/').pop(), downstream.workflow.name]
+              .includes(dispatch.target);
+          })
+          .forEach(downstream => addEdge({ from: file, to: downstream.file, via: dispatch.via, job, overlaps: true }));
+      });
+    });
+  });
+
+  return edges;
+}
+
+/**
+ * Calculate the worst-case combined concurrency of a run and the runs it leads
+ * to. A run started on completion of another can't overlap with it, but it can
+ * overlap with anything else started before, so the peak is either the run with
+ * everything it starts while running, or everything it starts.
+ * @param run The run
+ * @returns The combined peak concurrency
+ */
+function calculatePipelinePeak(run: PipelineRun): number {
+  const peaks = run.next.map(next => ({ overlaps: next.overlaps, peak: calculatePipelinePeak(next) }));
+  const sum = (values: number[]): number => values.reduce((total, value) => total + value, 0);
+  return Math.max(
+    run.count + sum(peaks.filter(next => next.overlaps).map(next => next.peak)),
+    sum(peaks.map(next => next.peak))
+  );
+}
+
+/**
+ * Build the cross-file trigger graph of the workflows: which workflow can start
+ * which, the pipelines they form and the loops among them. Each pipeline starts
+ * at a workflow only started by the workflows it leads to, if any, and follows
+ * every edge, stopping at a loop and after the levels of `workflow_run` GitHub
+ * allows. A loop no other workflow starts is followed from its first workflow.
+ * @param workflows The analyzed workflows with their parsed definitions
+ * @returns The edges, the pipelines, busiest first, and the loops
+ */
+export function calculatePipelines(
+  workflows: { result: WorkflowValidationResult; workflow: WorkflowFile }[]
+): PipelineGraph {
+  const edges = getPipelineEdges(workflows.map(({ result, workflow }) => ({ file: result.file, workflow })));
+  const counts = new Map(workflows.map(({ result }) => [result.file, result.concurrencyCount]));
+
+  // A run is started by an edge, except for the first run of a pipeline
+  const buildRun = (edge: Partial<PipelineEdge> & { to: string }, path: string[], depth: number): PipelineRun => {
+    const visited = [...path, edge.to];
+    const next = edges
+      .filter(next => next.from === edge.to && !visited.includes(next.to) &&
+        (next.via !== 'workflow_run' || depth < MAX_WORKFLOW_RUN_DEPTH))
+      .map(next => buildRun(next, visited, next.via === 'workflow_run' ? depth + 1 : 0));
+    return {
+      file: edge.to,
+      count: counts.get(edge.to) ?? 0,
+      ...(edge.via ? { via: edge.via, overlaps: edge.overlaps } : {}),
+      next
+    };
+  };
+
+  const reachable = (from: string): Set<string> => {
+    const found = new Set<string>();
+    const visit = (file: string): void => edges
+      .filter(edge => edge.from === file && !found.has(edge.to))
+      .forEach(edge => {
+        found.add(edge.to);
+        visit(edge.to);
+      });
+    visit(from);
+    return found;
+  };
+
+  // A loop nothing outside it starts is followed from its first workflow, once
+  const roots: string[] = [];
+  workflows.forEach(({ result }) => {
+    const downstream = reachable(result.file);
+    const startedOutside = edges.some(edge => edge.to === result.file && !downstream.has(edge.from));
+    const startsOthers = Array.from(downstream).some(file => file !== result.file);
+    if (startsOthers && !startedOutside && !roots.some(root => reachable(root).has(result.file))) {
+      roots.push(result.file);
+    }
+  });
+
+  const pipelines: Pipeline[] = roots
+    .map(root => {
+      const run = buildRun({ to: root }, [], 0);
+      const files: string[] = [];
+      const collect = (current: PipelineRun): void => {
+        if (!files.includes(current.file)) {
+          files.push(current.file);
+        }
+        current.next.forEach(collect);
+      };
+      collect(run);
+      return { root, run, workflows: files, count: calculatePipelinePeak(run) };
+    })
+    .sort((a, b) => b.count - a.count);
+
+  // Each loop is reported once, from the first workflow on it
+  const seen = new Set<string>();
+  const cycles: string[][] = [];
+  workflows.forEach(({ result }) => {
+    const cycle = findCycle(result.file, file => edges.filter(edge => edge.from === file).map(edge => edge.to));
+    const key = cycle && Array.from(new Set(cycle)).sort().join('\n');
+    if (cycle && !seen.has(key as string)) {
+      seen.add(key as string);
+      cycles.push(cycle);
+    }
+  });
+
+  return { edges, pipelines, cycles };
+}
+
+/**
+ * Describe each chain of a pipeline, from its first workflow to a workflow that
+ * doesn't start any other, e.g. `ci.yml → deploy.yml (workflow_run)`
+ * @param pipeline The pipeline
+ * @returns One line per chain
+ */
+export function formatPipelineChains(pipeline: Pipeline): string[] {
+  const chains = (run: PipelineRun, prefix: string): string[] => {
+    const line = prefix ? `${prefix} → ${run.file} (${run.via})` : run.file;
+    return run.next.length > 0 ? run.next.flatMap(next => chains(next, line)) : [line];
+  };
+  return chains(pipeline.run, '');
+}
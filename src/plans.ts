@@ -0,0 +1,142 @@
+import {
+  AnalysisOptions,
+  GitHubPlan,
+  PlanCapacity,
+  PlanLimits,
+  PlanUsage,
+  RunnerLimit,
+  TriggerConcurrency,
+  WorkflowValidationResult
+} from './types';
+
+// GitHub's documented concurrent job limits of GitHub-hosted runners on each plan;
+// GPU larger runners are only available on Team and Enterprise. GitHub Enterprise
+// Server has no hosted runners, so its limits must be given in the config.
+export const PLAN_PRESETS: Record<GitHubPlan, Partial<Omit<PlanLimits, 'plan' | 'gpuLabel'>>> = {
+  free: { total: 20, macos: 5 },
+  pro: { total: 40, macos: 5 },
+  team: { total: 60, macos: 5, gpu: 100 },
+  enterprise: { total: 500, macos: 50, gpu: 100 },
+  ghes: {}
+};
+
+// Runner label pattern the macOS limit of a plan applies to
+export const PLAN_MACOS_LABEL = 'macos-*';
+
+// Runner label pattern the GPU limit applies to when the config doesn't name the
+// organization's GPU runners
+export const DEFAULT_PLAN_GPU_LABEL = '*gpu*';
+
+/**
+ * Parse the plan input
+ * @param value The raw input value
+ * @returns The plan, or undefined if the input is empty
+ * @throws {Error} If the input isn't a known plan
+ */
+export function parsePlan(value: string | undefined): GitHubPlan | undefined {
+  if (!value || value.trim().length === 0) {
+    return undefined;
+  }
+  const plan = value.trim().toLowerCase();
+  if (!(plan in PLAN_PRESETS)) {
+    throw new Error(`plan must be one of ${Object.keys(PLAN_PRESETS).join(', ')}, got '${value}'`);
+  }
+  return plan as GitHubPlan;
+}
+
+/**
+ * Resolve the limits of the plan to validate against: the preset of the plan
+ * given in the options, or else in the config, with the config's plan limits
+ * replacing the preset's
+ * @param options The analysis options, including the config
+ * @returns The plan's limits, or undefined if no plan is set
+ * @throws {Error} If the plan has no built-in total and the config doesn't give one
+ */
+export function resolvePlanLimits(options: AnalysisOptions): PlanLimits | undefined {
+  const plan = options.plan ?? options.config?.defaults.plan;
+  if (!plan) {
+    return undefined;
+  }
+  const overrides = options.config?.defaults.planLimits || {};
+  const total = overrides.total ?? PLAN_PRESETS[plan].total;
+  const macos = overrides.macos ?? PLAN_PRESETS[plan].macos;
+  const gpu = overrides.gpu ?? PLAN_PRESETS[plan].gpu;
+  if (total === undefined) {
+    throw new Error(`The ${plan} plan has no built-in limits: set defaults.plan-limits.total in the config`);
+  }
+  return {
+    plan,
+    total,
+    ...(macos !== undefined ? { macos } : {}),
+    ...(gpu !== undefined ? { gpu } : {}),
+    gpuLabel: overrides.gpuLabel ?? DEFAULT_PLAN_GPU_LABEL
+  };
+}
+
+/**
+ * Get the runner limits a plan sets on macOS and GPU larger runners
+ * @param limits The plan's limits
+ * @returns The runner limits, for the runners the plan has
+ */
+export function getPlanRunnerLimits(limits: PlanLimits): RunnerLimit[] {
+  return [
+    ...(limits.macos !== undefined ? [{ label: PLAN_MACOS_LABEL, limit: limits.macos }] : []),
+    ...(limits.gpu !== undefined ? [{ label: limits.gpuLabel, limit: limits.gpu }] : [])
+  ];
+}
+
+/**
+ * Order usages from the highest count, then by subject
+ * @param a The first usage
+ * @param b The second usage
+ * @returns The sort order
+ */
+function byUsage(a: PlanUsage, b: PlanUsage): number {
+  return b.count - a.count || a.subject.localeCompare(b.subject);
+}
+
+/**
+ * Calculate how much of a plan's concurrent jobs each workflow, and the
+ * workflows started by each trigger, use at their peak, and how much of the
+ * plan's GPU larger runners each workflow uses
+ * @param limits The plan's limits
+ * @param results The analyzed workflows
+ * @param triggers The combined concurrency of each trigger
+ * @returns The usage of the workflows, the triggers and the GPU runners, highest first
+ */
+export function calculatePlanCapacity(
+  limits: PlanLimits,
+  results: WorkflowValidationResult[],
+  triggers: TriggerConcurrency[]
+): PlanCapacity {
+  const usage = (subject: string, count: number, limit: number): PlanUsage => ({
+    subject,
+    count,
+    percent: Math.round(count / limit * 1000) / 10
+  });
+  const gpu = limits.gpu;
+  return {
+    limits,
+    workflows: results.map(result => usage(result.file, result.concurrencyCount, limits.total)).sort(byUsage),
+    triggers: triggers.map(trigger => usage(trigger.trigger, trigger.count, limits.total)).sort(byUsage),
+    gpu: gpu === undefined ? [] : results
+      .map(result => usage(result.file,
+        result.runners.find(runner => runner.label === limits.gpuLabel)?.count ?? 0, gpu))
+      .filter(workflow => workflow.count > 0)
+      .sort(byUsage)
+  };
+}
+
+/**
+ * Describe a plan's limits, e.g. `team (60 jobs, 5 macOS, 100 GPU)`
+ * @param limits The plan's limits
+ * @returns The description
+ */
+export function formatPlanLimits(limits: PlanLimits): string {
+  const runners = [
+    `${limits.total} jobs`,
+    ...(limits.macos !== undefined ? [`${limits.macos} macOS`] : []),
+    ...(limits.gpu !== undefined ? [`${limits.gpu} GPU`] : [])
+  ];
+  return `${limits.plan} (${runners.join(', ')})`;
+}
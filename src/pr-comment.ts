@@ -0,0 +1,196 @@
+import fs from 'fs';
+import http from 'http';
+import https from 'https';
+import {
+  formatBaselineChanges,
+  formatExecutionGroups,
+  formatHeadroomTable,
+  formatIssueList,
+  formatMermaidBlock
+} from './summary';
+import { ValidationReport } from './types';
+
+// Hidden marker identifying the comment maintained by the validator
+export const COMMENT_MARKER = '<!-- workflow-concurrency-validator -->';
+
+/**
+ * Represents the pull request to comment on
+ */
+export interface PullRequestContext {
+  /** Base URL of the REST API, e.g. https://api.github.com */
+  apiUrl: string;
+  /** Repository as `owner/name` */
+  repository: string;
+  /** Number of the pull request */
+  number: number;
+  /** Token allowed to write pull request comments */
+  token: string;
+}
+
+/**
+ * Represents an issue comment returned by the REST API
+ */
+interface IssueComment {
+  id: number;
+  body?: string;
+  /** Author of the comment; `Bot` for comments posted with the Actions token */
+  user?: {
+    type?: string;
+  } | null;
+}
+
+/**
+ * Read the pull request the workflow runs for from the GitHub Actions environment
+ * @param env The environment variables
+ * @returns The pull request, or undefined when the event isn't a pull request
+ * or there is no token to comment with
+ */
+export function getPullRequestContext(env: NodeJS.ProcessEnv = process.env): PullRequestContext | undefined {
+  if (!env.GITHUB_EVENT_NAME?.startsWith('pull_request') || !env.GITHUB_EVENT_PATH ||
+    !env.GITHUB_REPOSITORY || !env.GITHUB_TOKEN) {
+    return undefined;
+  }
+
+  const event = JSON.parse(fs.readFileSync(env.GITHUB_EVENT_PATH, 'utf8'));
+  const number = event.pull_request?.number ?? event.number;
+  if (typeof number !== 'number') {
+    return undefined;
+  }
+
+  return {
+    apiUrl: (env.GITHUB_API_URL || 'https://api.github.com').replace(/\/+$/, ''),
+    repository: env.GITHUB_REPOSITORY,
+    number,
+    token: env.GITHUB_TOKEN
+  };
+}
+
+/**
+ * Create the body of the pull request comment
+ * @param report The validation report
+ * @returns The Markdown body, starting with the comment marker
+ */
+export function createCommentBody(report: ValidationReport): string {
+  const lines = [COMMENT_MARKER];
+
+  if (report.passed) {
+    lines.push('## ✅ Workflow concurrency validation is now passing', '',
+      'The issues reported earlier are fixed.', '', ...formatHeadroomTable(report.workflows));
+    return `${lines.join('\n')}\n`;
+  }
+
+  lines.push('## ❌ Workflow concurrency validation failed', '',
+    `Found ${report.issues.length} issue(s):`, '', ...formatIssueList(report.issues), '',
+    ...formatHeadroomTable(report.workflows));
+
+  if (report.baseline) {
+    lines.push('', `### Changes against \`${report.baseline.source}\``, '', ...formatBaselineChanges(report.baseline));
+  }
+
+  report.workflows
+    .filter(result => !result.passed)
+    .forEach(result => {
+      lines.push('', `<details><summary><code>${result.file}</code></summary>`, '',
+        ...formatExecutionGroups(result), '', ...formatMermaidBlock(result), '', '</details>');
+    });
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Send a request to the GitHub REST API
+ * @param context The pull request context, with the API URL and token
+ * @param method The HTTP method
+ * @param path The path of the endpoint, starting with a slash
+ * @param body The JSON body, if any
+ * @returns The parsed JSON response
+ * @throws {Error} If the request fails or the API responds with an error status
+ */
+function request<T>(context: PullRequestContext, method: string, path: string, body?: unknown): Promise<T> {
+  const url = new URL(`${context.apiUrl}${path}`);
+  const data = body !== undefined ? JSON.stringify(body) : undefined;
+  const client = url.protocol === 'http:' ? http : https;
+
+  return new Promise((resolve, reject) => {
+    const req = client.request(url, {
+      method,
+      headers: {
+        'Accept': 'application/vnd.github+json',
+        'Authorization': `Bearer ${context.token}`,
+        'User-Agent': 'workflow-concurrency-validator',
+        'X-GitHub-Api-Version': '2022-11-28',
+        ...(data !== undefined ? { 'Content-Type': 'application/json', 'Content-Length': Buffer.byteLength(data) } : {})
+      }
+    }, res => {
+      let text = '';
+      res.setEncoding('utf8');
+      res.on('data', chunk => text += chunk);
+      res.on('end', () => {
+        const status = res.statusCode || 0;
+        if (status < 200 || status >= 300) {
+          reject(new Error(`GitHub API ${method} ${url.pathname} failed with ${status}: ${text}`));
+          return;
+        }
+        try {
+          resolve(text ? JSON.parse(text) : undefined);
+        } catch (error) {
+          reject(new Error(`GitHub API ${method} ${url.pathname} returned invalid JSON`));
+        }
+      });
+    });
+    req.on('error', reject);
+    if (data !== undefined) {
+      req.write(data);
+    }
+    req.end();
+  });
+}
+
+/**
+ * Find the comment previously posted by the validator on the pull request.
+ * Only bot comments are considered, so a reviewer quoting the marker isn't overwritten.
+ * @param context The pull request context
+ * @returns The marked comment, if any
+ */
+async function findMarkedComment(context: PullRequestContext): Promise<IssueComment | undefined> {
+  const perPage = 100;
+  for (let page = 1; ; page++) {
+    const comments = await request<IssueComment[]>(context, 'GET',
+      `/repos/${context.repository}/issues/${context.number}/comments?per_page=${perPage}&page=${page}`);
+    const marked = comments.find(comment => comment.user?.type === 'Bot' &&
+      comment.body?.includes(COMMENT_MARKER));
+    if (marked || comments.length < perPage) {
+      return marked;
+    }
+  }
+}
+
+/**
+ * Post or update the validator's comment on a pull request. A single comment is
+ * kept up to date across pushes; it's only created when validation fails, and
+ * is updated to say so once the issues are fixed.
+ * @param context The pull request context
+ * @param report The validation report
+ * @returns What was done with the comment
+ */
+export async function updatePullRequestComment(
+  context: PullRequestContext,
+  report: ValidationReport
+): Promise<'created' | 'updated' | 'skipped'> {
+  const existing = await findMarkedComment(context);
+  const body = createCommentBody(report);
+
+  if (existing) {
+    if (existing.body === body) {
+      return 'skipped';
+    }
+    await request(context, 'PATCH', `/repos/${context.repository}/issues/comments/${existing.id}`, { body });
+    return 'updated';
+  }
+
+  if (report.passed) {
+    return 'skipped';
+  }
+  await request(context, 'POST', `/repos/${context.repository}/issues/${context.number}/comments`, { body });
+  return 'created';
+}
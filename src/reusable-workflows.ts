@@ -0,0 +1,222 @@
+import path from 'path';
+import { getCallCount, getJobConcurrency, isInlinedJob } from './concurrency';
+import {
+  CalledWorkflowDetail,
+  InlinedWorkflowJob,
+  MatrixProvider,
+  WorkflowFile,
+  WorkflowJob,
+  WorkflowLoader
+} from './types';
+import { parseWorkflow } from './workflow-files';
+
+/**
+ * State shared while inlining reusable workflows
+ */
+export interface InlineContext {
+  /** Loads called workflows by their path relative to the repository root */
+  loadWorkflow: WorkflowLoader;
+  /** Map of jobs that provide matrix outputs in the top-level workflow */
+  matrixProviders: Map<string, MatrixProvider>;
+  /** Collects problems that prevented a workflow from being inlined */
+  warnings: string[];
+}
+
+/**
+ * Resolve the local reusable workflow called by a job
+ * @param jobKey The key of the caller job
+ * @param job The job definition
+ * @param callStack Relative paths of the workflows currently being inlined
+ * @param context The inlining context
+ * @returns The called workflow and its path, or null if it can't be inlined
+ */
+function resolveReusableWorkflow(
+  jobKey: string,
+  job: WorkflowJob,
+  callStack: string[],
+  context: InlineContext
+): { filePath: string; workflow: WorkflowFile } | null {
+  // Remote reusable workflows can't be read and count as a single execution
+  if (typeof job.uses !== 'string' || !job.uses.startsWith('./')) {
+    return null;
+  }
+
+  const filePath = path.posix.normalize(job.uses);
+  if (callStack.includes(filePath)) {
+    context.warnings.push(`Circular reusable workflow call detected: ${[...callStack, filePath].join(' → ')}`);
+    return null;
+  }
+
+  const content = context.loadWorkflow(filePath);
+  if (content === undefined) {
+    context.warnings.push(`Reusable workflow ${job.uses} called by job '${jobKey}' was not found`);
+    return null;
+  }
+
+  return { filePath, workflow: parseWorkflow(content) };
+}
+
+/**
+ * Collect the inputs a reusable workflow receives from its caller
+ * @param workflow The called workflow
+ * @param withInputs The `with:` values of the caller job
+ * @returns Map of input names to values, using declared defaults for missing inputs
+ */
+function collectWorkflowInputs(workflow: WorkflowFile, withInputs: Record<string, unknown> = {}): Record<string, unknown> {
+  const inputs: Record<string, unknown> = {};
+  const trigger = workflow.on;
+  const declared = trigger && typeof trigger === 'object' && !Array.isArray(trigger)
+    ? trigger.workflow_call?.inputs
+    : undefined;
+
+  if (declared && typeof declared === 'object') {
+    Object.entries(declared as Record<string, any>).forEach(([name, definition]) => {
+      if (definition && typeof definition === 'object' && definition.default !== undefined) {
+        inputs[name] = definition.default;
+      }
+    });
+  }
+
+  return { ...inputs, ...withInputs };
+}
+
+/**
+ * Substitute `inputs.*` references in a value of a called workflow
+ * @param value Any value from the called workflow's job definition
+ * @param inputs Map of input names to values
+ * @returns The value with every resolvable input reference replaced
+ */
+function resolveInputReferences(value: unknown, inputs: Record<string, unknown>): unknown {
+  if (Array.isArray(value)) {
+    return value.map(item => resolveInputReferences(item, inputs));
+  }
+
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveInputReferences(item, inputs)])
+    );
+  }
+
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  // ${{ fromJSON(inputs.name) }} becomes the parsed value, or keeps pointing at the caller's expression
+  const fromJsonMatch = value.match(/^\s*\$\{\{\s*fromJSON\s*\(\s*inputs\.([\w-]+)\s*\)\s*\}\}\s*$/);
+  if (fromJsonMatch && fromJsonMatch[1] in inputs) {
+    const input = inputs[fromJsonMatch[1]];
+    if (typeof input !== 'string') {
+      return input;
+    }
+    const expression = input.match(/^\s*\$\{\{\s*(.*?)\s*\}\}\s*$/);
+    if (expression) {
+      return `\${{ fromJSON(${expression[1]}) }}`;
+    }
+    try {
+      return JSON.parse(input);
+    } catch {
+      return value;
+    }
+  }
+
+  // ${{ inputs.name }} on its own keeps the input's type
+  const exactMatch = value.match(/^\s*\$\{\{\s*inputs\.([\w-]+)\s*\}\}\s*$/);
+  if (exactMatch && exactMatch[1] in inputs) {
+    return inputs[exactMatch[1]];
+  }
+
+  return value.replace(/\$\{\{\s*inputs\.([\w-]+)\s*\}\}/g, (match, name) =>
+    name in inputs ? String(inputs[name]) : match
+  );
+}
+
+/**
+ * Replace jobs that call local reusable workflows with the jobs of the called
+ * workflows, recursively. Inlined jobs are keyed `caller/callee`, inherit the
+ * caller's dependencies and are attributed to the top-level caller job.
+ * @param jobs The jobs of the workflow
+ * @param callStack Relative paths of the workflows currently being inlined
+ * @param context The inlining context
+ * @returns The jobs with every resolvable reusable workflow call inlined
+ */
+export function inlineReusableWorkflows(
+  jobs: Record<string, WorkflowJob>,
+  callStack: string[],
+  context: InlineContext
+): Record<string, WorkflowJob> {
+  const inlined: Record<string, WorkflowJob> = {};
+  // Caller jobs are replaced in `needs` by the jobs of the workflow they call
+  const replacements = new Map<string, string[]>();
+
+  Object.entries(jobs).forEach(([jobKey, job]) => {
+    const callee = resolveReusableWorkflow(jobKey, job, callStack, context);
+    if (!callee) {
+      inlined[jobKey] = job;
+      return;
+    }
+
+    const workflow = callee.filePath;
+    const inputs = collectWorkflowInputs(callee.workflow, job.with);
+    const calleeJobs = inlineReusableWorkflows(
+      resolveInputReferences(callee.workflow.jobs || {}, inputs) as Record<string, WorkflowJob>,
+      [...callStack, callee.filePath],
+      context
+    );
+    const callerNeeds = job.needs ? (Array.isArray(job.needs) ? job.needs : [job.needs]) : [];
+    const callCount = getJobConcurrency(job, context.matrixProviders);
+
+    Object.entries(calleeJobs).forEach(([calleeKey, calleeJob]) => {
+      const calleeNeeds = calleeJob.needs ? (Array.isArray(calleeJob.needs) ? calleeJob.needs : [calleeJob.needs]) : [];
+      const inlinedJob: InlinedWorkflowJob = {
+        ...calleeJob,
+        needs: calleeNeeds.length > 0 ? calleeNeeds.map(need => `${jobKey}/${need}`) : callerNeeds,
+        calledBy: { job: jobKey, workflow },
+        callCount: getCallCount(calleeJob) * callCount
+      };
+      inlined[`${jobKey}/${calleeKey}`] = inlinedJob;
+    });
+
+    const calleeKeys = Object.keys(calleeJobs).map(calleeKey => `${jobKey}/${calleeKey}`);
+    replacements.set(jobKey, calleeKeys.length > 0 ? calleeKeys : callerNeeds);
+  });
+
+  // Jobs of the caller's own workflow are copied, so its parsed workflow is left as it was
+  if (replacements.size > 0) {
+    Object.entries(inlined).forEach(([jobKey, job]) => {
+      if (job.needs) {
+        const needs = Array.isArray(job.needs) ? job.needs : [job.needs];
+        inlined[jobKey] = { ...job, needs: needs.flatMap(need => replacements.get(need) || [need]) };
+      }
+    });
+  }
+
+  return inlined;
+}
+
+/**
+ * Attribute the concurrency of inlined jobs in a level to the jobs that call their workflows
+ * @param level The list of job keys in this execution level
+ * @param jobs The jobs in the workflow
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The concurrency added by each called workflow
+ */
+export function attributeCalledWorkflows(
+  level: string[],
+  jobs: Record<string, WorkflowJob>,
+  matrixProviders: Map<string, MatrixProvider>
+): CalledWorkflowDetail[] {
+  const calledWorkflows = new Map<string, CalledWorkflowDetail>();
+
+  level.forEach(jobKey => {
+    const job = jobs[jobKey];
+    if (!isInlinedJob(job)) {
+      return;
+    }
+
+    const detail = calledWorkflows.get(job.calledBy.job) || { ...job.calledBy, count: 0 };
+    detail.count += getJobConcurrency(job, matrixProviders);
+    calledWorkflows.set(job.calledBy.job, detail);
+  });
+
+  return Array.from(calledWorkflows.values());
+}
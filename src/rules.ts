@@ -0,0 +1,269 @@
+import fs from 'fs';
+import { createRequire } from 'module';
+import path from 'path';
+import vm from 'vm';
+import { getJobLocation } from './findings';
+import { filterPatternToRegExp, getWorkflowEvents } from './triggers';
+import {
+  AnalysisOptions,
+  FindingSeverity,
+  RuleContext,
+  RuleResult,
+  WorkflowFile,
+  WorkflowRule,
+  WorkflowTrigger,
+  WorkflowValidationResult
+} from './types';
+
+// Largest matrix the max-matrix-size rule allows when its `max` option isn't set
+export const DEFAULT_RULE_MATRIX_SIZE = 16;
+
+/**
+ * Represents a policy rule enabled for an analysis, with its configured severity and options
+ */
+export interface ResolvedRule {
+  rule: WorkflowRule;
+  severity: FindingSeverity;
+  options: Record<string, unknown>;
+}
+
+/**
+ * Check whether a concurrency setting cancels runs in progress: `true`, or an
+ * expression that can only be evaluated at runtime
+ * @param value The `cancel-in-progress` value
+ * @returns Whether superseded runs can be cancelled
+ */
+function cancelsInProgress(value: unknown): boolean {
+  return value === true || (typeof value === 'string' && value.includes('${{'));
+}
+
+// Rules shipped with the validator; they only run when the config lists them
+export const BUILT_IN_RULES: WorkflowRule[] = [
+  {
+    id: 'pull-request-concurrency',
+    description: 'Workflows triggered by pull requests declare a concurrency group that cancels superseded runs',
+    severity: 'error',
+    check: ({ workflow }) => {
+      const events = getWorkflowEvents(workflow);
+      const event = ['pull_request', 'pull_request_target'].find(name => name in events);
+      const concurrency = workflow.concurrency;
+      if (!event || (typeof concurrency === 'object' && concurrency !== null &&
+        cancelsInProgress(concurrency['cancel-in-progress']))) {
+        return [];
+      }
+      return [{
+        message: `Workflow runs on ${event} without cancelling superseded runs: ` +
+          'set `concurrency` with `cancel-in-progress: true`'
+      }];
+    }
+  },
+  {
+    id: 'max-matrix-size',
+    description: 'No single matrix generates more jobs than the `max` option ' +
+      `(${DEFAULT_RULE_MATRIX_SIZE} by default)`,
+    severity: 'error',
+    check: ({ result, options }) => {
+      const max = options.max ?? DEFAULT_RULE_MATRIX_SIZE;
+      if (typeof max !== 'number' || !Number.isInteger(max) || max <= 0) {
+        throw new Error(`max must be a positive integer, got ${JSON.stringify(max)}`);
+      }
+      return Object.entries(result.matrixSizes)
+        .filter(([, size]) => size > max)
+        .map(([job, size]) => ({
+          message: `The matrix of job '${job}' has ${size} combinations, more than the ${max} allowed by policy`,
+          job,
+          node: 'matrix' as const
+        }));
+    }
+  },
+  {
+    id: 'deploy-concurrency',
+    description: 'Deploy jobs, with an `environment` or an ID matching the `jobs` option (`deploy*` by default), ' +
+      'set a concurrency group',
+    severity: 'error',
+    check: ({ workflow, options }) => {
+      const patterns = options.jobs ?? ['deploy*'];
+      if (!Array.isArray(patterns) || patterns.some(pattern => typeof pattern !== 'string')) {
+        throw new Error('jobs must be a list of job ID patterns');
+      }
+      return Object.entries(workflow.jobs || {})
+        .filter(([jobKey, job]) => job && (job.environment !== undefined ||
+          patterns.some(pattern => filterPatternToRegExp(pattern).test(jobKey))))
+        .filter(([, job]) => !job.concurrency ||
+          (typeof job.concurrency === 'object' && !job.concurrency.group))
+        .map(([job]) => ({
+          message: `Deploy job '${job}' doesn't set a concurrency group, so its deployments can overlap`,
+          job
+        }));
+    }
+  }
+];
+
+/**
+ * Check whether a value exported by a rule module has the shape of a rule
+ * @param value The exported value
+ * @returns Whether the value has an ID and a check function
+ */
+function isRule(value: unknown): value is Pick<WorkflowRule, 'id' | 'check'> & Record<string, unknown> {
+  return typeof value === 'object' && value !== null &&
+    'id' in value && typeof value.id === 'string' && value.id.length > 0 &&
+    'check' in value && typeof value.check === 'function';
+}
+
+/**
+ * Check that a value exported by a rule module is a rule
+ * @param value The exported value
+ * @param modulePath The path of the module, for error messages
+ * @returns The rule, with the `error` severity if it doesn't set one
+ * @throws {Error} If the value doesn't have an ID, a check function or a valid severity
+ */
+function toRule(value: unknown, modulePath: string): WorkflowRule {
+  if (!isRule(value)) {
+    throw new Error(`Rule module ${modulePath} must export rules with an id and a check function`);
+  }
+  const { id, description, severity, check } = value;
+  if (severity !== undefined && severity !== 'error' && severity !== 'warning') {
+    throw new Error(`Rule '${id}' in ${modulePath} has an invalid severity '${String(severity)}'`);
+  }
+  return {
+    id,
+    description: typeof description === 'string' ? description : id,
+    severity: severity ?? 'error',
+    check
+  };
+}
+
+/**
+ * Load the policy rules of a local module. JavaScript modules are required as
+ * they are; TypeScript modules are compiled with the `typescript` package of the
+ * repository, or of the validator when installed with it, since the action
+ * doesn't ship a compiler.
+ * @param workspace The repository root
+ * @param modulePath The path of the module, relative to the repository root
+ * @returns The rules the module exports: a rule, a list of rules, or either as the default export
+ * @throws {Error} If the module doesn't exist, can't be loaded or doesn't export rules
+ */
+export function loadRuleModule(workspace: string, modulePath: string): WorkflowRule[] {
+  const filePath = path.resolve(workspace, modulePath);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Rule module ${modulePath} not found`);
+  }
+
+  // Modules are loaded by Node itself, so they can require their own dependencies
+  const requireFromModule = createRequire(filePath);
+  let exported: unknown;
+  try {
+    if (/\.[cm]?ts$/.test(filePath)) {
+      let typescript: typeof import('typescript') | undefined;
+      for (const requireTypeScript of [requireFromModule, createRequire(__filename)]) {
+        try {
+          typescript = typescript ?? requireTypeScript('typescript');
+        } catch {
+          // Tried next from the validator's own dependencies
+        }
+      }
+      if (!typescript) {
+        throw new Error('TypeScript rule modules need the typescript package installed in the repository');
+      }
+      const { outputText } = typescript.transpileModule(fs.readFileSync(filePath, 'utf8'), {
+        fileName: filePath,
+        compilerOptions: {
+          module: typescript.ModuleKind.CommonJS,
+          target: typescript.ScriptTarget.ES2020,
+          esModuleInterop: true
+        }
+      });
+      // Run as a CommonJS module, with its own require and exports
+      const compiled: { exports: unknown } = { exports: {} };
+      const run = vm.compileFunction(outputText, ['exports', 'require', 'module', '__filename', '__dirname'],
+        { filename: filePath });
+      run(compiled.exports, requireFromModule, compiled, filePath, path.dirname(filePath));
+      exported = compiled.exports;
+    } else {
+      exported = requireFromModule(filePath);
+    }
+  } catch (error) {
+    throw new Error(`Can't load rule module ${modulePath}: ${(error as Error).message}`);
+  }
+
+  const rules = typeof exported === 'object' && exported !== null && 'default' in exported &&
+    exported.default !== undefined ? exported.default : exported;
+  return (Array.isArray(rules) ? rules : [rules]).map(rule => toRule(rule, modulePath));
+}
+
+/**
+ * Resolve the policy rules to check. Built-in rules are enabled by listing them
+ * in the config's `rules`; rules given as options or loaded from the config's
+ * rule modules are enabled unless the config turns them off. The config's
+ * severity replaces the rule's own.
+ * @param options The analysis options, including the config
+ * @returns The enabled rules, in the order they are defined
+ * @throws {Error} If a rule module can't be loaded, a rule ID is defined twice or
+ * the config sets a rule that doesn't exist
+ */
+export function resolveRules(options: AnalysisOptions): ResolvedRule[] {
+  const config = options.config;
+  const workspace = options.workspace || process.cwd();
+  const extra = [
+    ...(options.rules || []),
+    ...(config?.ruleModules || []).flatMap(modulePath => loadRuleModule(workspace, modulePath))
+  ];
+
+  const ids = new Set(BUILT_IN_RULES.map(rule => rule.id));
+  extra.forEach(rule => {
+    if (ids.has(rule.id)) {
+      throw new Error(`Rule '${rule.id}' is defined more than once`);
+    }
+    ids.add(rule.id);
+  });
+  Object.keys(config?.rules || {})
+    .filter(id => !ids.has(id))
+    .forEach(id => {
+      throw new Error(`Unknown rule '${id}' in the config (expected one of ${Array.from(ids).join(', ')})`);
+    });
+
+  return [...BUILT_IN_RULES, ...extra]
+    .map(rule => {
+      const settings = config?.rules?.[rule.id];
+      const enabled = settings !== undefined || !BUILT_IN_RULES.includes(rule);
+      const severity = settings?.severity ?? rule.severity;
+      return enabled && severity !== 'off'
+        ? { rule, severity, options: settings?.options || {} }
+        : undefined;
+    })
+    .filter((resolved): resolved is ResolvedRule => resolved !== undefined);
+}
+
+/**
+ * Check the enabled policy rules on a workflow. A rule that throws is reported
+ * in the workflow's warnings instead of stopping the analysis.
+ * @param rules The enabled rules
+ * @param workflow The parsed workflow
+ * @param result The analysis of the workflow
+ * @param triggers The events that start the workflow
+ * @returns The violations, located at their jobs or at the workflow file
+ */
+export function checkRules(
+  rules: ResolvedRule[],
+  workflow: WorkflowFile,
+  result: WorkflowValidationResult,
+  triggers: WorkflowTrigger[]
+): RuleResult[] {
+  return rules.flatMap(({ rule, severity, options }) => {
+    const context: RuleContext = { file: result.file, workflow, result, triggers, options };
+    try {
+      return rule.check(context).map(violation => ({
+        rule: rule.id,
+        severity,
+        file: result.file,
+        message: violation.message,
+        locations: [violation.job !== undefined
+          ? getJobLocation(result, violation.job, violation.node)
+          : { file: result.file }]
+      }));
+    } catch (error) {
+      result.warnings.push(`Rule '${rule.id}' failed: ${(error as Error).message}`);
+      return [];
+    }
+  });
+}
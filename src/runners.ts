@@ -0,0 +1,146 @@
+import yaml from 'js-yaml';
+import { calculatePeakConcurrency, getCallCount, getMaxParallel } from './concurrency';
+import { expandMatrix, UnresolvedMatrixValue } from './matrix';
+import { filterPatternToRegExp } from './triggers';
+import {
+  MatrixCombination,
+  MatrixProvider,
+  PeakConcurrency,
+  RunnerConcurrency,
+  RunnerLimit,
+  WorkflowJob
+} from './types';
+
+/**
+ * Resolve the runner labels of a job for a single matrix combination
+ * @param job The job definition
+ * @param combination The matrix combination, used to resolve `${{ matrix.* }}` references
+ * @returns The labels a runner needs to pick up the job
+ */
+export function resolveRunnerLabels(job: WorkflowJob, combination: MatrixCombination): string[] {
+  const resolve = (value: unknown): unknown[] => {
+    if (Array.isArray(value)) {
+      return value.flatMap(resolve);
+    }
+    if (typeof value !== 'string') {
+      return value === undefined || value === null ? [] : [value];
+    }
+
+    // ${{ matrix.key }} on its own can expand to a list of labels
+    const exactMatch = value.match(/^\s*\$\{\{\s*matrix\.([\w-]+)\s*\}\}\s*$/);
+    if (exactMatch && exactMatch[1] in combination) {
+      const matrixValue = combination[exactMatch[1]];
+      return matrixValue instanceof UnresolvedMatrixValue ? [value.trim()] : resolve(matrixValue);
+    }
+
+    return [value.replace(/\$\{\{\s*matrix\.([\w-]+)\s*\}\}/g, (match, key) => {
+      const matrixValue = combination[key];
+      return key in combination && !(matrixValue instanceof UnresolvedMatrixValue) ? String(matrixValue) : match;
+    })];
+  };
+
+  const runsOn = job['runs-on'];
+  if (runsOn && typeof runsOn === 'object' && !Array.isArray(runsOn)) {
+    return [...resolve(runsOn.group), ...resolve(runsOn.labels)].map(String);
+  }
+  return resolve(runsOn).map(String);
+}
+
+/**
+ * Collect the runner labels a job runs on across its matrix combinations
+ * @param job The job definition
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @returns The distinct labels, in order of appearance
+ */
+export function getJobRunnerLabels(job: WorkflowJob, matrixProviders: Map<string, MatrixProvider>): string[] {
+  const labels = expandMatrix(job, matrixProviders).flatMap(combination => resolveRunnerLabels(job, combination));
+  return Array.from(new Set(labels));
+}
+
+/**
+ * Calculate the peak concurrency of every runner label used in the workflow, and
+ * of every configured runner limit. A limit pattern counts each execution whose
+ * labels match it once.
+ * @param jobKeys The jobs to consider (must not contain dependency cycles)
+ * @param jobs The jobs in the workflow
+ * @param dependencyMap Map of jobs to their direct dependencies
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @param runnerLimits Configured limits per runner label or pattern
+ * @param jobLimits The limits set on single jobs by `max=N` comments
+ * @returns The peak concurrency for each runner label
+ */
+export function calculateRunnerConcurrency(
+  jobKeys: string[],
+  jobs: Record<string, WorkflowJob>,
+  dependencyMap: Map<string, Set<string>>,
+  matrixProviders: Map<string, MatrixProvider>,
+  runnerLimits: RunnerLimit[],
+  jobLimits: Map<string, number> = new Map()
+): RunnerConcurrency[] {
+  const jobRunners = new Map<string, { combinations: string[][]; maxParallel?: number; callCount: number }>();
+  const labels = new Set<string>();
+
+  jobKeys.forEach(jobKey => {
+    const job = jobs[jobKey];
+    const combinations = expandMatrix(job, matrixProviders).map(combination => resolveRunnerLabels(job, combination));
+    combinations.forEach(combinationLabels => combinationLabels.forEach(label => labels.add(label)));
+    jobRunners.set(jobKey, { combinations, maxParallel: getMaxParallel(job), callCount: getCallCount(job) });
+  });
+
+  // Weigh each job by its executions on runners accepted by the predicate
+  const peakFor = (accepts: (runnerLabels: string[]) => boolean): PeakConcurrency =>
+    calculatePeakConcurrency(jobKeys, jobs, dependencyMap, jobKey => {
+      const runner = jobRunners.get(jobKey);
+      if (!runner) {
+        return 0;
+      }
+      const count = runner.combinations.filter(accepts).length;
+      const concurrency = (runner.maxParallel !== undefined ? Math.min(count, runner.maxParallel) : count) *
+        runner.callCount;
+      return Math.min(concurrency, jobLimits.get(jobKey) ?? concurrency);
+    });
+
+  const runners: RunnerConcurrency[] = Array.from(labels).sort().map(label => {
+    const peak = peakFor(runnerLabels => runnerLabels.includes(label));
+    return { label, count: peak.count, jobs: peak.jobs };
+  });
+
+  runnerLimits.forEach(({ label, limit }) => {
+    const existing = runners.find(runner => runner.label === label);
+    if (existing) {
+      existing.limit = limit;
+      return;
+    }
+    const pattern = filterPatternToRegExp(label);
+    const peak = peakFor(runnerLabels => runnerLabels.some(runnerLabel => pattern.test(runnerLabel)));
+    runners.push({ label, count: peak.count, jobs: peak.jobs, limit });
+  });
+
+  return runners;
+}
+
+/**
+ * Parse the runner-limits input, a YAML or JSON mapping of runner labels (or
+ * patterns such as `macos-*`) to their maximum number of concurrent jobs
+ * @param value The raw input value
+ * @returns The configured runner limits
+ * @throws {Error} If the input is not a mapping of labels to positive numbers
+ */
+export function parseRunnerLimits(value: string | undefined): RunnerLimit[] {
+  if (!value || value.trim().length === 0) {
+    return [];
+  }
+
+  const parsed = yaml.load(value);
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    throw new Error('runner-limits must be a mapping of runner labels to limits');
+  }
+
+  return Object.entries(parsed).map(([label, limit]) => {
+    const parsedLimit = typeof limit === 'number' ? limit : parseInt(String(limit));
+    if (isNaN(parsedLimit) || parsedLimit <= 0) {
+      throw new Error(`runner-limits value for '${label}' must be a positive number`);
+    }
+    return { label, limit: parsedLimit };
+  });
+}
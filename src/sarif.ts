@@ -0,0 +1,228 @@
+import { getWorkflowFindings } from './findings';
+import { IssueLocation, ValidationIssue, ValidationReport } from './types';
+
+/**
+ * Stable IDs of the rules reported in SARIF logs; policy rules are reported as `policy/<rule ID>`
+ */
+export type SarifRuleId = 'limit-exceeded' | 'unresolved-dynamic-matrix' | 'cyclic-needs' | 'parse-error' |
+  'unknown-needs' | 'self-needs' | 'matrix-limit' | 'invalid-job-id' | 'pipeline-cycle' | `policy/${string}`;
+
+/**
+ * Represents a rule in a SARIF log
+ */
+interface SarifRule {
+  id: SarifRuleId;
+  name: string;
+  shortDescription: { text: string };
+  fullDescription: { text: string };
+  defaultConfiguration: { level: 'error' | 'warning' };
+}
+
+/**
+ * Represents a physical location in a SARIF log
+ */
+interface SarifLocation {
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId: string };
+    region: { startLine: number; startColumn?: number };
+  };
+}
+
+/**
+ * Represents a finding in a SARIF log
+ */
+export interface SarifResult {
+  ruleId: SarifRuleId;
+  ruleIndex: number;
+  level: 'error' | 'warning';
+  message: { text: string };
+  locations: SarifLocation[];
+}
+
+/**
+ * Represents a SARIF 2.1.0 log with a single run
+ */
+export interface SarifLog {
+  $schema: string;
+  version: '2.1.0';
+  runs: {
+    tool: { driver: { name: string; informationUri: string; rules: SarifRule[] } };
+    results: SarifResult[];
+  }[];
+}
+
+// Rules in the order of their ruleIndex
+const RULES: SarifRule[] = [
+  {
+    id: 'limit-exceeded',
+    name: 'ConcurrencyLimitExceeded',
+    shortDescription: { text: 'Concurrency limit exceeded' },
+    fullDescription: {
+      text: 'A workflow, job, runner label or trigger can run more jobs at the same time than its configured limit, ' +
+        'or a workflow run can bill more minutes than its budget.'
+    },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'unresolved-dynamic-matrix',
+    name: 'UnresolvedDynamicMatrix',
+    shortDescription: { text: 'Dynamic matrix size is a guess' },
+    fullDescription: {
+      text: 'The matrix is built at runtime from a value the validator cannot find, so its size is guessed. ' +
+        'Add a `# concurrency-validator: matrix-size=N` comment to give the real size.'
+    },
+    defaultConfiguration: { level: 'warning' }
+  },
+  {
+    id: 'cyclic-needs',
+    name: 'CyclicNeeds',
+    shortDescription: { text: 'Circular job dependencies' },
+    fullDescription: { text: 'Jobs depend on each other through `needs`, so they can never start.' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'parse-error',
+    name: 'WorkflowParseError',
+    shortDescription: { text: 'Workflow could not be analyzed' },
+    fullDescription: { text: 'The workflow file is not valid YAML or could not be processed.' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'unknown-needs',
+    name: 'UnknownNeeds',
+    shortDescription: { text: 'Needed job does not exist' },
+    fullDescription: { text: 'A job needs a job that is not defined in the workflow, so GitHub rejects the workflow.' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'self-needs',
+    name: 'SelfNeeds',
+    shortDescription: { text: 'Job needs itself' },
+    fullDescription: { text: 'A job lists itself in `needs`, so it can never start.' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'matrix-limit',
+    name: 'MatrixLimitExceeded',
+    shortDescription: { text: 'Matrix over GitHub\'s limit' },
+    fullDescription: { text: 'A matrix generates more than the 256 jobs GitHub allows per workflow run.' },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'invalid-job-id',
+    name: 'InvalidJobId',
+    shortDescription: { text: 'Invalid job ID' },
+    fullDescription: {
+      text: 'A job ID must start with a letter or `_` and contain only alphanumeric characters, `-` and `_`.'
+    },
+    defaultConfiguration: { level: 'error' }
+  },
+  {
+    id: 'pipeline-cycle',
+    name: 'PipelineCycle',
+    shortDescription: { text: 'Workflows start each other in a loop' },
+    fullDescription: {
+      text: 'Workflows start each other through `workflow_run` or dispatches, so a single event can keep starting runs.'
+    },
+    defaultConfiguration: { level: 'error' }
+  }
+];
+
+/**
+ * Convert an issue location to a SARIF physical location
+ * @param location The issue location
+ * @returns The SARIF location, on the first line when the position is unknown
+ */
+function toSarifLocation(location: IssueLocation): SarifLocation {
+  return {
+    physicalLocation: {
+      artifactLocation: { uri: location.file.replace(/\\/g, '/'), uriBaseId: '%SRCROOT%' },
+      region: location.position
+        ? { startLine: location.position.line, startColumn: location.position.column }
+        : { startLine: 1 }
+    }
+  };
+}
+
+/**
+ * Create a SARIF result
+ * @param rules The rules of the log
+ * @param ruleId The rule the result belongs to
+ * @param text The message
+ * @param locations Where the finding is
+ * @returns The SARIF result, at the level of its rule
+ */
+function createResult(rules: SarifRule[], ruleId: SarifRuleId, text: string, locations: IssueLocation[]): SarifResult {
+  const ruleIndex = rules.findIndex(rule => rule.id === ruleId);
+  return {
+    ruleId,
+    ruleIndex,
+    level: rules[ruleIndex].defaultConfiguration.level,
+    message: { text },
+    locations: locations.map(toSarifLocation)
+  };
+}
+
+/**
+ * Get the locations of an issue, falling back to its file
+ * @param issue The issue
+ * @returns The locations of the issue
+ */
+function getIssueLocations(issue: ValidationIssue): IssueLocation[] {
+  if (issue.locations && issue.locations.length > 0) {
+    return issue.locations;
+  }
+  return issue.file ? [{ file: issue.file }] : [];
+}
+
+/**
+ * Create a SARIF 2.1.0 log, as accepted by GitHub code scanning, from a validation report
+ * @param report The validation report
+ * @returns The SARIF log
+ */
+export function createSarifLog(report: ValidationReport): SarifLog {
+  // Policy rules are configured per repository, so they follow the built-in rules
+  const rules: SarifRule[] = [
+    ...RULES,
+    ...(report.rules || []).map(rule => ({
+      id: `policy/${rule.id}` as const,
+      name: `Policy/${rule.id}`,
+      shortDescription: { text: `Policy rule ${rule.id}` },
+      fullDescription: { text: rule.description },
+      defaultConfiguration: { level: rule.severity }
+    }))
+  ];
+
+  // Invalid workflows and rule violations are reported below, with the rule of each finding or violation
+  const results: SarifResult[] = report.issues
+    .filter(issue => issue.type !== 'invalid-workflow' && issue.type !== 'rule-violation')
+    .map(issue => createResult(
+      rules,
+      issue.type === 'parse-error' || issue.type === 'pipeline-cycle' ? issue.type : 'limit-exceeded',
+      issue.message,
+      getIssueLocations(issue)
+    ));
+
+  report.workflows
+    .flatMap(getWorkflowFindings)
+    .forEach(finding => results.push(createResult(rules, finding.type, finding.message, finding.locations)));
+  report.workflows
+    .flatMap(result => result.violations || [])
+    .forEach(violation => results.push(createResult(rules, `policy/${violation.rule}`, violation.message,
+      violation.locations)));
+
+  return {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'workflow-concurrency-validator',
+          informationUri: 'https://github.com/homeles/workflow-concurrency-validator',
+          rules
+        }
+      },
+      results
+    }]
+  };
+}
@@ -0,0 +1,248 @@
+import fs from 'fs';
+import path from 'path';
+import { getCallCount, getConcurrencyGroup, getJobConcurrency } from './concurrency';
+import { matchesPath } from './config';
+import { calculateMatrixSize } from './matrix';
+import { filterPatternToRegExp } from './triggers';
+import {
+  ConcurrencyStep,
+  JobDurations,
+  MatrixProvider,
+  PeakConcurrency,
+  WorkflowJob,
+  WorkflowSimulation
+} from './types';
+
+// Runtime in minutes of jobs without a known runtime or timeout-minutes
+export const DEFAULT_JOB_DURATION = 10;
+
+/**
+ * Check that a value is a positive number of minutes
+ * @param value The value to check
+ * @returns Whether the value is a positive number
+ */
+function isMinutes(value: unknown): value is number {
+  return typeof value === 'number' && isFinite(value) && value > 0;
+}
+
+/**
+ * Parse and validate the content of a durations file:
+ *
+ * ```json
+ * {
+ *   "default": 10,
+ *   "workflows": {
+ *     ".github/workflows/ci.yml": { "lint": 2, "test": 40 }
+ *   }
+ * }
+ * ```
+ * @param content The JSON content
+ * @param file The path of the file, for error messages
+ * @returns The job durations
+ * @throws {Error} If the file isn't valid JSON or a runtime isn't a positive number of minutes
+ */
+export function parseDurations(content: string, file: string): JobDurations {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Invalid durations file ${file}: ${(error as Error).message}`);
+  }
+
+  const errors: string[] = [];
+  const { default: defaultDuration, workflows = {} } = (typeof data === 'object' && data !== null ? data : {}) as
+    Partial<JobDurations>;
+  if (defaultDuration !== undefined && !isMinutes(defaultDuration)) {
+    errors.push('default: must be a positive number of minutes');
+  }
+  if (typeof workflows !== 'object' || workflows === null || Array.isArray(workflows)) {
+    errors.push('workflows: must map workflow paths to job runtimes');
+  } else {
+    Object.entries(workflows).forEach(([workflow, jobs]) => {
+      if (typeof jobs !== 'object' || jobs === null || Array.isArray(jobs)) {
+        errors.push(`workflows.${workflow}: must map job keys to runtimes`);
+        return;
+      }
+      Object.entries(jobs)
+        .filter(([, minutes]) => !isMinutes(minutes))
+        .forEach(([job]) => errors.push(`workflows.${workflow}.${job}: must be a positive number of minutes`));
+    });
+  }
+
+  if (errors.length > 0) {
+    throw new Error(`Invalid durations file ${file}:\n${errors.map(error => `  - ${error}`).join('\n')}`);
+  }
+  return { ...(defaultDuration !== undefined ? { default: defaultDuration } : {}), workflows };
+}
+
+/**
+ * Read a durations file
+ * @param workspace The repository root
+ * @param file Path of the durations file, relative to the repository root
+ * @returns The job durations
+ * @throws {Error} If the file doesn't exist or isn't valid
+ */
+export function loadDurations(workspace: string, file: string): JobDurations {
+  const filePath = path.resolve(workspace, file);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Durations file ${file} not found`);
+  }
+  return parseDurations(fs.readFileSync(filePath, 'utf8'), file);
+}
+
+/**
+ * Get the typical runtime of a job: from the durations file, then the job's
+ * `timeout-minutes`, then the default
+ * @param durations The job durations, if any
+ * @param relativeFilePath The relative path to the workflow file
+ * @param jobKey The job key
+ * @param job The job definition
+ * @returns The runtime in minutes
+ */
+export function getJobDuration(
+  durations: JobDurations | undefined,
+  relativeFilePath: string,
+  jobKey: string,
+  job: WorkflowJob
+): number {
+  let duration: number | undefined;
+  Object.entries(durations?.workflows || {})
+    .filter(([pattern]) => matchesPath(pattern, relativeFilePath))
+    .forEach(([, jobs]) => {
+      Object.entries(jobs)
+        .filter(([pattern]) => filterPatternToRegExp(pattern).test(jobKey))
+        .forEach(([, minutes]) => duration = minutes);
+    });
+  if (duration !== undefined) {
+    return duration;
+  }
+
+  const timeout = typeof job['timeout-minutes'] === 'string' ? Number(job['timeout-minutes']) : job['timeout-minutes'];
+  return isMinutes(timeout) ? timeout : durations?.default ?? DEFAULT_JOB_DURATION;
+}
+
+/**
+ * Simulate the schedule of a workflow: each job starts as soon as the jobs it
+ * needs have finished and its concurrency group is free, and runs its matrix in
+ * waves of at most `max-parallel` executions, each taking the job's runtime.
+ * Jobs that aren't counted still take their time, but don't add to the concurrency.
+ * @param jobKeys The jobs to schedule (must not contain dependency cycles)
+ * @param counted The jobs that count towards the concurrency
+ * @param jobs The jobs in the workflow
+ * @param dependencyMap Map of jobs to their direct dependencies
+ * @param matrixProviders Map of jobs that provide matrix outputs
+ * @param getDuration Returns the runtime in minutes of a job
+ * @param worstCase The worst-case peak of the workflow, for comparison
+ * @param jobLimits The limits set on single jobs by `max=N` comments, which cap
+ * the executions they count at once
+ * @returns The simulated schedule
+ */
+export function simulateWorkflow(
+  jobKeys: string[],
+  counted: Set<string>,
+  jobs: Record<string, WorkflowJob>,
+  dependencyMap: Map<string, Set<string>>,
+  matrixProviders: Map<string, MatrixProvider>,
+  getDuration: (jobKey: string, job: WorkflowJob) => number,
+  worstCase: PeakConcurrency,
+  jobLimits: Map<string, number> = new Map()
+): WorkflowSimulation {
+  const scheduled = new Set(jobKeys);
+  const finished = new Map<string, number>();
+  const groupFree = new Map<string, number>();
+  const runs: { jobKey: string; start: number; end: number; count: number }[] = [];
+  const pending = new Set(jobKeys);
+
+  while (pending.size > 0) {
+    // Start the job that can start first
+    let next: { jobKey: string; start: number } | undefined;
+    pending.forEach(jobKey => {
+      const needs = Array.from(dependencyMap.get(jobKey) || []).filter(need => scheduled.has(need));
+      if (!needs.every(need => finished.has(need))) {
+        return;
+      }
+      const group = getConcurrencyGroup(jobs[jobKey]);
+      const start = Math.max(0, ...needs.map(need => finished.get(need) as number),
+        group !== undefined ? groupFree.get(group) ?? 0 : 0);
+      if (!next || start < next.start) {
+        next = { jobKey, start };
+      }
+    });
+    if (!next) {
+      break;
+    }
+
+    const { jobKey, start } = next;
+    const job = jobs[jobKey];
+    const group = getConcurrencyGroup(job);
+    const duration = getDuration(jobKey, job);
+    // Executions sharing a concurrency group run one at a time
+    const width = group !== undefined ? 1 : getJobConcurrency(job, matrixProviders);
+
+    let remaining = calculateMatrixSize(job, matrixProviders) * getCallCount(job);
+    let time = start;
+    while (remaining > 0) {
+      const count = Math.min(width, remaining);
+      runs.push({ jobKey, start: time, end: time + duration, count: Math.min(count, jobLimits.get(jobKey) ?? count) });
+      remaining -= count;
+      time += duration;
+    }
+
+    finished.set(jobKey, time);
+    if (group !== undefined) {
+      groupFree.set(group, time);
+    }
+    pending.delete(jobKey);
+  }
+
+  // Executions ending at a minute make room for the ones starting at that minute
+  const counts = runs.filter(run => counted.has(run.jobKey));
+  const minutes = Array.from(new Set([0, ...counts.flatMap(run => [run.start, run.end])])).sort((a, b) => a - b);
+  const profile: ConcurrencyStep[] = [];
+  minutes.forEach(minute => {
+    const count = counts
+      .filter(run => run.start <= minute && minute < run.end)
+      .reduce((total, run) => total + run.count, 0);
+    if (profile.length === 0 || profile[profile.length - 1].count !== count) {
+      profile.push({ minute, count });
+    }
+  });
+
+  const peakStep = profile.reduce((best, step) => step.count > best.count ? step : best, profile[0]);
+  const peakJobs = Array.from(new Set(counts
+    .filter(run => run.start <= peakStep.minute && peakStep.minute < run.end)
+    .map(run => run.jobKey)));
+
+  return {
+    peak: peakStep.count,
+    peakJobs,
+    peakMinute: peakStep.minute,
+    totalMinutes: Math.max(0, ...finished.values()),
+    profile,
+    worstCase
+  };
+}
+
+/**
+ * Get the time ranges of a concurrency profile, up to the end of the workflow
+ * @param simulation The simulated schedule
+ * @returns The start and end minute of each step, with its number of executions
+ */
+export function getProfileRanges(simulation: WorkflowSimulation): { from: number; to: number; count: number }[] {
+  return simulation.profile
+    .map((step, index) => ({
+      from: step.minute,
+      to: simulation.profile[index + 1]?.minute ?? simulation.totalMinutes,
+      count: step.count
+    }))
+    .filter(range => range.to > range.from);
+}
+
+/**
+ * Format a concurrency profile as a single line, e.g. `0–2 min: 5, 2–42 min: 8`
+ * @param simulation The simulated schedule
+ * @returns The formatted profile
+ */
+export function formatProfile(simulation: WorkflowSimulation): string {
+  return getProfileRanges(simulation).map(range => `${range.from}–${range.to} min: ${range.count}`).join(', ');
+}
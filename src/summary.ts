@@ -0,0 +1,385 @@
+import { formatDelta, hasChanged } from './baseline';
+import { renderMermaidGraph } from './graph';
+import { formatPipelineChains } from './pipelines';
+import { formatPlanLimits } from './plans';
+import { getProfileRanges } from './simulation';
+import {
+  BaselineComparison,
+  PipelineGraph,
+  PlanCapacity,
+  PlanUsage,
+  ScheduledStart,
+  ScheduleOverlap,
+  ValidationIssue,
+  ValidationReport,
+  WorkflowCost,
+  WorkflowSimulation,
+  WorkflowValidationResult
+} from './types';
+
+/**
+ * Represents a group of jobs that start together, as shown in logs and summaries
+ */
+export interface ExecutionGroup {
+  /** Jobs of the group with their number of executions before any cap */
+  jobs: { job: string; matrixSize: number }[];
+  /** Number of concurrent executions of the group */
+  count: number;
+  /** Whether the group stays within the workflow's limit */
+  passed: boolean;
+}
+
+/**
+ * Get the execution groups of a workflow from its concurrency details
+ * @param result The validation result of the workflow
+ * @returns The execution groups, in dependency order
+ */
+export function getExecutionGroups(result: WorkflowValidationResult): ExecutionGroup[] {
+  return result.details.map(detail => {
+    const count = detail.count || 0;
+    return {
+      jobs: (detail.jobs || []).map(job => ({ job, matrixSize: detail.matrixSizes?.[job] || 1 })),
+      count,
+      passed: count <= result.maxConcurrency
+    };
+  });
+}
+
+/**
+ * Escape text for a Markdown table cell
+ * @param text The text
+ * @returns The text, safe to put between pipes
+ */
+function escapeCell(text: string): string {
+  return text.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ');
+}
+
+/**
+ * Format the rows of a Markdown table
+ * @param header The column headers
+ * @param rows The cells of each row
+ * @returns The lines of the table
+ */
+function formatTable(header: string[], rows: string[][]): string[] {
+  return [
+    `| ${header.join(' | ')} |`,
+    `| ${header.map(() => '---').join(' | ')} |`,
+    ...rows.map(row => `| ${row.join(' | ')} |`)
+  ];
+}
+
+/**
+ * Format a result cell
+ * @param passed Whether the limit is kept
+ * @returns The cell text
+ */
+function formatStatus(passed: boolean): string {
+  return passed ? '✅ Pass' : '❌ Fail';
+}
+
+/**
+ * Format a Markdown table of workflows with their peak, limit and headroom,
+ * tightest first
+ * @param workflows The validation results of the workflows
+ * @returns The lines of the table
+ */
+export function formatHeadroomTable(workflows: WorkflowValidationResult[]): string[] {
+  const byHeadroom = [...workflows].sort((a, b) =>
+    (a.maxConcurrency - a.concurrencyCount) - (b.maxConcurrency - b.concurrencyCount) ||
+    a.file.localeCompare(b.file));
+  return formatTable(
+    ['Workflow', 'Peak', 'Limit', 'Headroom', 'Result'],
+    byHeadroom.map(result => [
+      `\`${escapeCell(result.file)}\``,
+      String(result.concurrencyCount),
+      String(result.maxConcurrency),
+      String(result.maxConcurrency - result.concurrencyCount),
+      formatStatus(result.passed)
+    ])
+  );
+}
+
+/**
+ * Format a Markdown table of the workflows whose cost was analyzed, with their
+ * worst-case billable minutes per run, budget and costliest job, costliest first
+ * @param workflows The validation results of the workflows
+ * @returns The lines of the table
+ */
+export function formatCostTable(workflows: WorkflowValidationResult[]): string[] {
+  const withCost = workflows
+    .filter(result => result.cost !== undefined)
+    .sort((a, b) => (b.cost as WorkflowCost).minutes - (a.cost as WorkflowCost).minutes ||
+      a.file.localeCompare(b.file));
+  return formatTable(
+    ['Workflow', 'Billable minutes', 'Budget', 'Costliest job', 'Result'],
+    withCost.map(result => {
+      const cost = result.cost as WorkflowCost;
+      const costliest = cost.jobs.length > 0 ? cost.jobs[0] : undefined;
+      return [
+        `\`${escapeCell(result.file)}\``,
+        String(cost.minutes),
+        cost.limit !== undefined ? String(cost.limit) : '—',
+        costliest ? `\`${escapeCell(costliest.job)}\` (${costliest.executions} × ${costliest.minutes} min)` : '—',
+        formatStatus(cost.limit === undefined || cost.minutes <= cost.limit)
+      ];
+    })
+  );
+}
+
+/**
+ * Format the simulated schedule of a workflow as its peak and a table of
+ * concurrency over time
+ * @param simulation The simulated schedule
+ * @returns The lines of the table
+ */
+function formatSimulation(simulation: WorkflowSimulation): string[] {
+  return [
+    `Simulated peak: **${simulation.peak}** at minute ${simulation.peakMinute} ` +
+      `(worst case ${simulation.worstCase.count}), done after ${simulation.totalMinutes} minutes`,
+    '',
+    ...formatTable(
+      ['Minutes', 'Running executions'],
+      getProfileRanges(simulation).map(range => [`${range.from}–${range.to}`, String(range.count)])
+    )
+  ];
+}
+
+/**
+ * Format a Markdown table of the execution groups of a workflow, followed by its peak
+ * @param result The validation result of the workflow
+ * @returns The lines of the table
+ */
+export function formatExecutionGroups(result: WorkflowValidationResult): string[] {
+  const groups = getExecutionGroups(result);
+  if (groups.length === 0) {
+    return ['No jobs defined in workflow'];
+  }
+
+  return [
+    ...formatTable(
+      ['Group', 'Jobs', 'Matrix sizes', 'Group total', 'Result'],
+      groups.map((group, index) => [
+        String(index + 1),
+        group.jobs.map(({ job }) => `\`${escapeCell(job)}\``).join('<br>'),
+        group.jobs.map(({ matrixSize }) => String(matrixSize)).join('<br>'),
+        String(group.count),
+        formatStatus(group.passed)
+      ])
+    ),
+    '',
+    `Peak concurrency: **${result.concurrencyCount}** of ${result.maxConcurrency} ` +
+      `(${result.peakJobs.map(job => `\`${escapeCell(job)}\``).join(', ')})`,
+    ...(result.simulation ? ['', ...formatSimulation(result.simulation)] : [])
+  ];
+}
+
+/**
+ * Format the job graph of a workflow as a Mermaid code block, which GitHub
+ * renders in step summaries and comments
+ * @param result The validation result of the workflow
+ * @returns The lines of the code block
+ */
+export function formatMermaidBlock(result: WorkflowValidationResult): string[] {
+  return ['```mermaid', renderMermaidGraph(result), '```'];
+}
+
+/**
+ * Format issues as a Markdown list
+ * @param issues The issues
+ * @returns The lines of the list
+ */
+export function formatIssueList(issues: ValidationIssue[]): string[] {
+  return issues.map(issue => `- ${issue.file ? `\`${escapeCell(issue.file)}\`: ` : ''}${escapeCell(issue.message)}`);
+}
+
+/**
+ * Format a Markdown table of the workflows and jobs whose concurrency changed since the baseline
+ * @param comparison The comparison with the baseline
+ * @returns The lines of the table, followed by the accepted issues
+ */
+export function formatBaselineChanges(comparison: BaselineComparison): string[] {
+  const rows = comparison.workflows.filter(hasChanged).flatMap(delta => [
+    [`\`${escapeCell(delta.file)}\``, formatDelta(delta.before, delta.after)],
+    ...delta.jobs.map(job => [`\`${escapeCell(delta.file)}\` job \`${escapeCell(job.job)}\``,
+      formatDelta(job.before, job.after)])
+  ]);
+
+  const lines = rows.length > 0
+    ? formatTable(['Workflow', 'Concurrency'], rows)
+    : [`No concurrency changes since \`${escapeCell(comparison.source)}\`.`];
+  if (comparison.accepted.length > 0) {
+    lines.push('', `Not increased since \`${escapeCell(comparison.source)}\`, so not failing:`, '',
+      ...formatIssueList(comparison.accepted));
+  }
+  return lines;
+}
+
+/**
+ * Format the scheduled workflows starting together as a Markdown table, with
+ * the busiest start and the suggested staggered minutes
+ * @param schedule The weekly timeline of the scheduled workflows
+ * @returns The lines of the section
+ */
+export function formatScheduleOverlap(schedule: ScheduleOverlap): string[] {
+  const peak = schedule.peak as ScheduledStart;
+  const lines = [`The busiest start is ${escapeCell(peak.at)} UTC, with ${peak.count} parallel jobs.`];
+
+  const overlaps = schedule.starts.filter(start => start.workflows.length > 1);
+  if (overlaps.length > 0) {
+    lines.push('', ...formatTable(
+      ['Starts at (UTC)', 'Times a week', 'Parallel jobs', 'Workflows'],
+      [...overlaps].sort((a, b) => b.count - a.count).map(start => [
+        escapeCell(start.at),
+        String(start.occurrences),
+        String(start.count),
+        start.workflows.map(file => `\`${escapeCell(file)}\``).join(', ')
+      ])
+    ));
+  }
+  if (schedule.suggestions.length > 0) {
+    lines.push('', 'Staggering these crons would spread the load:', '');
+    schedule.suggestions.forEach(({ file, cron, suggested }) => {
+      lines.push(`- \`${escapeCell(file)}\`: \`${escapeCell(cron)}\` → \`${escapeCell(suggested)}\``);
+    });
+  }
+  return lines;
+}
+
+/**
+ * Format the chains of workflows starting each other as a Markdown table, with
+ * the loops among them
+ * @param pipelines The cross-file trigger graph
+ * @returns The lines of the section
+ */
+export function formatPipelines(pipelines: PipelineGraph): string[] {
+  const lines = pipelines.pipelines.length > 0
+    ? formatTable(
+      ['Pipeline', 'Parallel jobs', 'Chains'],
+      pipelines.pipelines.map(pipeline => [
+        `\`${escapeCell(pipeline.root)}\``,
+        String(pipeline.count),
+        formatPipelineChains(pipeline).map(escapeCell).join('<br/>')
+      ])
+    )
+    : [];
+  if (pipelines.cycles.length > 0) {
+    lines.push(...(lines.length > 0 ? [''] : []), 'These workflows start each other in a loop:', '');
+    pipelines.cycles.forEach(cycle => lines.push(`- ${cycle.map(file => `\`${escapeCell(file)}\``).join(' → ')}`));
+  }
+  return lines;
+}
+
+/**
+ * Format the share of the plan's concurrent jobs each trigger and workflow uses
+ * as a Markdown table, triggers first, followed by the share of the plan's GPU
+ * larger runners of the workflows using them
+ * @param capacity The plan's limits and the usage of the workflows
+ * @returns The lines of the section
+ */
+export function formatPlanCapacity(capacity: PlanCapacity): string[] {
+  const rows = (usages: PlanUsage[]): string[][] => usages.map(usage => [
+    `\`${escapeCell(usage.subject)}\``,
+    String(usage.count),
+    `${usage.percent}%`
+  ]);
+  return [
+    `Limits of the ${formatPlanLimits(capacity.limits)} plan.`,
+    '',
+    ...formatTable(['Trigger or workflow', 'Parallel jobs', 'Share of the plan'],
+      rows([...capacity.triggers, ...capacity.workflows])),
+    ...(capacity.gpu.length > 0
+      ? ['', ...formatTable(['Workflow', 'Parallel GPU jobs', 'Share of the GPU limit'], rows(capacity.gpu))]
+      : [])
+  ];
+}
+
+/**
+ * Format the violations of the policy rules as a Markdown table, errors first
+ * @param workflows The validation results of the workflows
+ * @returns The lines of the table, or a single line when no rule is violated
+ */
+export function formatRuleViolations(workflows: WorkflowValidationResult[]): string[] {
+  const violations = workflows
+    .flatMap(result => result.violations || [])
+    .sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1));
+  if (violations.length === 0) {
+    return ['✅ Every workflow follows the policy rules.'];
+  }
+  return formatTable(
+    ['Rule', 'Severity', 'Workflow', 'Violation'],
+    violations.map(violation => [
+      `\`${escapeCell(violation.rule)}\``,
+      violation.severity === 'error' ? '❌ error' : '⚠️ warning',
+      `\`${escapeCell(violation.file)}\``,
+      escapeCell(violation.message)
+    ])
+  );
+}
+
+/**
+ * Create a Markdown summary of a validation report, as written to the
+ * `GITHUB_STEP_SUMMARY` file: an overview of every workflow, tightest first,
+ * followed by the execution groups of each workflow
+ * @param report The validation report
+ * @returns The Markdown summary
+ */
+export function createStepSummary(report: ValidationReport): string {
+  const lines: string[] = [
+    '## Workflow concurrency',
+    '',
+    report.passed ? '✅ All workflows are within their limits.' : '❌ Some workflows have too many parallel jobs.',
+    '',
+    ...formatHeadroomTable(report.workflows)
+  ];
+
+  if (report.baseline) {
+    lines.push('', `### Changes against \`${escapeCell(report.baseline.source)}\``, '',
+      ...formatBaselineChanges(report.baseline));
+  }
+
+  if (report.workflows.some(result => result.cost !== undefined)) {
+    lines.push('', '### Worst-case cost', '', ...formatCostTable(report.workflows));
+  }
+
+  if (report.triggers.length > 0) {
+    lines.push('', '### Concurrency by trigger', '');
+    lines.push(...formatTable(
+      ['Trigger', 'Parallel jobs', 'Workflows'],
+      report.triggers.map(trigger => [
+        `\`${escapeCell(trigger.trigger)}\``,
+        String(trigger.count),
+        trigger.workflows.map(file => `\`${escapeCell(file)}\``).join(', ')
+      ])
+    ));
+  }
+
+  if (report.schedule.peak) {
+    lines.push('', '### Scheduled workflows', '', ...formatScheduleOverlap(report.schedule));
+  }
+
+  if (report.pipelines.edges.length > 0) {
+    lines.push('', '### Workflow pipelines', '', ...formatPipelines(report.pipelines));
+  }
+
+  if (report.plan) {
+    lines.push('', '### Plan capacity', '', ...formatPlanCapacity(report.plan));
+  }
+
+  if (report.rules) {
+    lines.push('', '### Policy rules', '', ...formatRuleViolations(report.workflows));
+  }
+
+  report.workflows.forEach(result => {
+    lines.push('', `### ${result.passed ? '✅' : '❌'} ${escapeCell(result.file)}`, '');
+    lines.push(...formatExecutionGroups(result));
+    if (result.jobs.length > 0) {
+      lines.push('', ...formatMermaidBlock(result));
+    }
+  });
+
+  if (report.issues.length > 0) {
+    lines.push('', '### Issues', '', ...formatIssueList(report.issues));
+  }
+
+  return `${lines.join('\n')}\n`;
+}
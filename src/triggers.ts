@@ -0,0 +1,275 @@
+import { TriggerConcurrency, TriggerRef, WorkflowFile, WorkflowTrigger, WorkflowValidationResult } from './types';
+
+// Events that start a single workflow per occurrence and never overlap with others
+const SINGLE_WORKFLOW_EVENTS = ['workflow_dispatch', 'workflow_call'];
+
+// Events supporting branch (and for push, tag) filters
+const REF_FILTERED_EVENTS = ['push', 'pull_request', 'pull_request_target', 'workflow_run'];
+
+// Sample ref name standing for any branch or tag not named by a filter
+const OTHER_REF = '\u0000other';
+
+/**
+ * Convert a GitHub branch/tag filter pattern into a regular expression.
+ * `*` matches any character except `/`, `**` matches any character, and
+ * `?`, `+` and `[...]` keep their regular expression meaning.
+ * @param pattern The filter pattern
+ * @returns The equivalent regular expression
+ */
+export function filterPatternToRegExp(pattern: string): RegExp {
+  let source = '';
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        source += '.*';
+        i++;
+      } else {
+        source += '[^/]*';
+      }
+    } else if (char === '?' || char === '+') {
+      source += char;
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i);
+      if (end === -1) {
+        source += '\\[';
+      } else {
+        source += pattern.slice(i, end + 1);
+        i = end;
+      }
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      source += `\\${pattern[++i]}`;
+    } else {
+      source += char.replace(/[.^$|(){}\]\\/]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Check a ref name against a list of filter patterns, where later `!` patterns negate earlier matches
+ * @param patterns The filter patterns
+ * @param name The branch or tag name
+ * @returns True if the name is matched by the patterns
+ */
+export function matchesFilterPatterns(patterns: string[], name: string): boolean {
+  let matched = false;
+  patterns.forEach(pattern => {
+    if (pattern.startsWith('!')) {
+      if (filterPatternToRegExp(pattern.slice(1)).test(name)) {
+        matched = false;
+      }
+    } else if (filterPatternToRegExp(pattern).test(name)) {
+      matched = true;
+    }
+  });
+  return matched;
+}
+
+/**
+ * Normalize a filter value (single pattern or list) into a list of patterns
+ * @param value The raw filter value
+ * @returns The list of patterns, or undefined if the filter isn't set
+ */
+export function toFilterPatterns(value: unknown): string[] | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  return (Array.isArray(value) ? value : [value]).map(pattern => String(pattern));
+}
+
+/**
+ * Check whether an event's configuration is a mapping of settings, e.g. `branches` or `types`
+ * @param config The configuration of the event
+ * @returns True if the configuration is a mapping
+ */
+function isEventConfig(config: unknown): config is Record<string, unknown> {
+  return typeof config === 'object' && config !== null && !Array.isArray(config);
+}
+
+/**
+ * Read a setting of an event's configuration, e.g. `branches` or `types`, or of a `schedule` entry
+ * @param config The configuration of the event
+ * @param field The name of the setting
+ * @returns The setting's value, or undefined if the configuration doesn't have it
+ */
+export function getEventField(config: unknown, field: string): unknown {
+  return isEventConfig(config) ? config[field] : undefined;
+}
+
+/**
+ * Get the events of a workflow's `on` section, whichever form it is written in
+ * @param workflow The workflow definition
+ * @returns The configuration of each event, null for events without one
+ */
+export function getWorkflowEvents(workflow: WorkflowFile): Record<string, unknown> {
+  const on = workflow.on;
+  if (!on) {
+    return {};
+  }
+  return typeof on === 'string'
+    ? { [on]: null }
+    : Array.isArray(on)
+      ? Object.fromEntries(on.map(event => [event, null]))
+      : on;
+}
+
+/**
+ * Get the events that start a workflow on their own, with their ref filters.
+ * `workflow_dispatch` and `workflow_call` only ever start a single workflow, so they are skipped.
+ * @param workflow The workflow definition
+ * @returns The triggers of the workflow
+ */
+export function getWorkflowTriggers(workflow: WorkflowFile): WorkflowTrigger[] {
+  const triggers: WorkflowTrigger[] = [];
+  Object.entries(getWorkflowEvents(workflow)).forEach(([event, config]) => {
+    if (SINGLE_WORKFLOW_EVENTS.includes(event)) {
+      return;
+    }
+
+    if (event === 'schedule') {
+      (Array.isArray(config) ? config : []).forEach((entry: unknown) => {
+        const cron = getEventField(entry, 'cron');
+        if (typeof cron === 'string') {
+          triggers.push({ event, qualifier: cron });
+        }
+      });
+      return;
+    }
+
+    const filters: WorkflowTrigger = { event };
+    if (isEventConfig(config)) {
+      filters.branches = toFilterPatterns(config.branches);
+      filters['branches-ignore'] = toFilterPatterns(config['branches-ignore']);
+      filters.tags = toFilterPatterns(config.tags);
+      filters['tags-ignore'] = toFilterPatterns(config['tags-ignore']);
+    }
+
+    // Each repository_dispatch type and each upstream workflow fires separately
+    const qualifiers = event === 'repository_dispatch'
+      ? toFilterPatterns(getEventField(config, 'types'))
+      : event === 'workflow_run'
+        ? toFilterPatterns(getEventField(config, 'workflows'))
+        : undefined;
+
+    if (qualifiers) {
+      qualifiers.forEach(qualifier => triggers.push({ ...filters, qualifier }));
+    } else {
+      triggers.push(filters);
+    }
+  });
+
+  return triggers;
+}
+
+/**
+ * Check whether a trigger fires for a given branch or tag
+ * @param trigger The workflow trigger
+ * @param ref The branch or tag the event happens on
+ * @returns True if the trigger's filters match the ref
+ */
+function matchesTriggerRef(trigger: WorkflowTrigger, ref: TriggerRef): boolean {
+  const include = ref.kind === 'branch' ? trigger.branches : trigger.tags;
+  const ignore = ref.kind === 'branch' ? trigger['branches-ignore'] : trigger['tags-ignore'];
+  const otherKindFiltered = ref.kind === 'branch'
+    ? trigger.tags || trigger['tags-ignore']
+    : trigger.branches || trigger['branches-ignore'];
+
+  if (!include && !ignore) {
+    // A push filtered only on tags doesn't run for branches, and vice versa
+    return !(trigger.event === 'push' && otherKindFiltered);
+  }
+
+  if (include) {
+    return matchesFilterPatterns(include, ref.name);
+  }
+  return !matchesFilterPatterns(ignore || [], ref.name);
+}
+
+/**
+ * Describe a trigger scenario for the report
+ * @param event The event name
+ * @param qualifier The event-specific discriminator, if any
+ * @param ref The branch or tag, if the event has ref filters
+ * @returns A human-readable description
+ */
+function describeTrigger(event: string, qualifier: string | undefined, ref: TriggerRef | undefined): string {
+  let description = qualifier !== undefined ? `${event} '${qualifier}'` : event;
+  if (ref) {
+    description += ref.name === OTHER_REF ? ` on any other ${ref.kind}` : ` on ${ref.kind} '${ref.name}'`;
+  }
+  return description;
+}
+
+/**
+ * Calculate the combined concurrency of workflows that are started by the same event.
+ * For events with branch/tag filters, a sample ref is taken from every filter pattern
+ * (plus one matching no specific pattern) to find the workflows that fire together.
+ * Path filters can't be decided statically, so they are assumed to overlap.
+ * @param workflows The analyzed workflows with their triggers
+ * @returns The combined concurrency of each trigger, sorted from highest to lowest
+ */
+export function calculateTriggerConcurrency(
+  workflows: { result: WorkflowValidationResult; triggers: WorkflowTrigger[] }[]
+): TriggerConcurrency[] {
+  const triggersByEvent = new Map<string, { result: WorkflowValidationResult; trigger: WorkflowTrigger }[]>();
+  workflows.forEach(({ result, triggers }) => {
+    triggers.forEach(trigger => {
+      triggersByEvent.set(trigger.event, [...(triggersByEvent.get(trigger.event) || []), { result, trigger }]);
+    });
+  });
+
+  const triggerConcurrency: TriggerConcurrency[] = [];
+
+  triggersByEvent.forEach((entries, event) => {
+    const qualifiers = Array.from(new Set(entries.map(({ trigger }) => trigger.qualifier)
+      .filter((qualifier): qualifier is string => qualifier !== undefined)));
+
+    // Without any filter pattern, every trigger of the event fires together
+    const refs: (TriggerRef | undefined)[] = [];
+    if (REF_FILTERED_EVENTS.includes(event)) {
+      const kinds: TriggerRef['kind'][] = event === 'push' ? ['branch', 'tag'] : ['branch'];
+      kinds.forEach(kind => {
+        const names = new Set<string>();
+        entries.forEach(({ trigger }) => {
+          const patterns = kind === 'branch'
+            ? [...(trigger.branches || []), ...(trigger['branches-ignore'] || [])]
+            : [...(trigger.tags || []), ...(trigger['tags-ignore'] || [])];
+          patterns.forEach(pattern => names.add(pattern.replace(/^!/, '')));
+        });
+        names.forEach(name => refs.push({ kind, name }));
+      });
+      if (refs.length > 0) {
+        kinds.forEach(kind => refs.push({ kind, name: OTHER_REF }));
+      }
+    }
+    if (refs.length === 0) {
+      refs.push(undefined);
+    }
+
+    const seen = new Set<string>();
+    (qualifiers.length > 0 ? qualifiers : [undefined]).forEach(qualifier => {
+      refs.forEach(ref => {
+        const matching = entries.filter(({ trigger }) =>
+          (trigger.qualifier === undefined || trigger.qualifier === qualifier) &&
+          (!ref || matchesTriggerRef(trigger, ref))
+        );
+        const files = Array.from(new Set(matching.map(({ result }) => result.file))).sort();
+        const key = files.join('\n');
+        if (files.length === 0 || seen.has(key)) {
+          return;
+        }
+        seen.add(key);
+
+        const counts = new Map(matching.map(({ result }) => [result.file, result.concurrencyCount]));
+        triggerConcurrency.push({
+          trigger: describeTrigger(event, qualifier, ref),
+          workflows: files,
+          count: Array.from(counts.values()).reduce((sum, count) => sum + count, 0)
+        });
+      });
+    });
+  });
+
+  return triggerConcurrency.sort((a, b) => b.count - a.count);
+}
@@ -0,0 +1,895 @@
+/**
+ * Represents a job in a GitHub Actions workflow file
+ */
+export interface WorkflowJob {
+  /** Dependencies of this job - can be a string or array of strings */
+  needs?: string | string[];
+  /** Condition the job runs under, with or without `${{ }}` */
+  if?: string | boolean;
+  /** Strategy configuration for matrix jobs */
+  strategy?: {
+    matrix?: Record<string, any>;
+    /** Maximum number of matrix jobs that can run at the same time */
+    'max-parallel'?: number | string;
+    'fail-fast'?: boolean | string;
+  };
+  /** Job-level concurrency group, either as a group name or a full configuration */
+  concurrency?: string | {
+    group: string;
+    'cancel-in-progress'?: boolean | string;
+  };
+  /** Job outputs that can be used by other jobs */
+  outputs?: Record<string, string>;
+  /** Maximum runtime of the job in minutes */
+  'timeout-minutes'?: number | string;
+  /** Deployment environment of the job, by name or with its URL */
+  environment?: string | {
+    name: string;
+    url?: string;
+  };
+  /** Environment variables of the job's steps */
+  env?: Record<string, unknown>;
+  /** Default shell and working directory of the job's `run` steps */
+  defaults?: {
+    run?: {
+      shell?: string;
+      'working-directory'?: string;
+    };
+  };
+  steps?: any[];
+  /** Runner labels, as a single label, a list of labels or a runner group */
+  'runs-on'?: string | string[] | {
+    group?: string;
+    labels?: string | string[];
+  };
+  /** Reusable workflow called by this job */
+  uses?: string;
+  /** Inputs passed to the reusable workflow */
+  with?: Record<string, unknown>;
+}
+
+/**
+ * Represents a job inlined from a reusable workflow into its caller's job graph
+ */
+export interface InlinedWorkflowJob extends WorkflowJob {
+  /** Top-level caller job and the workflow it calls */
+  calledBy: {
+    job: string;
+    workflow: string;
+  };
+  /** Number of times the callee runs in parallel, e.g. when the caller has a matrix */
+  callCount: number;
+}
+
+/**
+ * Represents the structure of a GitHub Actions workflow file
+ */
+export interface WorkflowFile {
+  /** Name of the workflow, as shown in the Actions tab and matched by `on.workflow_run` */
+  name?: string;
+  /** Events that trigger the workflow */
+  on?: string | string[] | Record<string, any>;
+  /** Workflow-level concurrency group, either as a group name or a full configuration */
+  concurrency?: string | {
+    group: string;
+    'cancel-in-progress'?: boolean | string;
+  };
+  /** Map of job names to job configurations */
+  jobs?: Record<string, WorkflowJob>;
+}
+
+/**
+ * Represents details about concurrency usage in a workflow file
+ */
+export interface ConcurrencyDetail {
+  /** Relative path to the workflow file */
+  file: string;
+  /** List of job names (for implicit concurrency) */
+  jobs?: string[];
+  /** Number of concurrent jobs (for implicit concurrency) */
+  count?: number;
+  /** Number of executions of each job before any cap is applied */
+  matrixSizes?: Record<string, number>;
+  /** Whether this concurrency setting counts towards the total */
+  counted: boolean;
+  /** Limits that reduced the number of concurrent jobs, with their reasons */
+  caps?: ConcurrencyCap[];
+  /** Concurrency of reusable workflows, attributed to the jobs that call them */
+  calledWorkflows?: CalledWorkflowDetail[];
+}
+
+/**
+ * Represents the concurrency a reusable workflow adds on behalf of its caller job
+ */
+export interface CalledWorkflowDetail {
+  /** Caller job in the analyzed workflow */
+  job: string;
+  /** Relative path to the called workflow file */
+  workflow: string;
+  /** Number of concurrent executions coming from the called workflow */
+  count: number;
+}
+
+/**
+ * Represents a limit that reduces the concurrency of one or more jobs
+ */
+export interface ConcurrencyCap {
+  /** Jobs affected by the cap */
+  jobs: string[];
+  /** Number of concurrent executions without the cap */
+  uncapped: number;
+  /** Number of concurrent executions with the cap applied */
+  capped: number;
+  /** Why the concurrency was capped */
+  reason: string;
+}
+
+/**
+ * Represents the largest set of executions that can run at the same moment
+ */
+export interface PeakConcurrency {
+  /** Number of concurrent executions */
+  count: number;
+  /** Jobs that run at the same moment to reach the peak */
+  jobs: string[];
+}
+
+/**
+ * Represents the computed concurrency of a level of parallel jobs
+ */
+export interface LevelConcurrency {
+  count: number;
+  caps: ConcurrencyCap[];
+  /** Number of executions of each job before any cap is applied */
+  matrixSizes: Record<string, number>;
+}
+
+export interface WorkflowValidationResult {
+  file: string;
+  /** Peak concurrency the workflow is validated against: the worst case, or the simulated peak */
+  concurrencyCount: number;
+  /** Maximum allowed concurrency the workflow was validated against */
+  maxConcurrency: number;
+  /** Jobs that make up the peak concurrency */
+  peakJobs: string[];
+  /** Peak concurrency broken down by runner label */
+  runners: RunnerConcurrency[];
+  /** Concurrency of each job, with its configured limit */
+  jobs: JobConcurrency[];
+  /** Jobs left out of the workflow's concurrency, for auditing */
+  suppressions: Suppression[];
+  /** Jobs that don't run for the analyzed event, left out of the workflow entirely */
+  skippedJobs: SkippedJob[];
+  /** Jobs whose matrix size is a guess, because it is only known at runtime */
+  unresolvedMatrices: string[];
+  /** Jobs that can't be scheduled because of a dependency cycle in `needs` */
+  cyclicJobs: string[];
+  /** Number of matrix combinations of each job, before any cap */
+  matrixSizes: Record<string, number>;
+  /** Jobs each job needs, for every job of the workflow */
+  dependencies: Record<string, string[]>;
+  /** Simulated schedule, when job durations were given or the simulated peak is validated */
+  simulation?: WorkflowSimulation;
+  /** Worst-case billable minutes of a run, when the cost is analyzed or has a budget */
+  cost?: WorkflowCost;
+  /** Violations of the policy rules, when any rule is enabled */
+  violations?: RuleResult[];
+  /** Positions of each job, when the workflow was analyzed from its YAML source */
+  jobPositions: Record<string, JobPositions>;
+  /** Problems that made parts of the workflow impossible to analyze */
+  warnings: string[];
+  passed: boolean;
+  details: ConcurrencyDetail[];
+}
+
+/**
+ * Represents a position in a workflow file
+ */
+export interface SourcePosition {
+  /** 1-based line */
+  line: number;
+  /** 1-based column */
+  column: number;
+}
+
+/**
+ * Represents the positions of a job's nodes in its workflow file
+ */
+export interface JobPositions {
+  /** Position of the job's key */
+  job: SourcePosition;
+  /** Position of the `strategy.matrix` key */
+  matrix?: SourcePosition;
+  /** Position of each entry of `needs`, keyed by the needed job */
+  needs: Record<string, SourcePosition>;
+}
+
+/**
+ * Represents the number of concurrent executions of a single job
+ */
+export interface JobConcurrency {
+  job: string;
+  /** Concurrent executions of the job, after max-parallel and concurrency group caps */
+  count: number;
+  /** Configured limit for the job, if any */
+  limit?: number;
+  /** Runner labels of the job across its matrix combinations */
+  runsOn: string[];
+  /** How sure the analysis is of the job's matrix size */
+  confidence: MatrixConfidence;
+  /** Whether the job is left out of the workflow's concurrency by a suppression */
+  ignored?: boolean;
+}
+
+/**
+ * Represents a job left out of the workflow's concurrency by an inline comment or the config
+ */
+export interface Suppression {
+  job: string;
+  /** The directive, e.g. `ignore` or `max=20` */
+  directive: string;
+  /** Where the suppression comes from */
+  source: 'comment' | 'config';
+  /** Explanation given after `--` in the comment */
+  reason?: string;
+  /** Line of the comment in the workflow file */
+  line?: number;
+}
+
+/**
+ * Represents a job that doesn't run for the analyzed event
+ */
+export interface SkippedJob {
+  job: string;
+  /** Why the job doesn't run, e.g. its `if` condition is false */
+  reason: string;
+}
+
+/**
+ * Represents a limit on the number of concurrent jobs for runners matching a label pattern
+ */
+export interface RunnerLimit {
+  /** Runner label or pattern, e.g. `macos-*` */
+  label: string;
+  /** Maximum number of concurrent jobs on matching runners */
+  limit: number;
+}
+
+/**
+ * GitHub plans; `ghes` is GitHub Enterprise Server, which has no built-in limits
+ */
+export type GitHubPlan = 'free' | 'pro' | 'team' | 'enterprise' | 'ghes';
+
+/**
+ * Represents the concurrent job limits of a GitHub plan
+ */
+export interface PlanLimits {
+  plan: GitHubPlan;
+  /** Concurrent jobs across the account, or the instance for GitHub Enterprise Server */
+  total: number;
+  /** Concurrent jobs on macOS runners, on plans with GitHub-hosted macOS runners */
+  macos?: number;
+  /** Concurrent jobs on GPU larger runners, on plans with larger runners */
+  gpu?: number;
+  /** Runner label pattern of the organization's GPU larger runners, which the GPU limit applies to */
+  gpuLabel: string;
+}
+
+/**
+ * Represents the share of a plan's concurrent jobs a workflow or trigger uses at its peak
+ */
+export interface PlanUsage {
+  /** Relative path to the workflow file, or the trigger */
+  subject: string;
+  /** Peak concurrency */
+  count: number;
+  /** Percentage of the plan's total concurrent jobs, to one decimal */
+  percent: number;
+}
+
+/**
+ * Represents how much of a plan's capacity the workflows use
+ */
+export interface PlanCapacity {
+  /** The plan's limits, after overrides */
+  limits: PlanLimits;
+  /** Usage of each workflow, highest first */
+  workflows: PlanUsage[];
+  /** Usage of the workflows started by each trigger, highest first */
+  triggers: PlanUsage[];
+  /** Usage of the plan's GPU larger runners by each workflow using them, highest first */
+  gpu: PlanUsage[];
+}
+
+/**
+ * Represents the price of a minute on runners matching a label pattern, relative to a Linux runner
+ */
+export interface RunnerMultiplier {
+  /** Runner label or pattern, e.g. `macos-*` */
+  label: string;
+  /** Billable minutes per minute of runtime */
+  multiplier: number;
+}
+
+/**
+ * Represents the worst-case billable minutes of a job in a single run of its workflow
+ */
+export interface JobCost {
+  job: string;
+  /** Executions per run: matrix combinations times reusable workflow calls */
+  executions: number;
+  /** Longest an execution can run: its `timeout-minutes`, or GitHub's default */
+  minutes: number;
+  /** Billable minutes of every execution, weighted by the multiplier of its runner */
+  cost: number;
+}
+
+/**
+ * Represents the worst-case billable minutes of a single run of a workflow
+ */
+export interface WorkflowCost {
+  /** Billable minutes of a run where every job runs until its timeout */
+  minutes: number;
+  /** Budget of billable minutes per run the workflow was validated against */
+  limit?: number;
+  /** Cost of each job, costliest first */
+  jobs: JobCost[];
+}
+
+/**
+ * Represents the peak concurrency of jobs running on a runner label
+ */
+export interface RunnerConcurrency {
+  /** Runner label, or the pattern of a configured limit */
+  label: string;
+  /** Peak number of concurrent jobs on the runner label */
+  count: number;
+  /** Jobs that make up the peak */
+  jobs: string[];
+  /** Configured limit for the label, if any */
+  limit?: number;
+}
+
+/**
+ * Represents an event that starts a workflow, with its ref filters
+ */
+export interface WorkflowTrigger {
+  /** Event name, e.g. push or pull_request */
+  event: string;
+  /** Event-specific discriminator, e.g. the cron expression of a schedule */
+  qualifier?: string;
+  branches?: string[];
+  'branches-ignore'?: string[];
+  tags?: string[];
+  'tags-ignore'?: string[];
+}
+
+/**
+ * Represents a branch or tag an event can happen on
+ */
+export interface TriggerRef {
+  kind: 'branch' | 'tag';
+  name: string;
+}
+
+/**
+ * Represents the combined concurrency of all workflows started by the same trigger
+ */
+export interface TriggerConcurrency {
+  /** Human-readable description of the trigger */
+  trigger: string;
+  /** Relative paths of the workflows started by the trigger */
+  workflows: string[];
+  /** Combined peak concurrency of the workflows */
+  count: number;
+}
+
+/**
+ * Represents the values a cron expression matches, field by field
+ */
+export interface CronSchedule {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: number[];
+  months: number[];
+  /** Days of the week, 0 for Sunday */
+  daysOfWeek: number[];
+}
+
+/**
+ * Represents a moment of the week when scheduled workflows start together
+ */
+export interface ScheduledStart {
+  /** First time of the week the workflows start together, e.g. `Mon 09:00`, in UTC */
+  at: string;
+  /** Minute of the week of that time, counted from Sunday 00:00 UTC */
+  minute: number;
+  /** Number of times a week the same workflows start together */
+  occurrences: number;
+  /** Relative paths of the workflows */
+  workflows: string[];
+  /** Combined peak concurrency of the workflows */
+  count: number;
+}
+
+/**
+ * Represents a cron entry that could start at another minute to avoid starting
+ * together with other scheduled workflows
+ */
+export interface ScheduleSuggestion {
+  /** Relative path to the workflow file */
+  file: string;
+  /** The cron expression as written */
+  cron: string;
+  /** The same expression, starting at the suggested minute */
+  suggested: string;
+}
+
+/**
+ * Represents the weekly timeline of scheduled workflows
+ */
+export interface ScheduleOverlap {
+  /** Every distinct set of workflows starting at the same minute, in the order they first start */
+  starts: ScheduledStart[];
+  /** The start with the highest combined load, if any workflow is scheduled */
+  peak?: ScheduledStart;
+  /** Cron entries to move to another minute, lightest workflows first */
+  suggestions: ScheduleSuggestion[];
+}
+
+/**
+ * Represents a way one workflow can start another
+ */
+export interface PipelineEdge {
+  /** Relative path to the workflow that starts the other one */
+  from: string;
+  /** Relative path to the started workflow */
+  to: string;
+  /** Event the started workflow runs on */
+  via: 'workflow_run' | 'workflow_dispatch' | 'repository_dispatch';
+  /** Job of the starting workflow whose steps dispatch the other workflow; not set for `workflow_run` */
+  job?: string;
+  /** Whether the started workflow can run while the starting one still runs */
+  overlaps: boolean;
+}
+
+/**
+ * Represents a run of a workflow in a pipeline, with the runs it starts
+ */
+export interface PipelineRun {
+  /** Relative path to the workflow file */
+  file: string;
+  /** Peak concurrency of the workflow on its own */
+  count: number;
+  /** How the run was started, except for the first run of a pipeline */
+  via?: PipelineEdge['via'];
+  /** Whether the run can overlap with the run that started it */
+  overlaps?: boolean;
+  /** Runs started by this one */
+  next: PipelineRun[];
+}
+
+/**
+ * Represents a chain of workflows started by one another
+ */
+export interface Pipeline {
+  /** Relative path to the workflow that starts the pipeline, which only the workflows it leads to can start */
+  root: string;
+  /** The first run, with the runs it leads to */
+  run: PipelineRun;
+  /** Relative paths of every workflow in the pipeline */
+  workflows: string[];
+  /** Worst-case combined concurrency of the runs that can overlap */
+  count: number;
+}
+
+/**
+ * Represents how the scanned workflows start each other
+ */
+export interface PipelineGraph {
+  /** Every way a workflow starts another */
+  edges: PipelineEdge[];
+  /** Pipelines starting at each workflow no workflow outside them starts, busiest first */
+  pipelines: Pipeline[];
+  /** Workflows starting each other in a loop, each starting and ending with the same workflow */
+  cycles: string[][];
+}
+
+export interface MatrixProvider {
+  jobKey: string;
+  outputKey: string;
+  /** Number of values of the output, or of matrix combinations when the output is a whole matrix */
+  size: number;
+  /** The output's value, parsed as JSON, when it could be inferred */
+  value?: unknown;
+  /** How sure the analysis is of the size */
+  confidence: MatrixConfidence;
+  consumers: Set<string>;
+}
+
+/**
+ * How sure the analysis is of a matrix size: `exact` when it's written in the
+ * workflow, `inferred` when it's read from files in the repository or written
+ * under a condition, and `guessed` when it's only known at runtime
+ */
+export type MatrixConfidence = 'exact' | 'inferred' | 'guessed';
+
+/**
+ * A single job instance produced by expanding a matrix
+ */
+export type MatrixCombination = Record<string, unknown>;
+
+/**
+ * Loads a workflow, or another file committed in the repository, by its path
+ * relative to the repository root
+ * @returns The file content (for workflows, YAML or parsed), or undefined if it doesn't exist
+ */
+export type WorkflowLoader = (relativeFilePath: string) => WorkflowFile | string | undefined;
+
+/**
+ * Represents the per-job settings of the repository config
+ */
+export interface JobConfig {
+  /** Maximum allowed concurrent executions of the job */
+  maxConcurrency?: number;
+  /** Whether to leave the job out of the workflow's concurrency */
+  ignore?: boolean;
+}
+
+/**
+ * Represents the overrides of the repository config for workflows matching a path pattern
+ */
+export interface WorkflowConfig {
+  /** Workflow path pattern, relative to the repository root, e.g. `.github/workflows/nightly-*.yml` */
+  path: string;
+  maxConcurrency?: number;
+  /** Budget of worst-case billable minutes per run */
+  maxCost?: number;
+  runnerLimits?: RunnerLimit[];
+  /** Settings of jobs by job ID or pattern */
+  jobs?: Record<string, JobConfig>;
+}
+
+/**
+ * Represents the repository config file, `.github/concurrency-validator.yml` by default
+ */
+export interface ValidatorConfig {
+  /** Default limits, used when not given as options */
+  defaults: {
+    maxConcurrency?: number;
+    maxTotalConcurrency?: number;
+    maxScheduledConcurrency?: number;
+    maxCost?: number;
+    runnerLimits?: RunnerLimit[];
+    costMultipliers?: RunnerMultiplier[];
+    /** Plan whose limits are used when no other limit is set */
+    plan?: GitHubPlan;
+    /** Limits replacing those of the plan's preset, e.g. a raised total */
+    planLimits?: Partial<Omit<PlanLimits, 'plan'>>;
+  };
+  /** Overrides applied, in order, to the workflows matching their path pattern */
+  workflows: WorkflowConfig[];
+  /** Path patterns of workflows that aren't validated */
+  ignore: string[];
+  /** Settings of the policy rules, by rule ID */
+  rules?: Record<string, RuleConfig>;
+  /** Paths of local JavaScript or TypeScript modules defining more policy rules */
+  ruleModules?: string[];
+}
+
+/**
+ * Options controlling how workflows are analyzed
+ */
+export interface AnalysisOptions {
+  /** Maximum allowed concurrency per workflow (defaults to the config, then 10) */
+  maxConcurrency?: number;
+  /** Maximum allowed combined concurrency of workflows started by the same trigger */
+  maxTotalConcurrency?: number;
+  /** Maximum allowed combined concurrency of scheduled workflows starting at the same minute */
+  maxScheduledConcurrency?: number;
+  /** Limits on the number of concurrent jobs per runner label */
+  runnerLimits?: RunnerLimit[];
+  /** Plan whose preset limits apply when no other limit is set (defaults to the config) */
+  plan?: GitHubPlan;
+  /** Whether to analyze the worst-case billable minutes of each workflow, even without a budget */
+  cost?: boolean;
+  /** Budget of worst-case billable minutes per run of each workflow (defaults to the config) */
+  maxCost?: number;
+  /** Minute multipliers per runner label, taking precedence over the config and GitHub's */
+  costMultipliers?: RunnerMultiplier[];
+  /** Policy rules to check on top of the built-in ones and those of the config's rule modules */
+  rules?: WorkflowRule[];
+  /** Repository root used to resolve local reusable workflows and rule modules (defaults to the current directory) */
+  workspace?: string;
+  /** Custom loader for called reusable workflows, instead of reading them from the workspace */
+  loadWorkflow?: WorkflowLoader;
+  /** Repository config; its per-workflow overrides take precedence over the limits above */
+  config?: ValidatorConfig;
+  /** Typical job runtimes; when given, the workflow's schedule is simulated */
+  durations?: JobDurations;
+  /** Peak the workflow limit is checked against (defaults to the worst case) */
+  peak?: PeakMode;
+  /** Event to analyze the workflows for; jobs whose `if` is false for it are left out */
+  event?: EventContext;
+}
+
+/**
+ * Represents the contexts known for the analyzed event, as seen by workflow
+ * expressions. Contexts and properties that aren't given are unknown, so
+ * conditions depending on them are assumed to pass.
+ */
+export interface EventContext {
+  /** The `github` context, e.g. `{ event_name: 'push', ref: 'refs/heads/main' }` */
+  github?: Record<string, unknown>;
+  /** Inputs of a `workflow_dispatch` or `workflow_call` event */
+  inputs?: Record<string, unknown>;
+  /** Configuration variables */
+  vars?: Record<string, unknown>;
+}
+
+/**
+ * How the peak concurrency of a workflow is determined: the worst case over the
+ * `needs` graph, or the peak of a simulation with typical job runtimes
+ */
+export type PeakMode = 'worst-case' | 'simulated';
+
+/**
+ * Represents the durations file with the typical runtimes of jobs
+ */
+export interface JobDurations {
+  /** Runtime in minutes of jobs without a known runtime or `timeout-minutes` */
+  default?: number;
+  /** Runtime in minutes of each job, keyed by workflow path pattern and job key pattern */
+  workflows: Record<string, Record<string, number>>;
+}
+
+/**
+ * Represents the number of executions running from a point in a simulated schedule
+ */
+export interface ConcurrencyStep {
+  /** Minutes since the workflow started */
+  minute: number;
+  /** Executions running from this minute until the next step */
+  count: number;
+}
+
+/**
+ * Represents the simulated schedule of a workflow, with each job running for its typical runtime
+ */
+export interface WorkflowSimulation {
+  /** Highest number of executions running at the same time */
+  peak: number;
+  /** Jobs running when the peak is first reached */
+  peakJobs: string[];
+  /** Minutes since the workflow started when the peak is first reached */
+  peakMinute: number;
+  /** Minutes until the last job finishes */
+  totalMinutes: number;
+  /** Number of executions running over time */
+  profile: ConcurrencyStep[];
+  /** Worst-case peak over the `needs` graph, regardless of runtimes */
+  worstCase: PeakConcurrency;
+}
+
+/**
+ * A workflow to validate, as YAML content or an already-parsed object
+ */
+export interface WorkflowSource {
+  /** Relative path to the workflow file */
+  file: string;
+  /** Workflow content */
+  content: WorkflowFile | string;
+}
+
+/**
+ * Represents a problem found during validation
+ */
+export interface ValidationIssue {
+  /** Kind of problem; `invalid-workflow` issues come from findings with the `error` severity */
+  type: 'concurrency-limit' | 'runner-limit' | 'job-limit' | 'cost-limit' | 'total-concurrency-limit' |
+    'schedule-limit' | 'pipeline-cycle' | 'invalid-workflow' | 'rule-violation' | 'parse-error';
+  /** Relative path to the workflow file, if the issue concerns a single file */
+  file?: string;
+  /** Description of the problem */
+  message: string;
+  /**
+   * Job, runner label, trigger or scheduled start whose limit is exceeded, the workflows
+   * of a loop, the type of the finding or the violated rule
+   */
+  subject?: string;
+  /** Where the problem is, e.g. the jobs that make up an exceeded peak */
+  locations?: IssueLocation[];
+}
+
+/**
+ * How serious a finding is: errors make GitHub reject the workflow and fail
+ * validation, warnings make its analysis less reliable
+ */
+export type FindingSeverity = 'error' | 'warning';
+
+/**
+ * Represents a problem in the structure of a workflow, found on top of its limits
+ */
+export interface WorkflowFinding {
+  /** Kind of problem */
+  type: 'unresolved-dynamic-matrix' | 'unknown-needs' | 'self-needs' | 'cyclic-needs' | 'matrix-limit' |
+    'invalid-job-id';
+  severity: FindingSeverity;
+  /** Relative path to the workflow file */
+  file: string;
+  /** Description of the problem */
+  message: string;
+  /** Where the problem is */
+  locations: IssueLocation[];
+}
+
+/**
+ * How a policy rule reports its violations: errors fail validation, warnings are
+ * only reported, and `off` disables the rule
+ */
+export type RuleSeverity = FindingSeverity | 'off';
+
+/**
+ * Represents the settings of a policy rule in the config
+ */
+export interface RuleConfig {
+  /** Severity replacing the rule's own */
+  severity?: RuleSeverity;
+  /** Options of the rule, e.g. `max` */
+  options: Record<string, unknown>;
+}
+
+/**
+ * Represents what a policy rule checks: a workflow with its analysis
+ */
+export interface RuleContext {
+  /** Relative path to the workflow file */
+  file: string;
+  /** The parsed workflow */
+  workflow: WorkflowFile;
+  /** The analysis of the workflow, with its job graph, matrix sizes and peak */
+  result: WorkflowValidationResult;
+  /** Events that start the workflow */
+  triggers: WorkflowTrigger[];
+  /** Options of the rule from the config */
+  options: Record<string, unknown>;
+}
+
+/**
+ * Represents a violation returned by a policy rule
+ */
+export interface RuleViolation {
+  /** Description of the problem */
+  message: string;
+  /** Job the violation is in, if any; the workflow file otherwise */
+  job?: string;
+  /** Node of the job to point at */
+  node?: 'job' | 'matrix';
+}
+
+/**
+ * Represents a policy rule, checked on every workflow
+ */
+export interface WorkflowRule {
+  /** ID of the rule in the config, e.g. `max-matrix-size` */
+  id: string;
+  /** What the rule requires */
+  description: string;
+  /** Severity of the violations, unless the config sets another */
+  severity: FindingSeverity;
+  /** Find the violations of the rule in a workflow */
+  check: (context: RuleContext) => RuleViolation[];
+}
+
+/**
+ * Represents a violation of a policy rule, located in its workflow
+ */
+export interface RuleResult {
+  /** ID of the violated rule */
+  rule: string;
+  severity: FindingSeverity;
+  /** Relative path to the workflow file */
+  file: string;
+  /** Description of the problem */
+  message: string;
+  /** Where the problem is */
+  locations: IssueLocation[];
+}
+
+/**
+ * Represents a place in a workflow file an issue points at
+ */
+export interface IssueLocation {
+  /** Relative path to the workflow file */
+  file: string;
+  /** Job the location is in, if any */
+  job?: string;
+  /** Position in the file, if known */
+  position?: SourcePosition;
+}
+
+/**
+ * Represents the result of validating a set of workflows
+ */
+export interface ValidationReport {
+  /** Whether every workflow and trigger is within its limits */
+  passed: boolean;
+  /** Result of each workflow that could be analyzed */
+  workflows: WorkflowValidationResult[];
+  /** Relative paths of the workflows skipped because the config ignores them */
+  ignored: string[];
+  /** Combined concurrency of the workflows started by each trigger, highest first */
+  triggers: TriggerConcurrency[];
+  /** Combined concurrency of the busiest trigger */
+  totalConcurrency: number;
+  /** Weekly timeline of the scheduled workflows */
+  schedule: ScheduleOverlap;
+  /** Workflows that start other workflows, and the pipelines they form */
+  pipelines: PipelineGraph;
+  /** Share of the plan's capacity each workflow and trigger uses, when a plan is set */
+  plan?: PlanCapacity;
+  /** The enabled policy rules, with their configured severity, when any is enabled */
+  rules?: Omit<WorkflowRule, 'check'>[];
+  /** Problems found during validation; only new or increased ones when compared with a baseline */
+  issues: ValidationIssue[];
+  /** Comparison with the baseline, when one was given */
+  baseline?: BaselineComparison;
+}
+
+/**
+ * Represents the concurrency of a workflow recorded in a baseline
+ */
+export interface BaselineWorkflow {
+  concurrencyCount: number;
+  /** Concurrency of each job */
+  jobs: Record<string, number>;
+  /** Peak concurrency of each runner label */
+  runners: Record<string, number>;
+  /** Worst-case billable minutes per run, when the cost was analyzed */
+  cost?: number;
+}
+
+/**
+ * Represents the concurrency of a set of workflows that later changes are compared with,
+ * e.g. at the base branch of a pull request
+ */
+export interface Baseline {
+  /** Concurrency of each workflow, keyed by relative path */
+  workflows: Record<string, BaselineWorkflow>;
+  /** Combined concurrency of each trigger */
+  triggers: Record<string, number>;
+  /** Combined concurrency of the scheduled workflows starting at each time of the week, e.g. `Mon 03:00` */
+  schedule: Record<string, number>;
+}
+
+/**
+ * Represents how the concurrency of something changed since the baseline
+ */
+export interface ConcurrencyDelta {
+  /** Concurrency in the baseline, undefined when it's new */
+  before?: number;
+  /** Current concurrency */
+  after: number;
+}
+
+/**
+ * Represents how the concurrency of a workflow and its jobs changed since the baseline
+ */
+export interface WorkflowDelta extends ConcurrencyDelta {
+  /** Relative path to the workflow file */
+  file: string;
+  /** Jobs whose concurrency changed */
+  jobs: (ConcurrencyDelta & { job: string })[];
+}
+
+/**
+ * Represents the comparison of a validation report with a baseline
+ */
+export interface BaselineComparison {
+  /** Git ref or file the baseline was read from */
+  source: string;
+  /** Changes of each workflow */
+  workflows: WorkflowDelta[];
+  /** Exceeded limits that were already exceeded as much in the baseline */
+  accepted: ValidationIssue[];
+}
@@ -0,0 +1,56 @@
+import fs from 'fs';
+import path from 'path';
+import yaml from 'js-yaml';
+import { WorkflowFile, WorkflowLoader } from './types';
+import { parseYamlSource, YamlKey } from './yaml-source';
+
+/**
+ * Represents a workflow parsed from its YAML source, with the keys read for inline comments and positions
+ */
+export interface ParsedWorkflow {
+  /** The parsed workflow definition */
+  workflow: WorkflowFile;
+  /** Mapping keys of the YAML source; empty for workflows given already parsed */
+  keys: YamlKey[];
+}
+
+/**
+ * Parse the YAML content of a workflow file
+ * @param content The YAML content, or an already-parsed workflow
+ * @returns The parsed workflow definition
+ */
+export function parseWorkflow(content: WorkflowFile | string): WorkflowFile {
+  if (typeof content !== 'string') {
+    return content;
+  }
+  return (yaml.load(content) || {}) as WorkflowFile;
+}
+
+/**
+ * Parse the YAML content of a workflow file once for both its definition and its keys
+ * @param content The YAML content, or an already-parsed workflow
+ * @returns The parsed workflow definition with the keys of its source
+ * @throws {Error} If the content isn't valid YAML
+ */
+export function parseWorkflowSource(content: WorkflowFile | string): ParsedWorkflow {
+  if (typeof content !== 'string') {
+    return { workflow: content, keys: [] };
+  }
+  const { document, keys } = parseYamlSource(content);
+  return { workflow: (document || {}) as WorkflowFile, keys };
+}
+
+/**
+ * Create a loader that reads workflows from a repository checkout
+ * @param workspace The repository root
+ * @returns A loader resolving paths relative to the repository root
+ */
+export function createWorkspaceLoader(workspace: string): WorkflowLoader {
+  return relativeFilePath => {
+    const filePath = path.join(workspace, relativeFilePath);
+    if (!fs.existsSync(filePath)) {
+      return undefined;
+    }
+    return fs.readFileSync(filePath, 'utf8');
+  };
+}
@@ -0,0 +1,247 @@
+import yaml from 'js-yaml';
+import { JobPositions, SourcePosition } from './types';
+
+/**
+ * Represents a node of the YAML source of a workflow, as read by the parser
+ */
+export interface YamlNode {
+  /** Kind of the node: `mapping`, `sequence` or `scalar`; undefined for empty values */
+  kind?: string;
+  /** Parsed value of the node */
+  value: unknown;
+  /** 1-based line where the node starts */
+  line: number;
+  /** 1-based column where the node starts */
+  column: number;
+  /** Nodes of the entries of a sequence, or the keys and values of a mapping, in source order */
+  children: YamlNode[];
+}
+
+/**
+ * Represents a mapping key found in the YAML source of a workflow
+ */
+export interface YamlKey {
+  /** Keys from the document root to this key, e.g. `['jobs', 'build', 'strategy']` */
+  path: string[];
+  /** 1-based line of the key */
+  line: number;
+  /** 1-based column of the key */
+  column: number;
+  /** Node of the key's value */
+  value?: YamlNode;
+  /** Comment at the end of the key's line, without the `#` */
+  comment?: string;
+  /** Full-line comments directly above the key, without the `#` */
+  leadingComments: string[];
+}
+
+/**
+ * Represents the YAML source of a workflow, parsed once for both its content and its keys
+ */
+export interface YamlSource {
+  /** Parsed content of the document; undefined for an empty document */
+  document: unknown;
+  /** Mapping keys of the document, in source order */
+  keys: YamlKey[];
+}
+
+/**
+ * Find the comment at the end of a line, outside of quoted strings
+ * @param text The text from a key to the end of its line
+ * @returns The comment without the `#`, if any
+ */
+function findComment(text: string): string | undefined {
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(i + 1).trim();
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parse the YAML source of a workflow into a tree of nodes with their positions,
+ * from the open and close events of the parser
+ * @param content The YAML content
+ * @returns The parsed document, its root node if it isn't empty, and the
+ * 0-based lines that continue a multi-line scalar
+ * @throws {Error} If the content isn't valid YAML
+ */
+function parseNodes(content: string): { document: unknown; root?: YamlNode; scalarLines: Set<number> } {
+  const lineStarts = [0];
+  for (let index = content.indexOf('\n'); index !== -1; index = content.indexOf('\n', index + 1)) {
+    lineStarts.push(index + 1);
+  }
+  const lineOf = (offset: number): number => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const middle = Math.ceil((low + high) / 2);
+      if (lineStarts[middle] <= offset) {
+        low = middle;
+      } else {
+        high = middle - 1;
+      }
+    }
+    return low;
+  };
+
+  const scalarLines = new Set<number>();
+  const stack: { start: number; children: YamlNode[] }[] = [{ start: 0, children: [] }];
+  const document = yaml.load(content, {
+    listener: (event, state) => {
+      if (event === 'open') {
+        stack.push({ start: state.position, children: [] });
+        return;
+      }
+
+      const frame = stack.pop() as { start: number; children: YamlNode[] };
+      const parent = stack[stack.length - 1];
+      // The parser tries plain scalars as mapping keys first, which wraps them in a second node
+      if (state.kind === 'scalar' && frame.children.length === 1) {
+        parent.children.push(frame.children[0]);
+        return;
+      }
+
+      // Nodes are opened before the spaces and comments that lead to their value
+      let start = frame.start;
+      while (start < state.position && /[\s#]/.test(content[start])) {
+        const lineEnd = content.indexOf('\n', start);
+        start = content[start] === '#' && lineEnd !== -1 ? lineEnd : start + 1;
+      }
+
+      const line = lineOf(start);
+      if (state.kind === 'scalar') {
+        const lines = content.slice(start, state.position).trimEnd().split('\n').length;
+        for (let next = line + 1; next < line + lines; next++) {
+          scalarLines.add(next);
+        }
+      }
+      parent.children.push({
+        ...(state.kind ? { kind: state.kind } : {}),
+        value: state.result,
+        line: line + 1,
+        column: start - lineStarts[line] + 1,
+        children: frame.children
+      });
+    }
+  });
+
+  return { document, root: stack[0].children[0], scalarLines };
+}
+
+/**
+ * Parse the YAML source of a workflow, with the positions and comments of its
+ * mapping keys. Positions come from the YAML parser, so flow mappings, quoted
+ * keys and block scalars are read the way the workflow is. The parser drops
+ * comments, so they are read from the source lines: a comment at the end of a
+ * line, or on the lines directly above it, belongs to the first key on that line.
+ * @param content The YAML content
+ * @returns The parsed document and its keys in source order
+ * @throws {Error} If the content isn't valid YAML
+ */
+export function parseYamlSource(content: string): YamlSource {
+  const { document, root, scalarLines } = parseNodes(content);
+  const keys: YamlKey[] = [];
+  const visit = (node: YamlNode, path: string[]): void => {
+    node.children.forEach((child, index) => {
+      if (node.kind !== 'mapping') {
+        visit(child, path);
+      } else if (index % 2 === 0) {
+        const value = node.children[index + 1] as YamlNode | undefined;
+        keys.push({
+          path: [...path, String(child.value)],
+          line: child.line,
+          column: child.column,
+          ...(value ? { value } : {}),
+          leadingComments: []
+        });
+        if (value) {
+          visit(value, [...path, String(child.value)]);
+        }
+      }
+    });
+  };
+  if (root) {
+    visit(root, []);
+  }
+
+  const lines = content.split(/\r?\n/);
+  const commented = new Set<number>();
+  const commentedKeys = keys.map(key => {
+    if (commented.has(key.line)) {
+      return key;
+    }
+    commented.add(key.line);
+
+    const comment = findComment(lines[key.line - 1].slice(key.column - 1));
+    const leadingComments: string[] = [];
+    for (let line = key.line - 1; line >= 1 && !scalarLines.has(line - 1); line--) {
+      const trimmed = lines[line - 1].trim();
+      if (!trimmed.startsWith('#')) {
+        break;
+      }
+      leadingComments.unshift(trimmed.slice(1).trim());
+    }
+    return { ...key, ...(comment !== undefined ? { comment } : {}), leadingComments };
+  });
+  return { document, keys: commentedKeys };
+}
+
+/**
+ * Find the positions of the entries of a `needs` value: a single job or a
+ * sequence of jobs, in block or flow style
+ * @param value The node of the `needs` value
+ * @returns The position of each needed job
+ */
+function findNeedsPositions(value: YamlNode | undefined): Record<string, SourcePosition> {
+  const positions: Record<string, SourcePosition> = {};
+  const entries = value?.kind === 'sequence' ? value.children : value ? [value] : [];
+  entries
+    .filter(entry => entry.kind === 'scalar')
+    .forEach(entry => {
+      positions[String(entry.value)] = { line: entry.line, column: entry.column };
+    });
+  return positions;
+}
+
+/**
+ * Find the positions of each job's key, `strategy.matrix` and `needs` entries
+ * in the YAML source of a workflow
+ * @param keys The keys of the YAML source
+ * @returns The positions of each job, keyed by job ID
+ */
+export function findJobPositions(keys: YamlKey[]): Record<string, JobPositions> {
+  const positions: Record<string, JobPositions> = {};
+
+  keys
+    .filter(key => key.path[0] === 'jobs' && key.path.length >= 2)
+    .forEach(key => {
+      const [, jobKey, ...rest] = key.path;
+      const position = { line: key.line, column: key.column };
+      if (rest.length === 0) {
+        positions[jobKey] = { job: position, needs: {} };
+        return;
+      }
+
+      const job = positions[jobKey];
+      if (!job) {
+        return;
+      }
+      if (rest.length === 2 && rest[0] === 'strategy' && rest[1] === 'matrix') {
+        job.matrix = position;
+      } else if (rest.length === 1 && rest[0] === 'needs') {
+        job.needs = findNeedsPositions(key.value);
+      }
+    });
+
+  return positions;
+}